@@ -1,17 +1,27 @@
 "use client"
 
+import { MapLegend } from "@/components/map-legend"
 import { MapWithDrawing } from "@/components/map-with-drawing"
+import { formatArea, type WorkArea } from "@/utils/mapUtils"
 import { useState } from "react"
 
 export default function Page() {
   const [mode, setMode] = useState<"draw" | "georef">("draw")
-  const [georefMode, setGeorefMode] = useState<"none" | "point" | "line" | "polygon">("none")
-  const [polygon, setPolygon] = useState<{ lat: number; lng: number }[]>([])
-  const [area, setArea] = useState<number | null>(null)
+  const [georefMode, setGeorefMode] = useState<"none" | "point" | "line" | "polygon" | "image">("none")
+  const [workAreas, setWorkAreas] = useState<WorkArea[]>([])
+  // Derived rather than taken from the map, so renames and deletes made here update it too
+  const area = workAreas.length > 0 ? workAreas.reduce((sum, w) => sum + w.area, 0) : null
 
-  const handlePolygonChange = (newPolygon: { lat: number; lng: number }[], areaSqMeters: number | null) => {
-    setPolygon(newPolygon)
-    setArea(areaSqMeters)
+  const handleWorkAreasChange = (newWorkAreas: WorkArea[]) => {
+    setWorkAreas(newWorkAreas)
+  }
+
+  const renameWorkArea = (id: string, name: string) => {
+    setWorkAreas((prev) => prev.map((w) => (w.id === id ? { ...w, name } : w)))
+  }
+
+  const deleteWorkArea = (id: string) => {
+    setWorkAreas((prev) => prev.filter((w) => w.id !== id))
   }
 
   const handleGeorefComplete = (result: any) => {}
@@ -88,17 +98,58 @@ export default function Page() {
                 >
                   Polygon
                 </button>
+                <button
+                  onClick={() => setGeorefMode("image")}
+                  className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                    georefMode === "image"
+                      ? "bg-blue-500 text-white"
+                      : "bg-secondary text-secondary-foreground hover:bg-secondary/80"
+                  }`}
+                >
+                  Image
+                </button>
               </div>
             </div>
           )}
 
-          {/* Area Display */}
-          {polygon.length > 0 && area && (
-            <div className="rounded-lg border bg-card p-3">
-              <div className="text-sm">
-                <span className="font-medium">Total Area:</span>
-                <div className="text-lg font-bold mt-1">{(area / 1000000).toFixed(2)} km²</div>
+          {/* Work Areas */}
+          {workAreas.length > 0 && (
+            <div className="space-y-3">
+              <h3 className="text-sm font-semibold">Work Areas</h3>
+              <div className="space-y-2">
+                {workAreas.map((workArea) => (
+                  <div key={workArea.id} className="rounded-lg border bg-card p-3 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <input
+                        value={workArea.name}
+                        onChange={(e) => renameWorkArea(workArea.id, e.target.value)}
+                        className="flex-1 min-w-0 rounded-md border bg-background px-2 py-1 text-sm"
+                        aria-label="Work area name"
+                      />
+                      <button
+                        onClick={() => deleteWorkArea(workArea.id)}
+                        className="px-2 py-1 rounded-md text-xs font-medium bg-red-100 text-red-700 hover:bg-red-200 transition-colors"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {formatArea(workArea.area)} • {workArea.coordinates.length}{" "}
+                      {workArea.coordinates.length === 1 ? "part" : "parts"}
+                      {workArea.coordinates.some((rings) => rings.length > 1) && " (with holes)"}
+                    </div>
+                  </div>
+                ))}
               </div>
+
+              {area && (
+                <div className="rounded-lg border bg-card p-3">
+                  <div className="text-sm">
+                    <span className="font-medium">Total Area:</span>
+                    <div className="text-lg font-bold mt-1">{(area / 1000000).toFixed(2)} km²</div>
+                  </div>
+                </div>
+              )}
             </div>
           )}
 
@@ -120,12 +171,7 @@ export default function Page() {
 
           <div className="rounded-lg border bg-card p-4 text-sm">
             <h3 className="font-semibold mb-2">Layer Legend:</h3>
-            <div className="space-y-2">
-              <div className="flex items-center gap-2">
-                <div className="w-4 h-4 bg-blue-500 rounded"></div>
-                <span className="text-muted-foreground">🟢 Work Areas (User-drawn)</span>
-              </div>
-            </div>
+            <MapLegend />
           </div>
         </div>
       </div>
@@ -134,13 +180,14 @@ export default function Page() {
       <div className="w-2/3 h-full">
         <MapWithDrawing
           mode={mode}
-          polygon={polygon}
-          onPolygonChange={handlePolygonChange}
+          workAreas={workAreas}
+          onWorkAreasChange={handleWorkAreasChange}
           georefMode={georefMode}
           georefColor="#3b82f6"
           onGeorefComplete={handleGeorefComplete}
           bubbles={[]}
           shapes={[]}
+          enableDrop
         />
       </div>
     </div>
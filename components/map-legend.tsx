@@ -0,0 +1,52 @@
+"use client"
+
+import {
+  APWA_STYLE_SHEET,
+  BASE_STYLES,
+  getLegendGroups,
+  getSwatchSVG,
+  getSymbolSVG,
+  type FeatureStyle,
+  type StyleSheet,
+} from "@/utils/styleUtils"
+
+type MapLegendProps = {
+  styleSheet?: StyleSheet
+}
+
+/**
+ * Legend generated from the same style sheet MapWithDrawing uses, so the two never drift apart
+ */
+export function MapLegend({ styleSheet = APWA_STYLE_SHEET }: MapLegendProps) {
+  const groups = getLegendGroups(styleSheet, BASE_STYLES.record)
+
+  // Line/area swatch, plus the point symbol for record styles
+  const entry = (label: string, style: FeatureStyle, showSymbol = true) => (
+    <div key={label} className="flex items-center gap-2">
+      <span className="shrink-0 rounded bg-gray-100 p-0.5" dangerouslySetInnerHTML={{ __html: getSwatchSVG(style) }} />
+      {showSymbol && (
+        <span
+          className="shrink-0 rounded bg-gray-100 p-0.5"
+          dangerouslySetInnerHTML={{ __html: getSymbolSVG(style) }}
+        />
+      )}
+      <span className="text-muted-foreground">{label}</span>
+    </div>
+  )
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        {entry("Work Areas (User-drawn)", BASE_STYLES.workArea, false)}
+        {entry("Records (Unclassified)", BASE_STYLES.record)}
+      </div>
+
+      {groups.map((group) => (
+        <div key={group.title} className="space-y-2">
+          <div className="text-xs font-semibold">{group.title}</div>
+          {group.entries.map((legendEntry) => entry(legendEntry.label, legendEntry.style))}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -1,17 +1,136 @@
 "use client"
 
-import { useEffect, useRef, useState, useCallback } from "react"
+import { useEffect, useRef, useState, useCallback, useMemo } from "react"
 import L from "leaflet"
 import "@geoman-io/leaflet-geoman-free"
+import "leaflet.markercluster"
+import type { Feature, FeatureCollection } from "geojson"
 import {
   sqMetersToHectares,
   areCoordinatesEqual,
+  formatArea,
+  toPolygonParts,
   exportToGeoJSON,
-  downloadGeoJSON,
   getBoundingBox,
+  metersToPixels,
+  findSnapPoint,
   ESRI_BASEMAPS,
+  createBasemapLayer,
+  type BasemapRegistry,
   type BasemapType,
+  type ClusteringOptions,
+  type LatLng,
+  type SnappingOptions,
+  type SnapTarget,
+  type WorkArea,
 } from "@/utils/mapUtils"
+import {
+  explodeMultiGeometries,
+  getSpatialFileFormat,
+  parseSpatialFile,
+  SPATIAL_FILE_ACCEPT,
+} from "@/utils/importUtils"
+import {
+  getAttributeFields,
+  parseAttributeInput,
+  pickSchemaAttributes,
+  UTILITY_RECORD_SCHEMA,
+  WORK_AREA_SCHEMA,
+  type AttributeSchema,
+} from "@/utils/attributeUtils"
+import {
+  downloadBlob,
+  EXPORT_FORMATS,
+  exportFeatures,
+  featuresToGeoJSON,
+  type ExportFormat,
+  type ExportLayer,
+} from "@/utils/exportUtils"
+import {
+  EMPTY_HISTORY,
+  pushHistoryEntry,
+  redoHistory,
+  undoHistory,
+  type HistoryEntry,
+  type HistoryState,
+} from "@/utils/historyUtils"
+import {
+  formatBearing,
+  formatLength,
+  geodesicInverse,
+  geodesicLength,
+  geodesicPolygonArea,
+  geodesicPolygonPerimeter,
+  measurePath,
+} from "@/utils/measurementUtils"
+import { CRS_DEFINITIONS, formatCoordinatePair, getAxisLabels, type CrsCode } from "@/utils/projectionUtils"
+import {
+  APWA_STYLE_SHEET,
+  applyFeatureStyle,
+  BASE_STYLES,
+  createSymbolIcon,
+  resetFeatureStyle,
+  resolveFeatureStyle,
+  toPathOptions,
+  type StyleSheet,
+} from "@/utils/styleUtils"
+import { validateTopology, type TopologyOptions } from "@/utils/topologyUtils"
+import { createSpatialIndex, type SpatialItem } from "@/utils/spatialQueryUtils"
+import { bufferFeature, formatBufferSource, isBufferable, type BufferCap } from "@/utils/bufferUtils"
+import { isOverlayPolygon, overlayPolygons, splitPolygon, type OverlayOperation } from "@/utils/overlayUtils"
+import { isGeometryInvalid, repairGeometry, validateGeometry, type GeometryRepair } from "@/utils/validationUtils"
+import { applyLayerDiff, createKeyedLayerCache, diffKeyedLayers } from "@/utils/layerSyncUtils"
+import { VirtualList } from "@/components/virtual-list"
+import { createRecordLoader, getRecordId, type RecordSource } from "@/utils/recordSourceUtils"
+import {
+  clampZoomRange,
+  deleteRegionTiles,
+  downloadRegionTiles,
+  ESTIMATED_TILE_BYTES,
+  formatBytes,
+  isOfflineCacheSupported,
+  listRegionTiles,
+  loadOfflineRegions,
+  MAX_OFFLINE_TILES,
+  saveOfflineRegions,
+  withOfflineTiles,
+  type OfflineDownloadProgress,
+  type OfflineRegion,
+  type OfflineRegionArea,
+} from "@/utils/offlineTileUtils"
+import { createVectorTileLayer, pickVectorTileFeature, type VectorTileOverlay } from "@/utils/vectorTileUtils"
+import {
+  applyOverlayPanes,
+  bindGroupToPane,
+  BUILT_IN_OVERLAYS,
+  ensureOverlayPane,
+  moveOverlay,
+  normalizeLayerPanel,
+  overlayPaneName,
+  vectorTilePanelId,
+  type LayerPanelOverlay,
+  type LayerPanelState,
+} from "@/utils/layerPanelUtils"
+import {
+  createWarpedImageLayer,
+  fitGeoreference,
+  GEOREF_IMAGE_ACCEPT,
+  georefResiduals,
+  loadGeorefImage,
+  rmsError,
+  toGeorefParameters,
+  toWorldFile,
+  TRANSFORM_TYPES,
+  worldFileExtension,
+  worldFileParameters,
+  type ControlPoint,
+  type GeorefImage,
+  type GeorefTransform,
+  type ImagePoint,
+  type TransformType,
+  type WarpedImageLayer,
+} from "@/utils/georefUtils"
+import { createLocalStorageAdapter, type MapStorageAdapter, type PersistedFeature } from "@/utils/storageUtils"
 
 // Fix Leaflet default marker icons
 delete (L.Icon.Default.prototype as any)._getIconUrl
@@ -21,27 +140,82 @@ L.Icon.Default.mergeOptions({
   shadowUrl: "/leaflet/marker-shadow.png",
 })
 
-type LatLng = { lat: number; lng: number }
+type DrawMode = "workArea" | "record" | "edit" | "measure" | "select" | null
+
+type SelectShape = "lasso" | "box"
+
+type MeasureShape = "line" | "polygon"
+
+const MEASURE_COLOR = "#0891b2"
+
+const HIGHLIGHT_COLOR = "#facc15"
+
+// Vector sets larger than this draw to a canvas instead of one SVG element per feature
+const DEFAULT_CANVAS_THRESHOLD = 1000
+
+const SELECTION_COLOR = "#16a34a"
+
+// Control points waiting for their map position
+const PENDING_POINT_COLOR = "#f97316"
 
-type DrawMode = "workArea" | "record" | "edit" | null
+// Measurements and selection outlines draw above every overlay, below markers
+const TOOLS_PANE = "toolsPane"
 
-type DrawnFeature = {
-  id: string
-  type: "polygon" | "polyline" | "marker" | "rectangle"
-  area?: number
-  coordinates: LatLng[]
+// `coordinates` holds the outer ring of the first part; `parts` holds every polygon part with its holes
+type DrawnFeature = PersistedFeature & {
   layer: L.Layer
-  layerType: "workArea" | "record"
+}
+
+// Geoman flags the layers it adds for its own handles and previews, and the layers a cut is working on
+type GeomanTempLayer = L.Layer & { _pmTempLayer?: boolean }
+
+const isGeomanTempLayer = (layer: unknown): layer is GeomanTempLayer =>
+  layer instanceof L.Layer && (layer as GeomanTempLayer)._pmTempLayer === true
+
+const defaultStorage = createLocalStorageAdapter()
+
+const toPersistedFeature = ({ layer, ...feature }: DrawnFeature): PersistedFeature => feature
+
+// Popup listing a record's properties, shared by `records` and vector tile features
+const formatMetadataPopup = (properties: Record<string, unknown>) => {
+  const propertyEntries = Object.entries(properties)
+
+  let popupContent = "<div style='max-width: 300px;'>"
+  popupContent += "<strong style='font-size: 14px; display: block; margin-bottom: 8px;'>Record Metadata</strong>"
+
+  if (propertyEntries.length === 0) {
+    popupContent += "<em style='color: #666;'>No metadata available</em>"
+  } else {
+    popupContent += "<table style='width: 100%; font-size: 12px;'>"
+    propertyEntries.forEach(([key, value]) => {
+      popupContent += `<tr><td style='padding: 4px 8px 4px 0; font-weight: 600;'>${key}:</td><td style='padding: 4px 0;'>${value}</td></tr>`
+    })
+    popupContent += "</table>"
+  }
+
+  popupContent += "</div>"
+  return popupContent
 }
 
 type MapWithDrawingProps = {
   mode: "draw" | "georef"
-  polygon?: LatLng[]
-  onPolygonChange?: (polygon: LatLng[], areaSqMeters: number | null) => void
-  georefMode: "none" | "point" | "line" | "polygon"
+  workAreas?: WorkArea[]
+  onWorkAreasChange?: (workAreas: WorkArea[], totalAreaSqMeters: number | null) => void
+  onWorkAreaRecordsChange?: (matches: { workAreaId: string; records: SpatialItem[] }[]) => void
+  onSelectionChange?: (featureIds: string[], features: PersistedFeature[]) => void
+  georefMode: "none" | "point" | "line" | "polygon" | "image"
   georefColor?: string
   onGeorefComplete?: (
-    result: { type: "Point"; point: LatLng } | { type: "LineString" | "Polygon"; path: LatLng[] },
+    result:
+      | { type: "Point"; point: LatLng }
+      | { type: "LineString" | "Polygon"; path: LatLng[] }
+      | {
+          type: "Image"
+          image: GeorefImage
+          controlPoints: ControlPoint[]
+          transform: GeorefTransform
+          rmsError: number
+        },
   ) => void
   pickPointActive?: boolean
   pickZoom?: number
@@ -52,6 +226,7 @@ type MapWithDrawingProps = {
     description: string
     recordLabel: string
     size: number
+    properties?: Record<string, any>
   }[]
   shapes?: {
     id: string
@@ -60,31 +235,44 @@ type MapWithDrawingProps = {
     color?: string
     fillColor?: string
     fillOpacity?: number
+    properties?: Record<string, any>
   }[]
-  records?: {
-    type: "FeatureCollection"
-    features: Array<{
-      type: "Feature"
-      geometry: {
-        type: "Polygon" | "LineString" | "Point"
-        coordinates: any
-      }
-      properties: Record<string, any>
-    }>
-  }
+  // Any GeoJSON; features without geometry are skipped
+  records?: FeatureCollection
+  // Records loaded for the visible area as the map moves, merged with `records`
+  recordSource?: RecordSource
+  vectorTiles?: VectorTileOverlay[]
+  // Layer panel state; leave unset to let the panel manage it
+  layerPanel?: LayerPanelState
+  onLayerPanelChange?: (state: LayerPanelState) => void
   enableDrop?: boolean
   onDropFilesAt?: (latlng: LatLng, files: File[]) => void
   focusPoint?: LatLng | null
   focusZoom?: number
   defaultCenter?: LatLng
   defaultZoom?: number
+  basemaps?: BasemapRegistry
   defaultBasemap?: BasemapType
+  defaultCrs?: CrsCode
+  onCrsChange?: (crs: CrsCode) => void
+  attributeSchemas?: Partial<Record<"workArea" | "record", AttributeSchema>>
+  styleSheet?: StyleSheet
+  snapping?: SnappingOptions
+  topology?: TopologyOptions | false
+  clustering?: ClusteringOptions | false
+  canvasThreshold?: number
+  storage?: MapStorageAdapter | null
+  storageKey?: string
+  // Called when saving to `storage` fails, e.g. a REST error or a full localStorage quota
+  onStorageError?: (error: Error) => void
 }
 
 export function MapWithDrawing({
   mode = "draw",
-  polygon,
-  onPolygonChange,
+  workAreas,
+  onWorkAreasChange,
+  onWorkAreaRecordsChange,
+  onSelectionChange,
   georefMode = "none",
   georefColor = "#3b82f6",
   onGeorefComplete,
@@ -92,68 +280,271 @@ export function MapWithDrawing({
   pickZoom = 16,
   bubbles = [],
   shapes = [],
-  records,
+  records: recordsProp,
+  recordSource,
+  vectorTiles = [],
+  layerPanel,
+  onLayerPanelChange,
   enableDrop = false,
   onDropFilesAt,
   focusPoint,
   focusZoom = 16,
   defaultCenter = { lat: 43.7, lng: -79.4 },
   defaultZoom = 12,
+  basemaps = ESRI_BASEMAPS,
   defaultBasemap = "streets",
+  defaultCrs = "EPSG:4326",
+  onCrsChange,
+  attributeSchemas,
+  styleSheet = APWA_STYLE_SHEET,
+  snapping,
+  topology,
+  clustering = {},
+  canvasThreshold = DEFAULT_CANVAS_THRESHOLD,
+  storage = defaultStorage,
+  storageKey = "map-with-drawing",
+  onStorageError,
 }: MapWithDrawingProps) {
   const mapRef = useRef<HTMLDivElement>(null)
   const mapInstanceRef = useRef<L.Map | null>(null)
   const workAreaLayerRef = useRef<L.LayerGroup | null>(null)
   const georefLayerRef = useRef<L.LayerGroup | null>(null)
+  const measureLayerRef = useRef<L.LayerGroup | null>(null)
+  const highlightLayerRef = useRef<L.LayerGroup | null>(null)
+  const selectionLayerRef = useRef<L.LayerGroup | null>(null)
   const bubblesLayerRef = useRef<L.LayerGroup | null>(null)
   const shapesLayerRef = useRef<L.LayerGroup | null>(null)
   const recordLayerRef = useRef<L.LayerGroup | null>(null)
-  const polygonLayerRef = useRef<L.Polygon | null>(null)
+  // Records from the `records` prop: lines and polygons, and (clustered) points
+  const recordShapesLayerRef = useRef<L.FeatureGroup | null>(null)
+  const recordPointsLayerRef = useRef<L.LayerGroup | null>(null)
+  // One canvas renderer per overlay pane, created when a layer first needs it
+  const canvasRenderersRef = useRef<Record<string, L.Canvas>>({})
+  // Layers built for each bubble, shape and record, so prop changes only touch what changed
+  const bubbleLayersRef = useRef(createKeyedLayerCache())
+  const shapeLayersRef = useRef(createKeyedLayerCache())
+  const recordShapeLayersRef = useRef(createKeyedLayerCache())
+  const recordPointLayersRef = useRef(createKeyedLayerCache())
+  const vectorTilesLayerRef = useRef<L.LayerGroup | null>(null)
+  const vectorTileLayersRef = useRef(createKeyedLayerCache())
   const basemapLayersRef = useRef<Record<string, L.TileLayer>>({})
   const currentBasemapRef = useRef<BasemapType>(defaultBasemap)
+  // Mirrors currentBasemapRef so the switcher re-renders
+  const [activeBasemap, setActiveBasemap] = useState<BasemapType>(defaultBasemap)
+  const basemapsRef = useRef(basemaps)
+  basemapsRef.current = basemaps
+  // Basemap layers are only rebuilt when the registry's contents change, not for every new object
+  const basemapsKey = JSON.stringify(basemaps)
+  const basemapsKeyRef = useRef(basemapsKey)
+  const viewRef = useRef<{ center: LatLng; zoom: number } | null>(null)
+  const hydratedMapRef = useRef<L.Map | null>(null)
+  const persistTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const [saveError, setSaveError] = useState<string | null>(null)
+  const onStorageErrorRef = useRef(onStorageError)
+  onStorageErrorRef.current = onStorageError
   const [isInitialized, setIsInitialized] = useState(false)
   const [drawnFeatures, setDrawnFeatures] = useState<DrawnFeature[]>([])
-  const [selectedFeatureId, setSelectedFeatureId] = useState<string | null>(null)
+  const drawnFeaturesRef = useRef<DrawnFeature[]>([])
+  drawnFeaturesRef.current = drawnFeatures
+  const lastWorkAreasRef = useRef<string>("[]")
+  const lastWorkAreaRecordsRef = useRef<string>("[]")
+  const lastSelectionRef = useRef<string>("[]")
+  const [selectShape, setSelectShape] = useState<SelectShape>("lasso")
+  const [bulkAttribute, setBulkAttribute] = useState({ key: "", value: "" })
+  const [bulkError, setBulkError] = useState<string | null>(null)
+  const [selectedFeatureIds, setSelectedFeatureIds] = useState<Set<string>>(() => new Set())
+  // Single-feature tools (attributes, buffers, polygon operations) apply when exactly one feature is selected
+  const selectedFeatureId = selectedFeatureIds.size === 1 ? [...selectedFeatureIds][0] : null
+
+  // Replace the selection, or toggle a feature in and out of it (shift-click)
+  const selectFeature = useCallback((id: string | null, additive = false) => {
+    setSelectedFeatureIds((prev) => {
+      if (id === null) return prev.size === 0 ? prev : new Set()
+      if (!additive) return new Set([id])
+
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }, [])
   const [drawMode, setDrawMode] = useState<DrawMode>(null)
-
-  const calculateArea = (latlngs: L.LatLng[]): number => {
-    if (latlngs.length < 3) return 0
-
-    const EARTH_RADIUS = 6378137 // Earth's radius in meters
-
-    // Convert to radians
-    const toRad = (deg: number) => (deg * Math.PI) / 180
-
-    let area = 0
-    const points = latlngs.map((ll) => ({
-      lat: toRad(ll.lat),
-      lng: toRad(ll.lng),
-    }))
-
-    // Calculate area using spherical excess
-    for (let i = 0; i < points.length; i++) {
-      const p1 = points[i]
-      const p2 = points[(i + 1) % points.length]
-      area += (p2.lng - p1.lng) * (2 + Math.sin(p1.lat) + Math.sin(p2.lat))
+  const [history, setHistory] = useState<HistoryState>(EMPTY_HISTORY)
+  const [isDragOver, setIsDragOver] = useState(false)
+  const [importTarget, setImportTarget] = useState<"workArea" | "record">("workArea")
+  const [importStatus, setImportStatus] = useState<{ type: "success" | "error"; message: string } | null>(null)
+  const importInputRef = useRef<HTMLInputElement>(null)
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("geojson")
+  const [exportLayer, setExportLayer] = useState<ExportLayer>("workArea")
+  const [exportError, setExportError] = useState<string | null>(null)
+  const [dropError, setDropError] = useState<string | null>(null)
+  const [loadedRecords, setLoadedRecords] = useState<Feature[]>([])
+  const [recordsLoading, setRecordsLoading] = useState(false)
+  const [recordsError, setRecordsError] = useState<string | null>(null)
+  const reloadRecordsRef = useRef<(() => void) | null>(null)
+  // Panel state when the host doesn't control it through `layerPanel`
+  const [layerPanelInternal, setLayerPanelInternal] = useState<LayerPanelState | null>(null)
+  const [isLayerPanelOpen, setIsLayerPanelOpen] = useState(true)
+  const [draggedOverlay, setDraggedOverlay] = useState<number | null>(null)
+  // Everything below works on `records` and the records loaded from `recordSource` together
+  const records = useMemo(
+    () =>
+      loadedRecords.length === 0
+        ? recordsProp
+        : ({
+            type: "FeatureCollection",
+            features: [...(recordsProp?.features ?? []), ...loadedRecords],
+          } satisfies FeatureCollection),
+    [recordsProp, loadedRecords],
+  )
+  // Every overlay the layer panel lists: the built-in groups and one entry per vector tile overlay
+  const overlayDefinitions = useMemo(
+    () => [
+      ...BUILT_IN_OVERLAYS,
+      ...vectorTiles.map((overlay) => ({
+        id: vectorTilePanelId(overlay.id),
+        name: overlay.name,
+        visible: overlay.visible,
+      })),
+    ],
+    [vectorTiles],
+  )
+  const layerPanelState = useMemo(
+    () =>
+      normalizeLayerPanel(
+        // Left to the panel, the state follows whichever basemap is active
+        layerPanel ?? (layerPanelInternal && { ...layerPanelInternal, basemap: activeBasemap }),
+        overlayDefinitions,
+        activeBasemap,
+      ),
+    [layerPanel, layerPanelInternal, overlayDefinitions, activeBasemap],
+  )
+  const layerPanelRef = useRef(layerPanelState)
+  layerPanelRef.current = layerPanelState
+  const dragDepthRef = useRef(0)
+  // Measurements are temporary: they live outside drawnFeatures and are dropped when leaving measure mode
+  const [measureShape, setMeasureShape] = useState<MeasureShape>("line")
+  const [measurement, setMeasurement] = useState<{ points: LatLng[]; complete: boolean }>({
+    points: [],
+    complete: false,
+  })
+  const measurementRef = useRef(measurement)
+  measurementRef.current = measurement
+  const [attributeDraft, setAttributeDraft] = useState<{
+    featureId: string
+    values: Record<string, string>
+    errors: Record<string, string>
+  } | null>(null)
+  const attributeSchemasRef = useRef(attributeSchemas)
+  attributeSchemasRef.current = attributeSchemas
+
+  const getAttributeSchema = useCallback((layerType: "workArea" | "record"): AttributeSchema => {
+    return (
+      attributeSchemasRef.current?.[layerType] ?? (layerType === "record" ? UTILITY_RECORD_SCHEMA : WORK_AREA_SCHEMA)
+    )
+  }, [])
+  const [crs, setCrs] = useState<CrsCode>(defaultCrs)
+  const crsRef = useRef<CrsCode>(defaultCrs)
+  crsRef.current = crs
+  const cursorReadoutRef = useRef<HTMLDivElement>(null)
+  const [bufferDistance, setBufferDistance] = useState("3")
+  // Offline basemap areas: "view" or the id of a work area, and the zoom range to store
+  const [offlineRegions, setOfflineRegions] = useState<OfflineRegion[]>([])
+  const [offlineSource, setOfflineSource] = useState<string>("view")
+  const [offlineZoom, setOfflineZoom] = useState<[number, number]>([13, 18])
+  const [offlineViewBBox, setOfflineViewBBox] = useState<OfflineRegionArea["bbox"] | null>(null)
+  const [offlineProgress, setOfflineProgress] = useState<OfflineDownloadProgress | null>(null)
+  const [offlineStatus, setOfflineStatus] = useState<{ type: "success" | "error"; message: string } | null>(null)
+  const [storageUsage, setStorageUsage] = useState<{ usage: number; quota: number } | null>(null)
+  const offlineControllerRef = useRef<AbortController | null>(null)
+  // Latest callback, so a host re-rendering with a new function doesn't restart a georef in progress
+  const onGeorefCompleteRef = useRef(onGeorefComplete)
+  onGeorefCompleteRef.current = onGeorefComplete
+  // Image georeferencing: a scanned drawing, its control points, and the image point waiting for its map position
+  const [georefImage, setGeorefImage] = useState<(GeorefImage & { pageCount?: number }) | null>(null)
+  const georefFileRef = useRef<File | null>(null)
+  const georefImageInputRef = useRef<HTMLInputElement>(null)
+  const [controlPoints, setControlPoints] = useState<ControlPoint[]>([])
+  const [pendingImagePoint, setPendingImagePoint] = useState<ImagePoint | null>(null)
+  const [transformType, setTransformType] = useState<TransformType>("affine")
+  const [georefOpacity, setGeorefOpacity] = useState(0.6)
+  const [georefImageZoom, setGeorefImageZoom] = useState(1)
+  const [georefStatus, setGeorefStatus] = useState<{ type: "success" | "error"; message: string } | null>(null)
+  // What the georef overlay shows, for its count: the finished point, line or polygon and the warped drawing
+  const [hasGeorefGeometry, setHasGeorefGeometry] = useState(false)
+  const [hasWarpedImage, setHasWarpedImage] = useState(false)
+  const georefTransform = useMemo(() => fitGeoreference(transformType, controlPoints), [transformType, controlPoints])
+  const georefTransformRef = useRef(georefTransform)
+  georefTransformRef.current = georefTransform
+  const georefOpacityRef = useRef(georefOpacity)
+  georefOpacityRef.current = georefOpacity
+  const warpedImageRef = useRef<WarpedImageLayer | null>(null)
+  const controlPointResiduals = useMemo(
+    () => (georefTransform ? georefResiduals(georefTransform, controlPoints) : []),
+    [georefTransform, controlPoints],
+  )
+  const [bufferCap, setBufferCap] = useState<BufferCap>("flat")
+  // Source geometry each buffer was last generated from, so buffers are only rebuilt when their source moves
+  const bufferSourceKeysRef = useRef<Map<string, string>>(new Map())
+  const [overlayOperandId, setOverlayOperandId] = useState("")
+  const [operationError, setOperationError] = useState<{ featureId: string; message: string } | null>(null)
+  // Polygon waiting for a split line; the next line drawn cuts it instead of becoming a feature
+  const [splitTargetId, setSplitTargetId] = useState<string | null>(null)
+  const splitTargetRef = useRef<string | null>(null)
+  splitTargetRef.current = splitTargetId
+
+  const getPolygonGeometry = (layer: L.Polygon) => {
+    const parts = toPolygonParts(layer.getLatLngs())
+    return {
+      area: geodesicPolygonArea(parts),
+      perimeter: geodesicPolygonPerimeter(parts),
+      coordinates: parts[0]?.[0] ?? [],
+      parts,
     }
+  }
 
-    area = Math.abs((area * EARTH_RADIUS * EARTH_RADIUS) / 2)
-    return area
+  const getPolylineGeometry = (layer: L.Polyline) => {
+    const coordinates = (layer.getLatLngs() as L.LatLng[]).map((ll) => ({ lat: ll.lat, lng: ll.lng }))
+    return { length: geodesicLength(coordinates), coordinates }
   }
 
   const isDuplicateFeature = useCallback((newCoordinates: LatLng[], existingFeatures: DrawnFeature[]): boolean => {
     return existingFeatures.some((feature) => areCoordinatesEqual(feature.coordinates, newCoordinates))
   }, [])
 
+  const recordHistory = useCallback((entry: HistoryEntry) => {
+    setHistory((prev) => pushHistoryEntry(prev, entry))
+  }, [])
+
+  const removeFeatureLayers = useCallback((features: DrawnFeature[]) => {
+    features.forEach((feature) => {
+      const group = feature.layerType === "record" ? recordLayerRef.current : workAreaLayerRef.current
+      group?.removeLayer(feature.layer)
+    })
+  }, [])
+
+  // Move a feature's layer into the layer group of another layer type
+  const moveFeatureLayer = useCallback((feature: DrawnFeature, layerType: "workArea" | "record") => {
+    if (feature.layerType === layerType) return
+
+    const from = feature.layerType === "record" ? recordLayerRef.current : workAreaLayerRef.current
+    const to = layerType === "record" ? recordLayerRef.current : workAreaLayerRef.current
+    from?.removeLayer(feature.layer)
+    to?.addLayer(feature.layer)
+  }, [])
+
   const clearAllDrawnFeatures = useCallback(() => {
-    const workAreaLayer = workAreaLayerRef.current
-    if (!workAreaLayer) return
+    const cleared = drawnFeaturesRef.current
+    if (cleared.length === 0) return
 
-    workAreaLayer.clearLayers()
+    removeFeatureLayers(cleared)
     setDrawnFeatures([])
-    setSelectedFeatureId(null)
-    onPolygonChange?.([], null)
-  }, [onPolygonChange])
+    selectFeature(null)
+    recordHistory({ type: "clear", before: cleared.map(toPersistedFeature), after: [] })
+  }, [removeFeatureLayers, recordHistory, selectFeature])
 
   const recenterMap = useCallback(() => {
     const map = mapInstanceRef.current
@@ -162,23 +553,113 @@ export function MapWithDrawing({
     map.setView([defaultCenter.lat, defaultCenter.lng], defaultZoom)
   }, [defaultCenter, defaultZoom])
 
-  const switchBasemap = useCallback((basemapType: BasemapType) => {
-    const map = mapInstanceRef.current
-    if (!map) return
+  const persistState = useCallback(() => {
+    if (!storage || !hydratedMapRef.current) return
 
-    // Remove current basemap
-    const currentBasemap = basemapLayersRef.current[currentBasemapRef.current]
-    if (currentBasemap) {
-      map.removeLayer(currentBasemap)
+    if (persistTimeoutRef.current) {
+      clearTimeout(persistTimeoutRef.current)
     }
 
-    // Add new basemap
-    const newBasemap = basemapLayersRef.current[basemapType]
-    if (newBasemap) {
-      newBasemap.addTo(map)
-      currentBasemapRef.current = basemapType
-    }
-  }, [])
+    persistTimeoutRef.current = setTimeout(() => {
+      const map = mapInstanceRef.current
+      if (!map) return
+
+      const center = map.getCenter()
+      storage
+        .save(storageKey, {
+          version: 1,
+          features: drawnFeaturesRef.current.map(toPersistedFeature),
+          basemap: currentBasemapRef.current,
+          view: { center: { lat: center.lat, lng: center.lng }, zoom: map.getZoom() },
+        })
+        .then(() => setSaveError(null))
+        .catch((error) => {
+          const failure = error instanceof Error ? error : new Error(String(error))
+          setSaveError(`Changes could not be saved: ${failure.message}`)
+          onStorageErrorRef.current?.(failure)
+        })
+    }, 500)
+  }, [storage, storageKey])
+
+  // Basemap tiles come from the offline cache when an area was downloaded, otherwise from the network
+  const buildBasemapLayers = (registry: BasemapRegistry) =>
+    Object.fromEntries(
+      Object.entries(registry).map(([key, source]) => [key, withOfflineTiles(createBasemapLayer(source), key)]),
+    )
+
+  const resolveBasemap = (key: BasemapType) =>
+    key in basemapLayersRef.current ? key : (Object.keys(basemapLayersRef.current)[0] ?? key)
+
+  // Rebuild the basemap layers when the registry changes, keeping the active basemap if it is still registered
+  useEffect(() => {
+    const map = mapInstanceRef.current
+    if (!map || !isInitialized || basemapsKeyRef.current === basemapsKey) return
+    basemapsKeyRef.current = basemapsKey
+
+    Object.values(basemapLayersRef.current).forEach((layer) => map.removeLayer(layer))
+    basemapLayersRef.current = buildBasemapLayers(basemapsRef.current)
+
+    const basemap = resolveBasemap(currentBasemapRef.current)
+    basemapLayersRef.current[basemap]?.addTo(map)
+    currentBasemapRef.current = basemap
+    setActiveBasemap(basemap)
+  }, [basemapsKey, isInitialized])
+
+  const switchBasemap = useCallback(
+    (basemapType: BasemapType) => {
+      const map = mapInstanceRef.current
+      if (!map) return
+
+      // Remove current basemap
+      const currentBasemap = basemapLayersRef.current[currentBasemapRef.current]
+      if (currentBasemap) {
+        map.removeLayer(currentBasemap)
+      }
+
+      // Add new basemap
+      const newBasemap = basemapLayersRef.current[basemapType]
+      if (newBasemap) {
+        newBasemap.addTo(map)
+        currentBasemapRef.current = basemapType
+        setActiveBasemap(basemapType)
+        persistState()
+      }
+    },
+    [persistState],
+  )
+
+  // Without `layerPanel` changes apply straight away; with it they wait for the host to pass the new state back
+  const updateLayerPanel = useCallback(
+    (next: LayerPanelState) => {
+      if (!layerPanel) {
+        setLayerPanelInternal(next)
+        if (next.basemap !== currentBasemapRef.current) switchBasemap(next.basemap)
+      }
+      onLayerPanelChange?.(next)
+    },
+    [layerPanel, onLayerPanelChange, switchBasemap],
+  )
+
+  const updateOverlay = (id: string, change: Partial<LayerPanelOverlay>) =>
+    updateLayerPanel({
+      ...layerPanelState,
+      overlays: layerPanelState.overlays.map((overlay) => (overlay.id === id ? { ...overlay, ...change } : overlay)),
+    })
+
+  // A basemap chosen by the host
+  const controlledBasemap = layerPanel?.basemap
+  useEffect(() => {
+    if (!isInitialized || !controlledBasemap || controlledBasemap === currentBasemapRef.current) return
+    if (controlledBasemap in basemapLayersRef.current) switchBasemap(controlledBasemap)
+  }, [controlledBasemap, isInitialized, switchBasemap])
+
+  useEffect(() => {
+    const map = mapInstanceRef.current
+    if (!map || !isInitialized) return
+
+    applyOverlayPanes(map, layerPanelState.overlays)
+    basemapLayersRef.current[activeBasemap]?.setOpacity(layerPanelState.basemapOpacity)
+  }, [layerPanelState, activeBasemap, basemapsKey, isInitialized])
 
   const activateDrawMode = useCallback((mode: DrawMode) => {
     const map = mapInstanceRef.current
@@ -187,6 +668,10 @@ export function MapWithDrawing({
     if (mode === "edit") {
       map.pm.enableGlobalEditMode()
       setDrawMode(mode)
+    } else if (mode === "measure" || mode === "select") {
+      map.pm.disableDraw()
+      map.pm.disableGlobalEditMode()
+      setDrawMode(mode)
     } else if (mode === "workArea" || mode === "record") {
       // Disable edit mode if it was active
       map.pm.disableGlobalEditMode()
@@ -201,65 +686,226 @@ export function MapWithDrawing({
 
   const clearLayerFeatures = useCallback(
     (layerType: "workArea" | "record") => {
-      const layer = layerType === "workArea" ? workAreaLayerRef.current : recordLayerRef.current
-      if (!layer) return
+      // Remove feature layers only; the records GeoJSON shares the record layer
+      const cleared = drawnFeatures.filter((f) => f.layerType === layerType)
+      if (cleared.length === 0) return
 
-      layer.clearLayers()
+      removeFeatureLayers(cleared)
       setDrawnFeatures((prev) => prev.filter((f) => f.layerType !== layerType))
-      setSelectedFeatureId(null)
+      selectFeature(null)
+      recordHistory({ type: "clear", before: cleared.map(toPersistedFeature), after: [] })
+    },
+    [drawnFeatures, removeFeatureLayers, recordHistory, selectFeature],
+  )
+
+  // Add parsed GeoJSON features as drawn features, skipping duplicates, and zoom to what was added
+  const loadFeaturesIntoLayer = useCallback(
+    (features: Feature[], layerType: "workArea" | "record") => {
+      const map = mapInstanceRef.current
+      const targetLayer = layerType === "workArea" ? workAreaLayerRef.current : recordLayerRef.current
+      if (!map || !targetLayer) return { loaded: 0, duplicates: 0 }
+
+      const loaded: DrawnFeature[] = []
+      const existing = [...drawnFeaturesRef.current]
+      let workAreaCount = existing.filter((f) => f.layerType === "workArea").length
+      let duplicates = 0
+
+      const collection: FeatureCollection = { type: "FeatureCollection", features: explodeMultiGeometries(features) }
+      L.geoJSON(collection).eachLayer((layer) => {
+        const id = `feature-${Date.now()}-${Math.random()}`
+        const properties = (layer as L.Layer & { feature?: Feature }).feature?.properties ?? {}
+        let featureData: DrawnFeature | null = null
+
+        if (layer instanceof L.Polygon) {
+          featureData = { id, type: "polygon", ...getPolygonGeometry(layer), layer, layerType }
+        } else if (layer instanceof L.Polyline) {
+          featureData = { id, type: "polyline", ...getPolylineGeometry(layer), layer, layerType }
+        } else if (layer instanceof L.Marker) {
+          const latlng = layer.getLatLng()
+          featureData = { id, type: "marker", coordinates: [{ lat: latlng.lat, lng: latlng.lng }], layer, layerType }
+        }
+
+        if (!featureData) return
+        if (isDuplicateFeature(featureData.coordinates, existing)) {
+          duplicates += 1
+          return
+        }
+
+        if (typeof properties.name === "string" && properties.name) {
+          featureData.name = properties.name
+        } else if (layerType === "workArea" && featureData.type === "polygon") {
+          workAreaCount += 1
+          featureData.name = `Work Area ${workAreaCount}`
+        }
+
+        const attributes = pickSchemaAttributes(getAttributeSchema(layerType), properties)
+        if (Object.keys(attributes).length > 0) {
+          featureData.attributes = attributes
+        }
 
-      if (layerType === "workArea") {
-        onPolygonChange?.([], null)
+        layer.on("click", (e: L.LeafletMouseEvent) => {
+          selectFeature(id, e.originalEvent.shiftKey)
+        })
+        targetLayer.addLayer(layer)
+        existing.push(featureData)
+        loaded.push(featureData)
+      })
+
+      if (loaded.length > 0) {
+        setDrawnFeatures((prev) => [...prev, ...loaded])
+        recordHistory({ type: "create", before: [], after: loaded.map(toPersistedFeature) })
+
+        const bounds = L.latLngBounds([])
+        loaded.forEach(({ layer }) => {
+          if (layer instanceof L.Marker) {
+            bounds.extend(layer.getLatLng())
+          } else if (layer instanceof L.Polyline) {
+            bounds.extend(layer.getBounds())
+          }
+        })
+        if (bounds.isValid()) {
+          map.fitBounds(bounds, { padding: [50, 50], maxZoom: 18 })
+        }
       }
+
+      return { loaded: loaded.length, duplicates }
     },
-    [onPolygonChange],
+    [isDuplicateFeature, recordHistory, getAttributeSchema, selectFeature],
   )
 
-  useEffect(() => {
-    if (!mapRef.current || mapInstanceRef.current) return
+  const importFiles = async (files: File[]) => {
+    let loaded = 0
+    let duplicates = 0
+    const failedFiles: string[] = []
+
+    for (const file of files) {
+      try {
+        const result = loadFeaturesIntoLayer(await parseSpatialFile(file), importTarget)
+        loaded += result.loaded
+        duplicates += result.duplicates
+      } catch {
+        failedFiles.push(file.name)
+      }
+    }
 
-    const map = L.map(mapRef.current, {
-      center: [defaultCenter.lat, defaultCenter.lng],
-      zoom: defaultZoom,
-      zoomControl: true,
+    setImportStatus({
+      type: failedFiles.length > 0 ? "error" : "success",
+      message: [
+        `Imported ${loaded} ${loaded === 1 ? "feature" : "features"}`,
+        duplicates > 0 && `${duplicates} duplicate${duplicates === 1 ? "" : "s"} skipped`,
+        failedFiles.length > 0 && `could not read ${failedFiles.join(", ")}`,
+      ]
+        .filter(Boolean)
+        .join("; "),
     })
-    mapInstanceRef.current = map
+  }
 
-    const streetsLayer = L.tileLayer(ESRI_BASEMAPS.streets.url, {
-      attribution: ESRI_BASEMAPS.streets.attribution,
-      maxZoom: ESRI_BASEMAPS.streets.maxZoom,
-    })
+  const hasDraggedFiles = (e: React.DragEvent<HTMLDivElement>) => Array.from(e.dataTransfer.types).includes("Files")
 
-    const lightGrayLayer = L.tileLayer(ESRI_BASEMAPS.lightGray.url, {
-      attribution: ESRI_BASEMAPS.lightGray.attribution,
-      maxZoom: ESRI_BASEMAPS.lightGray.maxZoom,
-    })
+  const handleDragEnter = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!enableDrop || !hasDraggedFiles(e)) return
+    e.preventDefault()
+    dragDepthRef.current += 1
+    setIsDragOver(true)
+    setDropError(null)
+  }
 
-    const darkGrayLayer = L.tileLayer(ESRI_BASEMAPS.darkGray.url, {
-      attribution: ESRI_BASEMAPS.darkGray.attribution,
-      maxZoom: ESRI_BASEMAPS.darkGray.maxZoom,
-    })
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!enableDrop || !hasDraggedFiles(e)) return
+    e.preventDefault()
+    e.dataTransfer.dropEffect = "copy"
+  }
 
-    const imageryLayer = L.tileLayer(ESRI_BASEMAPS.imagery.url, {
-      attribution: ESRI_BASEMAPS.imagery.attribution,
-      maxZoom: ESRI_BASEMAPS.imagery.maxZoom,
-    })
+  const handleDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!enableDrop || !hasDraggedFiles(e)) return
+    dragDepthRef.current = Math.max(0, dragDepthRef.current - 1)
+    if (dragDepthRef.current === 0) {
+      setIsDragOver(false)
+    }
+  }
+
+  const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+    if (!enableDrop) return
+    e.preventDefault()
+    dragDepthRef.current = 0
+    setIsDragOver(false)
+
+    const map = mapInstanceRef.current
+    const files = Array.from(e.dataTransfer.files)
+    if (!map || files.length === 0) return
+
+    // Convert the drop point from screen to map coordinates
+    const latlng = map.mouseEventToLatLng(e.nativeEvent)
+    onDropFilesAt?.({ lat: latlng.lat, lng: latlng.lng }, files)
+
+    const failedFiles: string[] = []
+    for (const file of files.filter((f) => getSpatialFileFormat(f.name))) {
+      try {
+        loadFeaturesIntoLayer(await parseSpatialFile(file), "record")
+      } catch {
+        failedFiles.push(file.name)
+      }
+    }
 
-    basemapLayersRef.current = {
-      streets: streetsLayer,
-      lightGray: lightGrayLayer,
-      darkGray: darkGrayLayer,
-      imagery: imageryLayer,
+    if (failedFiles.length > 0) {
+      setDropError(`Could not read ${failedFiles.join(", ")}`)
     }
+  }
+
+  useEffect(() => {
+    if (!mapRef.current || mapInstanceRef.current) return
 
-    // Add default basemap
-    basemapLayersRef.current[defaultBasemap].addTo(map)
+    // Keep the current view when the map is re-created
+    const initialView = viewRef.current ?? { center: defaultCenter, zoom: defaultZoom }
+    const map = L.map(mapRef.current, {
+      center: [initialView.center.lat, initialView.center.lng],
+      zoom: initialView.zoom,
+      zoomControl: true,
+    })
+    mapInstanceRef.current = map
 
-    workAreaLayerRef.current = L.layerGroup().addTo(map)
-    georefLayerRef.current = L.layerGroup().addTo(map)
-    bubblesLayerRef.current = L.layerGroup().addTo(map)
+    basemapLayersRef.current = buildBasemapLayers(basemapsRef.current)
+    basemapsKeyRef.current = JSON.stringify(basemapsRef.current)
+
+    // Add default basemap, or the active one if the map is being re-created; fall back to the first registered
+    const initialBasemap = resolveBasemap(hydratedMapRef.current ? currentBasemapRef.current : defaultBasemap)
+    basemapLayersRef.current[initialBasemap]?.addTo(map)
+    currentBasemapRef.current = initialBasemap
+    setActiveBasemap(initialBasemap)
+
+    // Each overlay draws into its own pane, stacked and faded from the layer panel
+    BUILT_IN_OVERLAYS.forEach(({ id }) => ensureOverlayPane(map, id))
+    map.createPane(TOOLS_PANE).style.zIndex = "550"
+    vectorTilesLayerRef.current = L.layerGroup().addTo(map)
+    vectorTileLayersRef.current = createKeyedLayerCache()
+
+    // Feature groups so layer-level Geoman events (pm:edit) propagate to the group
+    workAreaLayerRef.current = bindGroupToPane(L.featureGroup(), overlayPaneName("workArea")).addTo(map)
+    georefLayerRef.current = bindGroupToPane(L.layerGroup(), overlayPaneName("georef")).addTo(map)
+    measureLayerRef.current = L.layerGroup().addTo(map)
+    // In the overlay pane, below every overlay, so highlights read as a halo around matching records
+    highlightLayerRef.current = L.layerGroup().addTo(map)
+    const createPointLayer = (id: string) =>
+      clustering === false
+        ? L.layerGroup()
+        : L.markerClusterGroup({
+            chunkedLoading: true,
+            maxClusterRadius: 60,
+            ...clustering,
+            clusterPane: overlayPaneName(id),
+          })
+    canvasRenderersRef.current = {}
+    bubblesLayerRef.current = createPointLayer("bubbles").addTo(map)
     shapesLayerRef.current = L.layerGroup().addTo(map)
-    recordLayerRef.current = L.layerGroup().addTo(map)
+    // Drawn and imported records join this group; records from props set their pane when built
+    recordLayerRef.current = bindGroupToPane(L.featureGroup(), overlayPaneName("records")).addTo(map)
+    recordShapesLayerRef.current = L.featureGroup().addTo(recordLayerRef.current)
+    recordPointsLayerRef.current = createPointLayer("records").addTo(recordLayerRef.current)
+    bubbleLayersRef.current = createKeyedLayerCache()
+    shapeLayersRef.current = createKeyedLayerCache()
+    recordShapeLayersRef.current = createKeyedLayerCache()
+    recordPointLayersRef.current = createKeyedLayerCache()
+    selectionLayerRef.current = L.layerGroup().addTo(map)
 
     map.pm.addControls({
       position: "topleft",
@@ -271,20 +917,252 @@ export function MapWithDrawing({
       drawRectangle: true,
       editMode: true,
       dragMode: false,
-      cutPolygon: false,
+      cutPolygon: true,
       removalMode: true,
     })
 
-    setTimeout(() => {
+    map.on("moveend", () => {
+      const center = map.getCenter()
+      viewRef.current = { center: { lat: center.lat, lng: center.lng }, zoom: map.getZoom() }
+    })
+
+    // Cursor readout is written straight to the DOM so mouse movement doesn't re-render the component
+    map.on("mousemove", (e: L.LeafletMouseEvent) => {
+      if (!cursorReadoutRef.current) return
+      const [labelA, labelB] = getAxisLabels(crsRef.current, true)
+      const [a, b] = formatCoordinatePair(e.latlng, crsRef.current)
+      cursorReadoutRef.current.textContent = `${labelA}: ${a}  ${labelB}: ${b}`
+    })
+    map.on("mouseout", () => {
+      if (cursorReadoutRef.current) cursorReadoutRef.current.textContent = "—"
+    })
+
+    const initTimeout = setTimeout(() => {
       map.invalidateSize()
       setIsInitialized(true)
     }, 100)
 
     return () => {
+      clearTimeout(initTimeout)
       map.remove()
       mapInstanceRef.current = null
+      setIsInitialized(false)
+    }
+  }, [defaultCenter, defaultZoom, defaultBasemap, mode])
+
+  const restoreFeatures = useCallback(
+    (features: PersistedFeature[]): DrawnFeature[] => {
+      const workAreaLayer = workAreaLayerRef.current
+      const recordLayer = recordLayerRef.current
+      if (!workAreaLayer || !recordLayer) return []
+
+      return features.map((feature) => {
+        const layer =
+          feature.type === "marker"
+            ? L.marker(feature.coordinates[0])
+            : feature.type === "polyline"
+              ? L.polyline(feature.coordinates)
+              : L.polygon(feature.parts ?? [feature.coordinates])
+
+        layer.on("click", (e: L.LeafletMouseEvent) => {
+          selectFeature(feature.id, e.originalEvent.shiftKey)
+        })
+        ;(feature.layerType === "record" ? recordLayer : workAreaLayer).addLayer(layer)
+
+        return { ...feature, layer }
+      })
+    },
+    [selectFeature],
+  )
+
+  // Move a feature's layer back to a recorded geometry
+  const setLayerGeometry = (layer: L.Layer, feature: PersistedFeature) => {
+    const pm = (layer as any).pm
+    const wasEditing = pm?.enabled?.()
+    if (wasEditing) pm.disable()
+
+    if (layer instanceof L.Marker) {
+      layer.setLatLng(feature.coordinates[0])
+    } else if (layer instanceof L.Polygon) {
+      layer.setLatLngs(feature.parts ?? [feature.coordinates])
+    } else if (layer instanceof L.Polyline) {
+      layer.setLatLngs(feature.coordinates)
+    }
+
+    if (wasEditing) pm.enable()
+  }
+
+  // Replace the `from` features with the `to` features on the map and in state
+  const applyHistoryChange = useCallback(
+    (from: PersistedFeature[], to: PersistedFeature[]) => {
+      const current = drawnFeaturesRef.current
+      const toIds = new Set(to.map((f) => f.id))
+      const removed = current.filter((f) => !toIds.has(f.id) && from.some((r) => r.id === f.id))
+      const removedIds = new Set(removed.map((f) => f.id))
+      removeFeatureLayers(removed)
+
+      const updated = new Map<string, DrawnFeature>()
+      const created: PersistedFeature[] = []
+      to.forEach((feature) => {
+        const existing = current.find((f) => f.id === feature.id)
+        if (existing) {
+          setLayerGeometry(existing.layer, feature)
+          moveFeatureLayer(existing, feature.layerType)
+          updated.set(feature.id, { ...feature, layer: existing.layer })
+        } else {
+          created.push(feature)
+        }
+      })
+
+      const restored = restoreFeatures(created)
+      setDrawnFeatures((prev) => [
+        ...prev.filter((f) => !removedIds.has(f.id)).map((f) => updated.get(f.id) ?? f),
+        ...restored,
+      ])
+      selectFeature(null)
+    },
+    [removeFeatureLayers, moveFeatureLayer, restoreFeatures, selectFeature],
+  )
+
+  const undo = useCallback(() => {
+    const result = undoHistory(history)
+    if (!result) return
+
+    applyHistoryChange(result.entry.after, result.entry.before)
+    setHistory(result.history)
+  }, [history, applyHistoryChange])
+
+  const redo = useCallback(() => {
+    const result = redoHistory(history)
+    if (!result) return
+
+    applyHistoryChange(result.entry.before, result.entry.after)
+    setHistory(result.history)
+  }, [history, applyHistoryChange])
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== "z") return
+
+      const target = e.target as HTMLElement | null
+      if (target?.closest("input, textarea, select, [contenteditable='true']")) return
+
+      e.preventDefault()
+      if (e.shiftKey) {
+        redo()
+      } else {
+        undo()
+      }
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown)
+    }
+  }, [undo, redo])
+
+  // Restore persisted features, basemap and view, or rebuild layers when the map is re-created
+  useEffect(() => {
+    const map = mapInstanceRef.current
+    if (!map || !isInitialized || hydratedMapRef.current === map) return
+
+    if (hydratedMapRef.current) {
+      hydratedMapRef.current = map
+      setDrawnFeatures(restoreFeatures(drawnFeaturesRef.current.map(toPersistedFeature)))
+      return
+    }
+
+    let cancelled = false
+
+    const hydrate = async () => {
+      try {
+        const state = storage ? await storage.load(storageKey) : null
+        if (cancelled || !state) return
+
+        map.setView([state.view.center.lat, state.view.center.lng], state.view.zoom)
+        if (state.basemap in basemapLayersRef.current) {
+          switchBasemap(state.basemap as BasemapType)
+        }
+
+        const existingIds = new Set(drawnFeaturesRef.current.map((f) => f.id))
+        const restored = restoreFeatures(state.features.filter((f) => !existingIds.has(f.id)))
+        setDrawnFeatures((prev) => [...prev, ...restored])
+      } catch {
+        // Start empty if storage is unavailable
+      } finally {
+        if (!cancelled) {
+          hydratedMapRef.current = map
+        }
+      }
+    }
+
+    hydrate()
+
+    return () => {
+      cancelled = true
+    }
+  }, [isInitialized, storage, storageKey, restoreFeatures, switchBasemap])
+
+  useEffect(() => {
+    persistState()
+  }, [drawnFeatures, persistState])
+
+  useEffect(() => {
+    const map = mapInstanceRef.current
+    if (!map || !isInitialized) return
+
+    map.on("moveend", persistState)
+
+    return () => {
+      map.off("moveend", persistState)
+    }
+  }, [isInitialized, persistState])
+
+  // Load records for the visible area once the map settles; a new move cancels requests still in flight
+  useEffect(() => {
+    const map = mapInstanceRef.current
+    if (!map || !isInitialized || !recordSource) return
+
+    const loader = createRecordLoader(recordSource)
+    // A superseded load settles as soon as it's cancelled; only the latest one clears the loading state
+    let latestLoad = 0
+
+    const load = (delay = 0) => {
+      const bounds = map.getBounds()
+      const id = ++latestLoad
+      setRecordsLoading(true)
+      setRecordsError(null)
+      loader
+        .load(
+          [bounds.getWest(), bounds.getSouth(), bounds.getEast(), bounds.getNorth()],
+          map.getZoom(),
+          () => setLoadedRecords(loader.features()),
+          delay,
+        )
+        .catch((error) => {
+          if (id === latestLoad) setRecordsError(error instanceof Error ? error.message : "Failed to load records")
+        })
+        .finally(() => {
+          if (id === latestLoad) setRecordsLoading(false)
+        })
     }
-  }, [defaultCenter, defaultZoom, defaultBasemap, mode, enableDrop, onDropFilesAt])
+    const scheduleLoad = () => load(300)
+
+    reloadRecordsRef.current = load
+    load()
+    map.on("moveend", scheduleLoad)
+
+    return () => {
+      map.off("moveend", scheduleLoad)
+      loader.cancel()
+      reloadRecordsRef.current = null
+      setLoadedRecords([])
+      setRecordsLoading(false)
+      setRecordsError(null)
+    }
+  }, [isInitialized, recordSource])
 
   useEffect(() => {
     const map = mapInstanceRef.current
@@ -300,19 +1178,27 @@ export function MapWithDrawing({
       const layer = e.layer
       const id = `feature-${Date.now()}-${Math.random()}`
 
+      if (splitTargetRef.current) {
+        const target = drawnFeatures.find((f) => f.id === splitTargetRef.current)
+        map.removeLayer(layer)
+        setSplitTargetId(null)
+        if (target && layer instanceof L.Polyline && !(layer instanceof L.Polygon)) {
+          splitFeature(target, getPolylineGeometry(layer).coordinates)
+        }
+        return
+      }
+
       const targetLayerType = drawMode === "record" ? "record" : "workArea"
       const targetLayer = targetLayerType === "record" ? recordLayer : workAreaLayer
 
       let featureData: DrawnFeature | null = null
 
-      layer.on("click", () => {
-        setSelectedFeatureId(id)
+      layer.on("click", (e: L.LeafletMouseEvent) => {
+        selectFeature(id, e.originalEvent.shiftKey)
       })
 
       if (layer instanceof L.Polygon) {
-        const latlngs = layer.getLatLngs()[0] as L.LatLng[]
-        const area = calculateArea(latlngs)
-        const coordinates = latlngs.map((ll) => ({ lat: ll.lat, lng: ll.lng }))
+        const { area, perimeter, coordinates, parts } = getPolygonGeometry(layer)
 
         if (isDuplicateFeature(coordinates, drawnFeatures)) {
           map.removeLayer(layer)
@@ -322,20 +1208,21 @@ export function MapWithDrawing({
         featureData = {
           id,
           type: "polygon",
+          name:
+            targetLayerType === "workArea"
+              ? `Work Area ${drawnFeatures.filter((f) => f.layerType === "workArea").length + 1}`
+              : undefined,
           area,
+          perimeter,
           coordinates,
+          parts,
           layer,
           layerType: targetLayerType,
         }
 
         targetLayer.addLayer(layer)
-
-        if (targetLayerType === "workArea") {
-          onPolygonChange?.(coordinates, area)
-        }
       } else if (layer instanceof L.Polyline) {
-        const latlngs = layer.getLatLngs() as L.LatLng[]
-        const coordinates = latlngs.map((ll) => ({ lat: ll.lat, lng: ll.lng }))
+        const { length, coordinates } = getPolylineGeometry(layer)
 
         if (isDuplicateFeature(coordinates, drawnFeatures)) {
           map.removeLayer(layer)
@@ -345,6 +1232,7 @@ export function MapWithDrawing({
         featureData = {
           id,
           type: "polyline",
+          length,
           coordinates,
           layer,
           layerType: targetLayerType,
@@ -370,9 +1258,7 @@ export function MapWithDrawing({
 
         targetLayer.addLayer(layer)
       } else if (layer instanceof L.Rectangle) {
-        const latlngs = layer.getLatLngs()[0] as L.LatLng[]
-        const area = calculateArea(latlngs)
-        const coordinates = latlngs.map((ll) => ({ lat: ll.lat, lng: ll.lng }))
+        const { area, perimeter, coordinates, parts } = getPolygonGeometry(layer)
 
         if (isDuplicateFeature(coordinates, drawnFeatures)) {
           map.removeLayer(layer)
@@ -383,7 +1269,9 @@ export function MapWithDrawing({
           id,
           type: "rectangle",
           area,
+          perimeter,
           coordinates,
+          parts,
           layer,
           layerType: targetLayerType,
         }
@@ -393,7 +1281,8 @@ export function MapWithDrawing({
 
       if (featureData) {
         setDrawnFeatures((prev) => [...prev, featureData!])
-        setSelectedFeatureId(id)
+        selectFeature(id)
+        recordHistory({ type: "create", before: [], after: [toPersistedFeature(featureData)] })
       }
     }
 
@@ -402,29 +1291,56 @@ export function MapWithDrawing({
         return
       }
 
+      const feature = drawnFeatures.find((f) => f.layer === e.layer)
+      if (!feature) return
+
       // Update feature data after edit
-      setDrawnFeatures((prev) =>
-        prev.map((feature) => {
-          if (feature.layer === e.layer) {
-            if (feature.layer instanceof L.Polygon || feature.layer instanceof L.Rectangle) {
-              const latlngs = feature.layer.getLatLngs()[0] as L.LatLng[]
-              const area = calculateArea(latlngs)
-              const coordinates = latlngs.map((ll) => ({ lat: ll.lat, lng: ll.lng }))
-
-              return { ...feature, area, coordinates }
-            } else if (feature.layer instanceof L.Polyline) {
-              const latlngs = feature.layer.getLatLngs() as L.LatLng[]
-              const coordinates = latlngs.map((ll) => ({ lat: ll.lat, lng: ll.lng }))
-              return { ...feature, coordinates }
-            } else if (feature.layer instanceof L.Marker) {
-              const latlng = feature.layer.getLatLng()
-              const coordinates = [{ lat: latlng.lat, lng: latlng.lng }]
-              return { ...feature, coordinates }
-            }
-          }
-          return feature
-        }),
-      )
+      let updated = feature
+      if (feature.layer instanceof L.Polygon || feature.layer instanceof L.Rectangle) {
+        updated = { ...feature, ...getPolygonGeometry(feature.layer) }
+      } else if (feature.layer instanceof L.Polyline) {
+        updated = { ...feature, ...getPolylineGeometry(feature.layer) }
+      } else if (feature.layer instanceof L.Marker) {
+        const latlng = feature.layer.getLatLng()
+        const coordinates = [{ lat: latlng.lat, lng: latlng.lng }]
+        updated = { ...feature, coordinates }
+      }
+
+      // Reshaping a buffer by hand detaches it, or the next change to its source would undo the edit
+      if (updated.buffer) {
+        const { buffer, ...detached } = updated
+        updated = detached
+      }
+
+      setDrawnFeatures((prev) => prev.map((f) => (f.id === feature.id ? updated : f)))
+      recordHistory({ type: "edit", before: [toPersistedFeature(feature)], after: [toPersistedFeature(updated)] })
+    }
+
+    // Geoman replaces a cut polygon with a new layer; put the result back on the feature's own layer
+    // so the pm:edit Geoman fires next records the cut like any other edit
+    const handleCut = (e: any) => {
+      const feature = drawnFeatures.find((f) => f.layer === e.originalLayer)
+      if (!feature || !(feature.layer instanceof L.Polygon)) return
+
+      map.removeLayer(e.layer)
+      const resultLayers: L.Layer[] = e.layer instanceof L.LayerGroup ? e.layer.getLayers() : [e.layer]
+      const parts = resultLayers
+        .filter((l): l is L.Polygon => l instanceof L.Polygon)
+        .flatMap((l) => toPolygonParts(l.getLatLngs()))
+
+      const group = feature.layerType === "record" ? recordLayer : workAreaLayer
+      delete (feature.layer as GeomanTempLayer)._pmTempLayer
+      group.removeLayer(feature.layer)
+
+      // Cut away entirely
+      if (parts.length === 0) {
+        setDrawnFeatures((prev) => prev.filter((f) => f.id !== feature.id))
+        recordHistory({ type: "remove", before: [toPersistedFeature(feature)], after: [] })
+        return
+      }
+
+      feature.layer.setLatLngs(parts)
+      group.addLayer(feature.layer)
     }
 
     const handleRemove = (e: any) => {
@@ -432,95 +1348,309 @@ export function MapWithDrawing({
         return
       }
 
-      // Remove feature from state and clean up layer reference
-      setDrawnFeatures((prev) => {
-        const filtered = prev.filter((feature) => feature.layer !== e.layer)
-
-        if (filtered.length === 0) {
-          onPolygonChange?.([], null)
-        }
+      const feature = drawnFeatures.find((f) => f.layer === e.layer)
+      if (!feature) return
 
-        return filtered
-      })
+      // Remove feature from state and clean up layer reference
+      setDrawnFeatures((prev) => prev.filter((f) => f.id !== feature.id))
+      recordHistory({ type: "remove", before: [toPersistedFeature(feature)], after: [] })
     }
 
     map.on("pm:create", handleCreate)
-    map.on("pm:edit", handleEdit)
+    workAreaLayer.on("pm:edit", handleEdit)
+    recordLayer.on("pm:edit", handleEdit)
     map.on("pm:remove", handleRemove)
+    map.on("pm:cut", handleCut)
 
     return () => {
       map.off("pm:create", handleCreate)
-      map.off("pm:edit", handleEdit)
+      workAreaLayer.off("pm:edit", handleEdit)
+      recordLayer.off("pm:edit", handleEdit)
       map.off("pm:remove", handleRemove)
+      map.off("pm:cut", handleCut)
     }
-  }, [onPolygonChange, drawnFeatures, isDuplicateFeature, drawMode])
+  }, [drawnFeatures, isDuplicateFeature, drawMode, recordHistory, selectFeature])
 
+  // Georef points, lines and polygons. Lines and polygons finish on double-click; while drawing, Backspace removes
+  // the last vertex and Escape cancels. Finished geometry stays editable until the next one replaces it, and is
+  // reported again after every edit.
   useEffect(() => {
     const map = mapInstanceRef.current
     const georefLayer = georefLayerRef.current
-    if (!map || !georefLayer || mode !== "georef" || georefMode === "none") return
+    if (!map || !georefLayer || !isInitialized || mode !== "georef") return
+    if (georefMode !== "point" && georefMode !== "line" && georefMode !== "polygon") return
 
     georefLayer.clearLayers()
 
-    let currentLayer: L.Marker | L.Polyline | L.Polygon | null = null
-    let points: L.LatLng[] = []
-
-    const handleClick = (e: L.LeafletMouseEvent) => {
-      if (georefMode === "point") {
-        const marker = L.marker(e.latlng, {
-          icon: L.icon({
-            iconUrl: "/leaflet/marker-icon.png",
-            iconRetinaUrl: "/leaflet/marker-icon-2x.png",
-            shadowUrl: "/leaflet/marker-shadow.png",
-            iconSize: [25, 41],
-            iconAnchor: [12, 41],
-          }),
-        }).addTo(georefLayer)
-        onGeorefComplete?.({ type: "Point", point: { lat: e.latlng.lat, lng: e.latlng.lng } })
-      } else if (georefMode === "line" || georefMode === "polygon") {
-        points.push(e.latlng)
+    const isPolygon = georefMode === "polygon"
+    const style = {
+      color: georefColor,
+      weight: 3,
+      ...(isPolygon && { fillColor: georefColor, fillOpacity: 0.2 }),
+    }
+    const draftStyle = { ...style, interactive: false, pmIgnore: true }
+    const draft = (isPolygon ? L.polygon([], draftStyle) : L.polyline([], draftStyle)).addTo(georefLayer)
+    const rubberBand = L.polyline([], {
+      color: georefColor,
+      weight: 2,
+      dashArray: "4 6",
+      interactive: false,
+      pmIgnore: true,
+    }).addTo(georefLayer)
+    const readout = L.tooltip({ permanent: true, direction: "right", offset: [12, 0] })
 
-        if (currentLayer) {
-          georefLayer.removeLayer(currentLayer)
-        }
+    let points: L.LatLng[] = []
+    let completed: L.Marker | L.Polyline | L.Polygon | null = null
+
+    // Snap to the layers the `snapping` option makes targets, within Geoman's current snap distance
+    const snap = (latlng: L.LatLng) => {
+      const { snappable, snapDistance = 20 } = map.pm.getGlobalOptions()
+      if (!snappable) return latlng
+
+      const targets = [
+        recordShapesLayerRef.current,
+        recordPointsLayerRef.current,
+        shapesLayerRef.current,
+        ...drawnFeaturesRef.current.map((f) => f.layer),
+      ].filter((layer): layer is L.Layer => layer !== null)
+      return findSnapPoint(map, latlng, targets, snapDistance) ?? latlng
+    }
 
-        if (georefMode === "line") {
-          currentLayer = L.polyline(points, {
-            color: georefColor,
-            weight: 3,
-          }).addTo(georefLayer)
-        } else {
-          currentLayer = L.polygon(points, {
-            color: georefColor,
-            fillColor: georefColor,
-            fillOpacity: 0.2,
-            weight: 3,
-          }).addTo(georefLayer)
-        }
+    const report = (layer: L.Marker | L.Polyline | L.Polygon) => {
+      if (layer instanceof L.Marker) {
+        const { lat, lng } = layer.getLatLng()
+        onGeorefCompleteRef.current?.({ type: "Point", point: { lat, lng } })
+        return
       }
+      const latlngs = layer.getLatLngs()
+      const path = (isPolygon ? latlngs[0] : latlngs) as L.LatLng[]
+      onGeorefCompleteRef.current?.({
+        type: isPolygon ? "Polygon" : "LineString",
+        path: path.map(({ lat, lng }) => ({ lat, lng })),
+      })
     }
 
-    const handleDblClick = () => {
-      if ((georefMode === "line" || georefMode === "polygon") && points.length > 1) {
-        const path = points.map((ll) => ({ lat: ll.lat, lng: ll.lng }))
-        onGeorefComplete?.({
-          type: georefMode === "line" ? "LineString" : "Polygon",
-          path,
+    const replaceCompleted = (layer: L.Marker | L.Polyline | L.Polygon) => {
+      if (completed) {
+        completed.pm?.disable()
+        georefLayer.removeLayer(completed)
+      }
+      completed = layer
+      georefLayer.addLayer(layer)
+      setHasGeorefGeometry(true)
+      report(layer)
+    }
+
+    // Vertex count and length, plus area for polygons, at the cursor
+    const updateReadout = (cursor?: L.LatLng) => {
+      if (points.length === 0) {
+        readout.remove()
+        return
+      }
+      const path = cursor ? [...points, cursor] : points
+      const { length, area } = measurePath(path, isPolygon)
+      const parts = [`${points.length} ${points.length === 1 ? "vertex" : "vertices"}`, formatLength(length)]
+      if (area != null) parts.push(formatArea(area))
+      readout
+        .setLatLng(path[path.length - 1])
+        .setContent(parts.join(" • "))
+        .addTo(map)
+    }
+
+    const updateDraft = () => {
+      draft.setLatLngs(points)
+      if (points.length === 0) rubberBand.setLatLngs([])
+      updateReadout()
+    }
+
+    const cancelDraft = () => {
+      points = []
+      updateDraft()
+    }
+
+    const finishDraft = () => {
+      // The two clicks of a double-click both added the same vertex
+      const vertices = points.filter((p, i) => i === 0 || !areCoordinatesEqual([p], [points[i - 1]]))
+      if (vertices.length < (isPolygon ? 3 : 2)) return
+
+      cancelDraft()
+      const layer = isPolygon ? L.polygon(vertices, style) : L.polyline(vertices, style)
+      replaceCompleted(layer)
+      layer.pm.enable({ snappable: true })
+      layer.on("pm:edit", () => report(layer))
+    }
+
+    const handleClick = (e: L.LeafletMouseEvent) => {
+      // Clicks on the finished geometry or its vertex handles are edits
+      if (e.sourceTarget === completed || isGeomanTempLayer(e.sourceTarget)) return
+
+      const latlng = snap(e.latlng)
+      if (georefMode === "point") {
+        const marker = L.marker(latlng, {
+          draggable: true,
+          pmIgnore: true,
+          icon: L.icon({
+            iconUrl: "/leaflet/marker-icon.png",
+            iconRetinaUrl: "/leaflet/marker-icon-2x.png",
+            shadowUrl: "/leaflet/marker-shadow.png",
+            iconSize: [25, 41],
+            iconAnchor: [12, 41],
+          }),
+        })
+        marker.on("dragend", () => {
+          marker.setLatLng(snap(marker.getLatLng()))
+          report(marker)
         })
-        points = []
-        currentLayer = null
+        replaceCompleted(marker)
+        return
+      }
+
+      points.push(latlng)
+      updateDraft()
+    }
+
+    const handleMouseMove = (e: L.LeafletMouseEvent) => {
+      const last = points[points.length - 1]
+      if (!last) return
+      rubberBand.setLatLngs(isPolygon && points.length > 1 ? [last, e.latlng, points[0]] : [last, e.latlng])
+      updateReadout(e.latlng)
+    }
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (points.length === 0) return
+      const target = e.target as HTMLElement | null
+      if (target?.closest("input, textarea, select, [contenteditable='true']")) return
+
+      if (e.key === "Backspace") {
+        e.preventDefault()
+        points.pop()
+        updateDraft()
+      } else if (e.key === "Escape") {
+        cancelDraft()
       }
     }
 
+    // Double-clicks finish shapes instead of zooming
+    map.doubleClickZoom.disable()
     map.on("click", handleClick)
-    map.on("dblclick", handleDblClick)
+    map.on("dblclick", finishDraft)
+    map.on("mousemove", handleMouseMove)
+    window.addEventListener("keydown", handleKeyDown)
 
     return () => {
+      map.doubleClickZoom.enable()
       map.off("click", handleClick)
-      map.off("dblclick", handleDblClick)
+      map.off("dblclick", finishDraft)
+      map.off("mousemove", handleMouseMove)
+      window.removeEventListener("keydown", handleKeyDown)
+      readout.remove()
+      completed?.pm?.disable()
       georefLayer.clearLayers()
+      setHasGeorefGeometry(false)
+    }
+  }, [mode, georefMode, georefColor, isInitialized])
+
+  const isImageGeoref = mode === "georef" && georefMode === "image"
+
+  // Image georef: a map click places the control point last picked on the image
+  useEffect(() => {
+    const map = mapInstanceRef.current
+    if (!map || !isInitialized || !isImageGeoref || !pendingImagePoint) return
+
+    const handleClick = (e: L.LeafletMouseEvent) => {
+      const point: ControlPoint = {
+        id: `gcp-${Date.now()}-${Math.random()}`,
+        image: pendingImagePoint,
+        map: { lat: e.latlng.lat, lng: e.latlng.lng },
+      }
+      setControlPoints((prev) => [...prev, point])
+      setPendingImagePoint(null)
+    }
+
+    map.getContainer().style.cursor = "crosshair"
+    map.on("click", handleClick)
+    return () => {
+      map.getContainer().style.cursor = ""
+      map.off("click", handleClick)
+    }
+  }, [pendingImagePoint, isImageGeoref, isInitialized])
+
+  // Numbered control point markers; drag one to move its map position. Like measurements they draw above every
+  // overlay, so they stay on top of the warped drawing.
+  useEffect(() => {
+    const map = mapInstanceRef.current
+    if (!map || !isInitialized || !isImageGeoref) return
+
+    const group = L.layerGroup()
+    controlPoints.forEach((point, i) => {
+      const residual = controlPointResiduals.find((r) => r.id === point.id)
+      const marker = L.marker([point.map.lat, point.map.lng], {
+        draggable: true,
+        pmIgnore: true,
+        snapIgnore: true,
+        pane: TOOLS_PANE,
+        icon: L.divIcon({
+          className: "",
+          html: `<div style="width:22px;height:22px;border-radius:9999px;background:${georefColor};color:#fff;border:2px solid #fff;font:600 11px/18px sans-serif;text-align:center;box-shadow:0 1px 3px rgba(0,0,0,.4)">${i + 1}</div>`,
+          iconSize: [22, 22],
+          iconAnchor: [11, 11],
+        }),
+      })
+      marker.bindTooltip(residual ? `Point ${i + 1}: ${formatLength(residual.error)} off` : `Point ${i + 1}`)
+      marker.on("dragend", () => {
+        const { lat, lng } = marker.getLatLng()
+        setControlPoints((prev) => prev.map((p) => (p.id === point.id ? { ...p, map: { lat, lng } } : p)))
+      })
+      group.addLayer(marker)
+    })
+    group.addTo(map)
+
+    return () => {
+      group.remove()
+    }
+  }, [controlPoints, controlPointResiduals, georefColor, isImageGeoref, isInitialized])
+
+  // The warped drawing, once enough control points fix a transform
+  const hasGeorefTransform = georefTransform !== null
+  useEffect(() => {
+    const georefLayer = georefLayerRef.current
+    if (!georefLayer || !isInitialized || !isImageGeoref || !georefImage || !hasGeorefTransform) return
+
+    let cancelled = false
+    const image = new Image()
+    image.src = georefImage.url
+    image
+      .decode()
+      .then(() => {
+        if (cancelled || !georefTransformRef.current) return
+        const layer = createWarpedImageLayer(image, georefTransformRef.current).setOpacity(georefOpacityRef.current)
+        warpedImageRef.current = layer
+        georefLayer.addLayer(layer)
+        setHasWarpedImage(true)
+      })
+      .catch(() => setGeorefStatus({ type: "error", message: `Could not draw ${georefImage.name}` }))
+
+    return () => {
+      cancelled = true
+      if (warpedImageRef.current) georefLayer.removeLayer(warpedImageRef.current)
+      warpedImageRef.current = null
+      setHasWarpedImage(false)
     }
-  }, [mode, georefMode, georefColor, onGeorefComplete])
+  }, [georefImage, hasGeorefTransform, isImageGeoref, isInitialized])
+
+  useEffect(() => {
+    if (georefTransform) warpedImageRef.current?.setTransform(georefTransform)
+  }, [georefTransform])
+
+  // Free the drawing's object URL once it is replaced or the map goes away
+  useEffect(() => {
+    if (!georefImage) return
+    return () => URL.revokeObjectURL(georefImage.url)
+  }, [georefImage])
+
+  useEffect(() => {
+    warpedImageRef.current?.setOpacity(georefOpacity)
+  }, [georefOpacity])
 
   useEffect(() => {
     const map = mapInstanceRef.current
@@ -537,78 +1667,325 @@ export function MapWithDrawing({
     }
   }, [pickPointActive, pickZoom])
 
+  // Measure mode: click to add vertices, double-click to finish, Escape to clear
   useEffect(() => {
     const map = mapInstanceRef.current
-    const workAreaLayer = workAreaLayerRef.current
-    if (!map || !workAreaLayer || !isInitialized) return
+    const measureLayer = measureLayerRef.current
+    if (!map || !measureLayer || !isInitialized || drawMode !== "measure") return
+
+    const rubberBand = L.polyline([], {
+      color: MEASURE_COLOR,
+      weight: 2,
+      dashArray: "4 6",
+      interactive: false,
+      pane: TOOLS_PANE,
+    })
+    const rubberBandLabel = L.tooltip({ permanent: true, direction: "right", offset: [12, 0] })
+    rubberBand.addTo(measureLayer)
+
+    const hideRubberBand = () => {
+      rubberBand.setLatLngs([])
+      rubberBandLabel.remove()
+    }
+
+    const handleClick = (e: L.LeafletMouseEvent) => {
+      const point = { lat: e.latlng.lat, lng: e.latlng.lng }
+      setMeasurement((prev) =>
+        prev.complete ? { points: [point], complete: false } : { ...prev, points: [...prev.points, point] },
+      )
+    }
+
+    const handleDblClick = () => {
+      hideRubberBand()
+      setMeasurement((prev) => {
+        // The two clicks of a double-click both added the same vertex
+        const points = prev.points.filter((p, i) => i === 0 || !areCoordinatesEqual([p], [prev.points[i - 1]]))
+        return { points, complete: points.length > 1 }
+      })
+    }
+
+    const handleMouseMove = (e: L.LeafletMouseEvent) => {
+      const { points, complete } = measurementRef.current
+      const last = points[points.length - 1]
+      if (!last || complete) return
+
+      const { distance, initialBearing } = geodesicInverse(last, e.latlng)
+      rubberBand.setLatLngs([last, e.latlng])
+      rubberBandLabel
+        .setLatLng(e.latlng)
+        .setContent(`${formatLength(distance)} • ${formatBearing(initialBearing)}`)
+        .addTo(map)
+    }
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== "Escape") return
+      const target = e.target as HTMLElement | null
+      if (target?.closest("input, textarea, select, [contenteditable='true']")) return
+
+      hideRubberBand()
+      setMeasurement({ points: [], complete: false })
+    }
+
+    map.doubleClickZoom.disable()
+    map.on("click", handleClick)
+    map.on("dblclick", handleDblClick)
+    map.on("mousemove", handleMouseMove)
+    map.on("mouseout", hideRubberBand)
+    window.addEventListener("keydown", handleKeyDown)
+
+    return () => {
+      map.doubleClickZoom.enable()
+      map.off("click", handleClick)
+      map.off("dblclick", handleDblClick)
+      map.off("mousemove", handleMouseMove)
+      map.off("mouseout", hideRubberBand)
+      window.removeEventListener("keydown", handleKeyDown)
+      rubberBandLabel.remove()
+      measureLayer.removeLayer(rubberBand)
+      setMeasurement({ points: [], complete: false })
+    }
+  }, [drawMode, isInitialized])
+
+  // Draw the current measurement with segment length / azimuth labels and a total
+  useEffect(() => {
+    const measureLayer = measureLayerRef.current
+    const { points } = measurement
+    if (!measureLayer || points.length === 0) return
+
+    const group = L.layerGroup().addTo(measureLayer)
+    const result = measurePath(points, measureShape === "polygon")
+    const style = { color: MEASURE_COLOR, weight: 3, interactive: false, pane: TOOLS_PANE }
+
+    if (result.area != null) {
+      L.polygon(points, { ...style, fillColor: MEASURE_COLOR, fillOpacity: 0.15 }).addTo(group)
+    } else {
+      L.polyline(points, style).addTo(group)
+    }
+    points.forEach((point) => {
+      L.circleMarker(point, { ...style, radius: 4, fillColor: "#ffffff", fillOpacity: 1, weight: 2 }).addTo(group)
+    })
 
-    if (polygonLayerRef.current) {
-      workAreaLayer.removeLayer(polygonLayerRef.current)
-      polygonLayerRef.current = null
+    result.segments.forEach((segment) => {
+      L.tooltip({ permanent: true, direction: "center", className: "text-[10px]" })
+        .setLatLng([(segment.from.lat + segment.to.lat) / 2, (segment.from.lng + segment.to.lng) / 2])
+        .setContent(`${formatLength(segment.length)} • ${formatBearing(segment.bearing)}`)
+        .addTo(group)
+    })
+
+    if (result.segments.length > 0) {
+      const total =
+        result.area != null
+          ? `Area: ${formatArea(result.area)}<br>Perimeter: ${formatLength(result.length)}`
+          : `Total: ${formatLength(result.length)}`
+      L.tooltip({ permanent: true, direction: "right", offset: [12, 0] })
+        .setLatLng(points[points.length - 1])
+        .setContent(`<strong>${total}</strong>`)
+        .addTo(group)
     }
 
-    if (polygon && polygon.length > 0) {
-      const latlngs = polygon.map((p) => L.latLng(p.lat, p.lng))
-      const polygonLayer = L.polygon(latlngs, {
-        color: "#3b82f6",
-        fillColor: "#3b82f6",
-        fillOpacity: 0.2,
-        weight: 2,
-      }).addTo(workAreaLayer)
-      polygonLayerRef.current = polygonLayer
+    return () => {
+      measureLayer.removeLayer(group)
     }
-  }, [polygon, isInitialized])
+  }, [measurement, measureShape])
+
+  const measureResult = measurePath(measurement.points, measureShape === "polygon")
+
+  // Keep a measurement by adding it to a drawing layer like an imported feature (dedupe, naming, undo)
+  const saveMeasurement = (layerType: "workArea" | "record") => {
+    const positions = measurement.points.map((p) => [p.lng, p.lat])
+    const geometry =
+      measureResult.area != null
+        ? { type: "Polygon" as const, coordinates: [[...positions, positions[0]]] }
+        : { type: "LineString" as const, coordinates: positions }
+
+    loadFeaturesIntoLayer([{ type: "Feature", geometry, properties: {} }], layerType)
+    setMeasurement({ points: [], complete: false })
+  }
+
+  // Sync drawn work areas with the controlled `workAreas` prop
+  useEffect(() => {
+    const workAreaLayer = workAreaLayerRef.current
+    if (!workAreas || !workAreaLayer || !isInitialized) return
+
+    const serialized = JSON.stringify(workAreas)
+    if (serialized === lastWorkAreasRef.current) return
+    lastWorkAreasRef.current = serialized
+
+    const current = drawnFeaturesRef.current
+    const incomingIds = new Set(workAreas.map((w) => w.id))
+
+    current
+      .filter((f) => f.layerType === "workArea" && !incomingIds.has(f.id) && !isGeometryInvalid(f))
+      .forEach((f) => workAreaLayer.removeLayer(f.layer))
+
+    // Invalid work areas were never reported, so the parent not listing them doesn't mean they were deleted
+    const next = current.filter((f) => f.layerType !== "workArea" || incomingIds.has(f.id) || isGeometryInvalid(f))
+    workAreas.forEach((workArea) => {
+      const existing = next.find((f) => f.id === workArea.id)
+
+      if (existing && JSON.stringify(existing.parts) === JSON.stringify(workArea.coordinates)) {
+        if (existing.name !== workArea.name) {
+          next[next.indexOf(existing)] = { ...existing, name: workArea.name }
+        }
+        return
+      }
+
+      const layer = existing?.layer instanceof L.Polygon ? existing.layer : L.polygon([])
+      layer.setLatLngs(workArea.coordinates)
+      const featureData: DrawnFeature = {
+        id: workArea.id,
+        type: "polygon",
+        name: workArea.name,
+        ...getPolygonGeometry(layer),
+        layer,
+        layerType: "workArea",
+      }
+
+      if (existing) {
+        next[next.indexOf(existing)] = featureData
+      } else {
+        layer.on("click", (e: L.LeafletMouseEvent) => {
+          selectFeature(workArea.id, e.originalEvent.shiftKey)
+        })
+        workAreaLayer.addLayer(layer)
+        next.push(featureData)
+      }
+    })
+
+    setDrawnFeatures(next)
+  }, [workAreas, isInitialized])
+
+  // Report work area changes made on the map; work areas with invalid geometry are held back until repaired
+  useEffect(() => {
+    const nextWorkAreas: WorkArea[] = drawnFeatures
+      .filter((f) => f.layerType === "workArea" && f.parts && !isGeometryInvalid(f))
+      .map((f) => ({ id: f.id, name: f.name ?? f.id, coordinates: f.parts!, area: f.area ?? 0 }))
+
+    const serialized = JSON.stringify(nextWorkAreas)
+    if (serialized === lastWorkAreasRef.current) return
+    lastWorkAreasRef.current = serialized
+
+    const totalArea = nextWorkAreas.reduce((sum, w) => sum + w.area, 0)
+    onWorkAreasChange?.(nextWorkAreas, nextWorkAreas.length > 0 ? totalArea : null)
+  }, [drawnFeatures, onWorkAreasChange])
+
+  // A renderer draws into a single pane, so each overlay gets its own canvas
+  const getCanvasRenderer = (id: string) => {
+    const pane = overlayPaneName(id)
+    canvasRenderersRef.current[pane] ??= L.canvas({ padding: 0.5, pane })
+    return canvasRenderersRef.current[pane]
+  }
 
   useEffect(() => {
     const bubblesLayer = bubblesLayerRef.current
     if (!bubblesLayer || !isInitialized) return
 
-    bubblesLayer.clearLayers()
-
-    bubbles.forEach((bubble) => {
-      const marker = L.circleMarker([bubble.position.lat, bubble.position.lng], {
-        radius: bubble.size || 10,
-        fillColor: "#3b82f6",
-        color: "#fff",
-        weight: 2,
-        opacity: 1,
-        fillOpacity: 0.8,
-      }).addTo(bubblesLayer)
-
-      marker.bindPopup(`
-        <div>
-          <strong>${bubble.title}</strong><br/>
-          ${bubble.description}<br/>
-          <em>${bubble.recordLabel}</em>
-        </div>
-      `)
-    })
-  }, [bubbles, isInitialized])
+    const pane = overlayPaneName("bubbles")
+    const renderer = bubbles.length > canvasThreshold ? getCanvasRenderer("bubbles") : undefined
+    const diff = diffKeyedLayers(
+      bubbleLayersRef.current,
+      bubbles.map((bubble) => ({ id: bubble.id, signature: JSON.stringify(bubble), item: bubble })),
+      (bubble) => {
+        // Bubbles keep their white outline; rules only change the fill
+        const style = resolveFeatureStyle(styleSheet, bubble.properties, BASE_STYLES.bubble)
+        const marker = L.circleMarker([bubble.position.lat, bubble.position.lng], {
+          ...toPathOptions(style),
+          radius: bubble.size || 10,
+          color: BASE_STYLES.bubble.color,
+          opacity: 1,
+          pane,
+          renderer,
+        })
+
+        marker.bindPopup(`
+          <div>
+            <strong>${bubble.title}</strong><br/>
+            ${bubble.description}<br/>
+            <em>${bubble.recordLabel}</em>
+          </div>
+        `)
+        return marker
+      },
+      [styleSheet, renderer],
+    )
+    applyLayerDiff(bubblesLayer, diff)
+  }, [bubbles, styleSheet, canvasThreshold, isInitialized])
 
   useEffect(() => {
     const shapesLayer = shapesLayerRef.current
     if (!shapesLayer || !isInitialized) return
 
-    shapesLayer.clearLayers()
-
-    shapes.forEach((shape) => {
-      const latlngs = shape.path.map((p) => L.latLng(p.lat, p.lng))
-
-      if (shape.type === "line") {
-        L.polyline(latlngs, {
-          color: shape.color || "#ef4444",
-          weight: 3,
-        }).addTo(shapesLayer)
-      } else if (shape.type === "polygon") {
-        L.polygon(latlngs, {
-          color: shape.color || "#ef4444",
-          fillColor: shape.fillColor || shape.color || "#ef4444",
-          fillOpacity: shape.fillOpacity ?? 0.2,
-          weight: 2,
-        }).addTo(shapesLayer)
+    const pane = overlayPaneName("shapes")
+    const renderer = shapes.length > canvasThreshold ? getCanvasRenderer("shapes") : undefined
+    const diff = diffKeyedLayers(
+      shapeLayersRef.current,
+      shapes.map((shape) => ({ id: shape.id, signature: JSON.stringify(shape), item: shape })),
+      (shape) => {
+        const latlngs = shape.path.map((p) => L.latLng(p.lat, p.lng))
+        // Colors set on the shape itself win over the style sheet
+        const style = resolveFeatureStyle(styleSheet, shape.properties, BASE_STYLES.shape)
+        const color = shape.color || style.color
+
+        if (shape.type === "line") {
+          return L.polyline(latlngs, { ...toPathOptions(style), color, weight: 3, pane, renderer })
+        }
+        return L.polygon(latlngs, {
+          ...toPathOptions(style),
+          color,
+          fillColor: shape.fillColor || shape.color || style.fillColor,
+          fillOpacity: shape.fillOpacity ?? style.fillOpacity,
+          pane,
+          renderer,
+        })
+      },
+      [styleSheet, renderer],
+    )
+    applyLayerDiff(shapesLayer, diff)
+  }, [shapes, styleSheet, canvasThreshold, isInitialized])
+
+  // Style drawn, imported and restored records from their attributes; re-runs after attribute edits and undo/redo.
+  // Features moved to the work area layer go back to the default look.
+  useEffect(() => {
+    drawnFeatures.forEach((f) => {
+      if (f.layerType === "record") {
+        applyFeatureStyle(f.layer, resolveFeatureStyle(styleSheet, f.attributes, BASE_STYLES.record))
+      } else {
+        resetFeatureStyle(f.layer)
+      }
+    })
+  }, [drawnFeatures, styleSheet])
+
+  // Regenerate buffers whose source line or point has moved; undoing the source edit moves them back the same way
+  useEffect(() => {
+    const keys = bufferSourceKeysRef.current
+    const regenerated = new Map<string, DrawnFeature>()
+
+    drawnFeatures.forEach((feature) => {
+      const source = feature.buffer && drawnFeatures.find((f) => f.id === feature.buffer!.sourceId)
+      if (!source) return
+
+      const key = JSON.stringify([source.coordinates, feature.buffer])
+      if (keys.get(feature.id) === key) return
+      keys.set(feature.id, key)
+
+      const parts = bufferFeature(toPersistedFeature(source), feature.buffer!.distance, feature.buffer!.cap)
+      if (!parts || JSON.stringify(parts) === JSON.stringify(feature.parts)) return
+
+      const updated: PersistedFeature = {
+        ...toPersistedFeature(feature),
+        parts,
+        coordinates: parts[0][0],
+        area: geodesicPolygonArea(parts),
+        perimeter: geodesicPolygonPerimeter(parts),
       }
+      setLayerGeometry(feature.layer, updated)
+      regenerated.set(feature.id, { ...updated, layer: feature.layer })
     })
-  }, [shapes, isInitialized])
+
+    if (regenerated.size > 0) {
+      setDrawnFeatures((prev) => prev.map((f) => regenerated.get(f.id) ?? f))
+    }
+  }, [drawnFeatures])
 
   useEffect(() => {
     const map = mapInstanceRef.current
@@ -618,59 +1995,447 @@ export function MapWithDrawing({
   }, [focusPoint, focusZoom, isInitialized])
 
   useEffect(() => {
-    const recordLayer = recordLayerRef.current
-    if (!recordLayer || !isInitialized) return
-
-    recordLayer.clearLayers()
-
-    if (records && records.features) {
-      L.geoJSON(records, {
-        onEachFeature: (feature, layer) => {
-          layer.on("click", () => {
-            const properties = feature.properties || {}
-            const propertyEntries = Object.entries(properties)
-
-            let popupContent = "<div style='max-width: 300px;'>"
-            popupContent +=
-              "<strong style='font-size: 14px; display: block; margin-bottom: 8px;'>Record Metadata</strong>"
-
-            if (propertyEntries.length === 0) {
-              popupContent += "<em style='color: #666;'>No metadata available</em>"
-            } else {
-              popupContent += "<table style='width: 100%; font-size: 12px;'>"
-              propertyEntries.forEach(([key, value]) => {
-                popupContent += `<tr><td style='padding: 4px 8px 4px 0; font-weight: 600;'>${key}:</td><td style='padding: 4px 0;'>${value}</td></tr>`
-              })
-              popupContent += "</table>"
-            }
-
-            popupContent += "</div>"
-
-            layer.bindPopup(popupContent).openPopup()
-          })
-        },
-        style: (feature) => {
-          return {
-            color: "#6b21a8",
-            fillColor: "#6b21a8",
-            fillOpacity: 0.4,
-            weight: 2,
-          }
-        },
-      }).addTo(recordLayer)
+    const recordShapesLayer = recordShapesLayerRef.current
+    const recordPointsLayer = recordPointsLayerRef.current
+    if (!recordShapesLayer || !recordPointsLayer || !isInitialized) return
+
+    const features = records?.features ?? []
+    const pane = overlayPaneName("records")
+    const renderer = features.length > canvasThreshold ? getCanvasRenderer("records") : undefined
+
+    // Diffed by feature id, or by content for records without one
+    const items = features.map((feature) => ({
+      id: getRecordId(feature),
+      signature: JSON.stringify(feature),
+      item: feature,
+    }))
+    const isPoint = (item: { item: Feature }) => item.item.geometry?.type === "Point"
+
+    const createLayer = (feature: Feature) => {
+      const layer = L.geoJSON(feature, {
+        style: (f) => ({
+          ...toPathOptions(resolveFeatureStyle(styleSheet, f?.properties, BASE_STYLES.record)),
+          pane,
+          renderer,
+        }),
+        pointToLayer: (f, latlng) =>
+          L.marker(latlng, {
+            icon: createSymbolIcon(resolveFeatureStyle(styleSheet, f.properties, BASE_STYLES.record)),
+            pane,
+            shadowPane: pane,
+          }),
+      }).getLayers()[0]
+      layer?.on("click", () => layer.bindPopup(formatMetadataPopup(feature.properties || {})).openPopup())
+      return layer ?? null
     }
-  }, [records, isInitialized])
 
-  const downloadDrawnGeoJSON = () => {
-    const workAreaLayer = workAreaLayerRef.current
-    if (!workAreaLayer) {
-      return
+    // Points go to the (clustered) points layer, lines and polygons to the shapes layer
+    applyLayerDiff(
+      recordShapesLayer,
+      diffKeyedLayers(
+        recordShapeLayersRef.current,
+        items.filter((item) => !isPoint(item)),
+        createLayer,
+        [styleSheet, renderer],
+      ),
+    )
+    applyLayerDiff(
+      recordPointsLayer,
+      diffKeyedLayers(recordPointLayersRef.current, items.filter(isPoint), createLayer, [styleSheet]),
+    )
+  }, [records, styleSheet, canvasThreshold, isInitialized])
+
+  // Hidden vector tile overlays are taken off the map rather than hidden with their pane, so MapLibre stops rendering them
+  const hiddenVectorTiles = layerPanelState.overlays
+    .filter((overlay) => !overlay.visible)
+    .map((overlay) => overlay.id)
+    .join(",")
+
+  useEffect(() => {
+    const map = mapInstanceRef.current
+    const vectorTilesLayer = vectorTilesLayerRef.current
+    if (!map || !vectorTilesLayer || !isInitialized) return
+
+    const hidden = new Set(hiddenVectorTiles.split(","))
+    const diff = diffKeyedLayers(
+      vectorTileLayersRef.current,
+      vectorTiles
+        .filter((overlay) => !hidden.has(vectorTilePanelId(overlay.id)))
+        .map((overlay) => ({ id: overlay.id, signature: JSON.stringify(overlay), item: overlay })),
+      (overlay) => {
+        const pane = ensureOverlayPane(map, vectorTilePanelId(overlay.id))
+        pane.style.pointerEvents = "none"
+        return createVectorTileLayer(overlay, styleSheet, overlayPaneName(vectorTilePanelId(overlay.id)))
+      },
+      [styleSheet],
+    )
+    applyLayerDiff(vectorTilesLayer, diff)
+    applyOverlayPanes(map, layerPanelRef.current.overlays)
+  }, [vectorTiles, styleSheet, hiddenVectorTiles, isInitialized])
+
+  // Vector tile features aren't Leaflet layers, so clicks on the map are matched against the rendered tiles
+  useEffect(() => {
+    const map = mapInstanceRef.current
+    if (!map || !isInitialized || drawMode) return
+
+    const handleClick = (e: L.LeafletMouseEvent) => {
+      // Clicks on drawn features and records open their own popups
+      if (e.sourceTarget !== map || map.pm.globalDrawModeEnabled()) return
+
+      // Topmost overlay first, as stacked in the layer panel
+      const layers = layerPanelRef.current.overlays
+        .filter((overlay) => overlay.visible && overlay.opacity > 0)
+        .map((overlay) => vectorTiles.find((v) => vectorTilePanelId(v.id) === overlay.id))
+        .map((overlay) => overlay && vectorTileLayersRef.current.layers.get(overlay.id)?.layer)
+      for (const layer of layers) {
+        if (!layer) continue
+        const properties = pickVectorTileFeature(layer, e.latlng)
+        if (properties) {
+          L.popup().setLatLng(e.latlng).setContent(formatMetadataPopup(properties)).openOn(map)
+          return
+        }
+      }
     }
 
-    const geojson = exportToGeoJSON(workAreaLayer)
-    downloadGeoJSON(geojson, `work_areas_${new Date().toISOString().split("T")[0]}.geojson`)
+    map.on("click", handleClick)
+    return () => {
+      map.off("click", handleClick)
+    }
+  }, [vectorTiles, drawMode, isInitialized])
+
+  // Snap targets are chosen per layer with Geoman's `snapIgnore`; the tolerance follows the zoom level
+  useEffect(() => {
+    const map = mapInstanceRef.current
+    if (!map || !isInitialized) return
+
+    const { enabled = true, toleranceMeters = 1, targets = {} } = snapping ?? {}
+    const isTarget = (target: SnapTarget) => enabled && targets[target] !== false
+
+    const setSnapIgnore = (layer: L.Layer, ignore: boolean) => {
+      if (layer instanceof L.LayerGroup) {
+        layer.eachLayer((child) => setSnapIgnore(child, ignore))
+      } else {
+        layer.options.snapIgnore = ignore
+      }
+    }
+
+    drawnFeatures.forEach((f) => setSnapIgnore(f.layer, !isTarget(f.layerType)))
+    if (recordShapesLayerRef.current) setSnapIgnore(recordShapesLayerRef.current, !isTarget("records"))
+    if (recordPointsLayerRef.current) setSnapIgnore(recordPointsLayerRef.current, !isTarget("records"))
+    if (shapesLayerRef.current) setSnapIgnore(shapesLayerRef.current, !isTarget("shapes"))
+    if (bubblesLayerRef.current) setSnapIgnore(bubblesLayerRef.current, true)
+
+    const updateSnapDistance = () => {
+      map.pm.setGlobalOptions({
+        snappable: enabled,
+        snapDistance: Math.max(1, metersToPixels(toleranceMeters, map.getCenter().lat, map.getZoom())),
+      })
+    }
+
+    updateSnapDistance()
+    map.on("zoomend", updateSnapDistance)
+
+    return () => {
+      map.off("zoomend", updateSnapDistance)
+    }
+  }, [drawnFeatures, records, shapes, bubbles, snapping, isInitialized])
+
+  // Geoman's cut tool only cuts holes in drawn polygons, never in lines, records, shapes or measurements
+  useEffect(() => {
+    if (!isInitialized) return
+
+    const setAllowCutting = (layer: L.Layer, allow: boolean) => {
+      if (layer instanceof L.LayerGroup) {
+        layer.eachLayer((child) => setAllowCutting(child, allow))
+      } else {
+        ;(layer as any).pm?.setOptions({ allowCutting: allow })
+      }
+    }
+
+    drawnFeatures.forEach((f) => setAllowCutting(f.layer, f.layer instanceof L.Polygon))
+    ;[
+      recordShapesLayerRef.current,
+      recordPointsLayerRef.current,
+      shapesLayerRef.current,
+      measureLayerRef.current,
+      georefLayerRef.current,
+    ].forEach((layer) => layer && setAllowCutting(layer, false))
+  }, [drawnFeatures, records, shapes, measurement, isInitialized])
+
+  // Existing lines that drawn record lines may connect to
+  const referenceLines = useMemo(() => {
+    const toLatLngs = (positions: number[][]) => positions.map(([lng, lat]) => ({ lat, lng }))
+    const recordLines = (records?.features ?? []).flatMap((feature) => {
+      const geometry = feature.geometry
+      switch (geometry?.type) {
+        case "LineString":
+          return [toLatLngs(geometry.coordinates)]
+        case "MultiLineString":
+        case "Polygon":
+          return geometry.coordinates.map(toLatLngs)
+        case "MultiPolygon":
+          return geometry.coordinates.flat().map(toLatLngs)
+        default:
+          return []
+      }
+    })
+    return [...recordLines, ...shapes.map((shape) => shape.path)]
+  }, [records, shapes])
+
+  const geometryProblems = useMemo(
+    () => new Map(drawnFeatures.map((f) => [f.id, validateGeometry(toPersistedFeature(f))])),
+    [drawnFeatures],
+  )
+
+  const topologyIssues = useMemo(
+    () => (topology === false ? [] : validateTopology(drawnFeatures.map(toPersistedFeature), topology, referenceLines)),
+    [drawnFeatures, topology, referenceLines],
+  )
+
+  // Drop features that no longer exist (removed on the map, undone) from the selection
+  useEffect(() => {
+    const ids = new Set(drawnFeatures.map((f) => f.id))
+    setSelectedFeatureIds((prev) =>
+      [...prev].every((id) => ids.has(id)) ? prev : new Set([...prev].filter((id) => ids.has(id))),
+    )
+  }, [drawnFeatures])
+
+  useEffect(() => {
+    const ids = [...selectedFeatureIds]
+    const serialized = JSON.stringify(ids)
+    if (serialized === lastSelectionRef.current) return
+    lastSelectionRef.current = serialized
+
+    onSelectionChange?.(
+      ids,
+      drawnFeaturesRef.current.filter((f) => selectedFeatureIds.has(f.id)).map(toPersistedFeature),
+    )
+  }, [selectedFeatureIds, onSelectionChange])
+
+  // Outline selected features on the map
+  useEffect(() => {
+    const selectionLayer = selectionLayerRef.current
+    if (!selectionLayer || !isInitialized) return
+
+    selectionLayer.clearLayers()
+
+    const selected = drawnFeatures.filter((f) => selectedFeatureIds.has(f.id))
+    L.geoJSON(featuresToGeoJSON(selected.map(toPersistedFeature)), {
+      interactive: false,
+      pmIgnore: true,
+      snapIgnore: true,
+      style: { color: SELECTION_COLOR, weight: 2, dashArray: "6 4", fill: false, pane: TOOLS_PANE },
+      pointToLayer: (_feature, latlng) =>
+        L.circleMarker(latlng, {
+          radius: 16,
+          color: SELECTION_COLOR,
+          weight: 2,
+          dashArray: "4 3",
+          fillOpacity: 0,
+          interactive: false,
+          pmIgnore: true,
+          snapIgnore: true,
+          pane: TOOLS_PANE,
+        }),
+    }).addTo(selectionLayer)
+  }, [drawnFeatures, selectedFeatureIds, isInitialized])
+
+  // Select mode: drag a lasso or box over features; hold Shift to add to the selection
+  useEffect(() => {
+    const map = mapInstanceRef.current
+    if (!map || !isInitialized || drawMode !== "select") return
+
+    map.dragging.disable()
+    map.boxZoom.disable()
+    map.getContainer().style.cursor = "crosshair"
+
+    let outline: L.Polygon | null = null
+    let start: L.LatLng | null = null
+    let additive = false
+
+    const handleMouseDown = (e: L.LeafletMouseEvent) => {
+      outline?.remove()
+      start = e.latlng
+      additive = e.originalEvent.shiftKey
+      outline = L.polygon([], {
+        color: SELECTION_COLOR,
+        weight: 1,
+        dashArray: "4 4",
+        fillOpacity: 0.1,
+        interactive: false,
+        pmIgnore: true,
+        snapIgnore: true,
+      }).addTo(map)
+    }
+
+    const handleMouseMove = (e: L.LeafletMouseEvent) => {
+      if (!outline || !start) return
+
+      if (selectShape === "box") {
+        outline.setLatLngs([start, [start.lat, e.latlng.lng], e.latlng, [e.latlng.lat, start.lng]])
+      } else {
+        outline.addLatLng(e.latlng)
+      }
+    }
+
+    const handleMouseUp = () => {
+      if (!outline) return
+
+      const ring = toPolygonParts(outline.getLatLngs())[0]?.[0] ?? []
+      outline.remove()
+      outline = null
+      start = null
+      if (ring.length < 3) return
+
+      const positions = ring.map((c) => [c.lng, c.lat])
+      const features = drawnFeaturesRef.current
+      const index = createSpatialIndex(
+        featuresToGeoJSON(features.map(toPersistedFeature)).features.map((feature, i) => ({
+          id: features[i].id,
+          source: "drawn" as const,
+          feature,
+        })),
+      )
+      const hits = index
+        .intersects({ type: "Polygon", coordinates: [[...positions, positions[0]]] })
+        .map((item) => item.id)
+      setSelectedFeatureIds((prev) => new Set([...(additive ? prev : []), ...hits]))
+    }
+
+    map.on("mousedown", handleMouseDown)
+    map.on("mousemove", handleMouseMove)
+    map.on("mouseup", handleMouseUp)
+
+    return () => {
+      map.off("mousedown", handleMouseDown)
+      map.off("mousemove", handleMouseMove)
+      map.off("mouseup", handleMouseUp)
+      outline?.remove()
+      map.dragging.enable()
+      map.boxZoom.enable()
+      map.getContainer().style.cursor = ""
+    }
+  }, [drawMode, selectShape, isInitialized])
+
+  // Everything a work area can be queried against: records, shapes, bubbles and drawn records
+  const spatialIndex = useMemo(() => {
+    const drawnRecords = drawnFeatures.filter((f) => f.layerType === "record")
+    const items: SpatialItem[] = [
+      ...(records?.features ?? []).map((feature) => ({
+        id: getRecordId(feature),
+        source: "records" as const,
+        feature,
+      })),
+      ...shapes.map((shape) => {
+        const positions = shape.path.map((p) => [p.lng, p.lat])
+        const geometry =
+          shape.type === "polygon"
+            ? { type: "Polygon" as const, coordinates: [[...positions, positions[0]]] }
+            : { type: "LineString" as const, coordinates: positions }
+        return {
+          id: shape.id,
+          source: "shapes" as const,
+          feature: { type: "Feature" as const, geometry, properties: shape.properties ?? {} },
+        }
+      }),
+      ...bubbles.map((bubble) => ({
+        id: bubble.id,
+        source: "bubbles" as const,
+        feature: {
+          type: "Feature" as const,
+          geometry: { type: "Point" as const, coordinates: [bubble.position.lng, bubble.position.lat] },
+          properties: bubble.properties ?? {},
+        },
+      })),
+      ...featuresToGeoJSON(drawnRecords.map(toPersistedFeature)).features.map((feature, i) => ({
+        id: drawnRecords[i].id,
+        source: "drawn" as const,
+        feature,
+      })),
+    ]
+    return createSpatialIndex(items.filter((item) => item.feature.geometry))
+  }, [records, shapes, bubbles, drawnFeatures])
+
+  // Records intersecting each valid work area
+  const workAreaRecords = useMemo(() => {
+    const workAreas = drawnFeatures.filter((f) => f.layerType === "workArea" && f.parts && !isGeometryInvalid(f))
+    return featuresToGeoJSON(workAreas.map(toPersistedFeature)).features.map((feature, i) => ({
+      workAreaId: workAreas[i].id,
+      records: spatialIndex.intersects(feature.geometry),
+    }))
+  }, [drawnFeatures, spatialIndex])
+
+  useEffect(() => {
+    const serialized = JSON.stringify(
+      workAreaRecords.map((m) => [m.workAreaId, m.records.map((r) => `${r.source}:${r.id}`)]),
+    )
+    if (serialized === lastWorkAreaRecordsRef.current) return
+    lastWorkAreaRecordsRef.current = serialized
+
+    onWorkAreaRecordsChange?.(workAreaRecords)
+  }, [workAreaRecords, onWorkAreaRecordsChange])
+
+  // Highlight every record that falls inside a work area
+  useEffect(() => {
+    const highlightLayer = highlightLayerRef.current
+    if (!highlightLayer || !isInitialized) return
+
+    highlightLayer.clearLayers()
+
+    const seen = new Set<string>()
+    const matches = workAreaRecords
+      .flatMap((m) => m.records)
+      .filter((item) => {
+        const key = `${item.source}:${item.id}`
+        if (seen.has(key)) return false
+        seen.add(key)
+        return true
+      })
+
+    L.geoJSON(
+      matches.map((item) => item.feature),
+      {
+        interactive: false,
+        pmIgnore: true,
+        snapIgnore: true,
+        style: { color: HIGHLIGHT_COLOR, weight: 8, opacity: 0.8, fill: false },
+        pointToLayer: (_feature, latlng) =>
+          L.circleMarker(latlng, {
+            radius: 14,
+            color: HIGHLIGHT_COLOR,
+            weight: 4,
+            opacity: 0.9,
+            fillOpacity: 0,
+            interactive: false,
+            pmIgnore: true,
+            snapIgnore: true,
+          }),
+      },
+    ).addTo(highlightLayer)
+  }, [workAreaRecords, isInitialized])
+
+  const exportableFeatures = drawnFeatures.filter((f) => exportLayer === "all" || f.layerType === exportLayer)
+
+  const downloadFeatures = async (features: DrawnFeature[], prefix: string) => {
+    if (features.length === 0) return
+
+    setExportError(null)
+    let blob: Blob
+    try {
+      blob = await exportFeatures(features.map(toPersistedFeature), exportFormat, crs)
+    } catch (error) {
+      setExportError(`Export failed: ${error instanceof Error ? error.message : "unknown error"}`)
+      return
+    }
+    downloadBlob(blob, `${prefix}_${new Date().toISOString().split("T")[0]}.${EXPORT_FORMATS[exportFormat].extension}`)
   }
 
+  const downloadDrawnFeatures = () =>
+    downloadFeatures(
+      exportableFeatures,
+      exportLayer === "workArea" ? "work_areas" : exportLayer === "record" ? "records" : "features",
+    )
+
   const logAllLayers = () => {
     const map = mapInstanceRef.current
     if (!map || !(map as any)._layers) {
@@ -686,56 +2451,474 @@ export function MapWithDrawing({
     logLayerCounts()
   }
 
-  const logDrawnGeoJSON = () => {
-    const workAreaLayer = workAreaLayerRef.current
-    if (!workAreaLayer) {
-      return
+  const logDrawnGeoJSON = () => {
+    const workAreaLayer = workAreaLayerRef.current
+    if (!workAreaLayer) {
+      return
+    }
+
+    const geojson = exportToGeoJSON(workAreaLayer)
+    const bbox = getBoundingBox(geojson.features)
+  }
+
+  const logLayerCounts = () => {
+    let totalArea = 0
+    drawnFeatures.forEach((feature) => {
+      if (feature.area) {
+        totalArea += feature.area
+      }
+    })
+  }
+
+  const changeCrs = (code: CrsCode) => {
+    setCrs(code)
+    onCrsChange?.(code)
+  }
+
+  const formatCoordinate = (c: LatLng) => (
+    <div className="text-[10px] font-mono">[{formatCoordinatePair(c, crs).join(", ")}]</div>
+  )
+
+  const copyFeatureGeoJSON = (feature: DrawnFeature) => {
+    const [geojson] = featuresToGeoJSON([toPersistedFeature(feature)]).features
+    navigator.clipboard.writeText(JSON.stringify(geojson, null, 2))
+  }
+
+  const repairFeature = (feature: DrawnFeature, repair: GeometryRepair) => {
+    const repaired = repairGeometry(toPersistedFeature(feature), repair)
+    setLayerGeometry(feature.layer, repaired)
+
+    const measurements =
+      repaired.type === "polyline"
+        ? { length: geodesicLength(repaired.coordinates) }
+        : repaired.parts
+          ? { area: geodesicPolygonArea(repaired.parts), perimeter: geodesicPolygonPerimeter(repaired.parts) }
+          : {}
+    const updated: DrawnFeature = { ...feature, ...repaired, ...measurements }
+
+    setDrawnFeatures((prev) => prev.map((f) => (f.id === feature.id ? updated : f)))
+    recordHistory({ type: "edit", before: [toPersistedFeature(feature)], after: [toPersistedFeature(updated)] })
+  }
+
+  const createBuffer = (source: DrawnFeature) => {
+    const workAreaLayer = workAreaLayerRef.current
+    const distance = Number(bufferDistance)
+    const parts = bufferFeature(toPersistedFeature(source), distance, bufferCap)
+    if (!workAreaLayer || !parts) return
+
+    const id = `feature-${Date.now()}-${Math.random()}`
+    const layer = L.polygon(parts)
+    layer.on("click", (e: L.LeafletMouseEvent) => {
+      selectFeature(id, e.originalEvent.shiftKey)
+    })
+    workAreaLayer.addLayer(layer)
+
+    const featureData: DrawnFeature = {
+      id,
+      type: "polygon",
+      name: `${source.name ?? (source.type === "marker" ? "Point" : "Line")} buffer`,
+      ...getPolygonGeometry(layer),
+      layer,
+      layerType: "workArea",
+      buffer: { sourceId: source.id, distance, ...(source.type === "polyline" && { cap: bufferCap }) },
+    }
+    bufferSourceKeysRef.current.set(id, JSON.stringify([source.coordinates, featureData.buffer]))
+
+    setDrawnFeatures((prev) => [...prev, featureData])
+    selectFeature(id)
+    recordHistory({ type: "create", before: [], after: [toPersistedFeature(featureData)] })
+  }
+
+  // Swap features for the result of a geometry operation as a single undoable step
+  const replaceFeatures = (before: DrawnFeature[], after: PersistedFeature[], type: HistoryEntry["type"]) => {
+    removeFeatureLayers(before)
+    const restored = restoreFeatures(after)
+    const beforeIds = new Set(before.map((f) => f.id))
+
+    setDrawnFeatures((prev) => [...prev.filter((f) => !beforeIds.has(f.id)), ...restored])
+    setSelectedFeatureIds(new Set(restored.map((f) => f.id)))
+    setOperationError(null)
+    recordHistory({ type, before: before.map(toPersistedFeature), after })
+  }
+
+  // A feature with new polygon geometry; results are plain polygons and no longer follow a buffer source
+  const withPolygonParts = (feature: DrawnFeature, parts: LatLng[][][], id = feature.id): PersistedFeature => {
+    const { buffer, ...persisted } = toPersistedFeature(feature)
+    return {
+      ...persisted,
+      id,
+      type: "polygon",
+      parts,
+      coordinates: parts[0][0],
+      area: geodesicPolygonArea(parts),
+      perimeter: geodesicPolygonPerimeter(parts),
+    }
+  }
+
+  // turf's overlay throws on self-intersecting rings, which validation keeps so they can be repaired
+  const overlayFailureMessage = (operation: string, ...features: DrawnFeature[]) =>
+    features.some(isGeometryInvalid)
+      ? `${operation} failed: repair the invalid geometry first`
+      : `${operation} failed for this geometry`
+
+  // Union absorbs the second polygon; difference and intersection only reshape the first
+  const combineFeatures = (feature: DrawnFeature, operation: OverlayOperation) => {
+    const operand = drawnFeatures.find((f) => f.id === overlayOperandId)
+    if (!operand) return
+
+    let parts: LatLng[][][] | null
+    try {
+      parts = overlayPolygons(toPersistedFeature(feature), toPersistedFeature(operand), operation)
+    } catch {
+      setOperationError({ featureId: feature.id, message: overlayFailureMessage(`The ${operation}`, feature, operand) })
+      return
+    }
+    if (!parts) {
+      setOperationError({ featureId: feature.id, message: `The ${operation} is empty` })
+      return
+    }
+
+    replaceFeatures(
+      operation === "union" ? [feature, operand] : [feature],
+      [withPolygonParts(feature, parts)],
+      operation,
+    )
+    setOverlayOperandId("")
+  }
+
+  const splitFeature = (feature: DrawnFeature, line: LatLng[]) => {
+    let pieces: LatLng[][][][]
+    try {
+      pieces = splitPolygon(toPersistedFeature(feature), line)
+    } catch {
+      setOperationError({ featureId: feature.id, message: overlayFailureMessage("The split", feature) })
+      return
+    }
+    if (pieces.length < 2) {
+      setOperationError({ featureId: feature.id, message: "The line must cross the polygon from edge to edge" })
+      return
+    }
+
+    replaceFeatures(
+      [feature],
+      pieces.map((parts, i) => ({
+        ...withPolygonParts(feature, parts, i === 0 ? feature.id : `feature-${Date.now()}-${Math.random()}`),
+        name: feature.name && `${feature.name} (${i + 1})`,
+      })),
+      "split",
+    )
+  }
+
+  const startSplit = (feature: DrawnFeature) => {
+    const map = mapInstanceRef.current
+    if (!map) return
+
+    activateDrawMode(null)
+    setSplitTargetId(feature.id)
+    map.pm.enableDraw("Line")
+  }
+
+  const cancelSplit = () => {
+    mapInstanceRef.current?.pm.disableDraw()
+    setSplitTargetId(null)
+  }
+
+  const startCutHole = (feature: DrawnFeature) => {
+    const map = mapInstanceRef.current
+    if (!map) return
+
+    activateDrawMode(null)
+    map.pm.enableDraw("Cut", { layersToCut: [feature.layer] })
+  }
+
+  const getAttributeValues = (feature: DrawnFeature): Record<string, string> => {
+    if (attributeDraft?.featureId === feature.id) return attributeDraft.values
+    return Object.fromEntries(Object.entries(feature.attributes ?? {}).map(([key, value]) => [key, String(value)]))
+  }
+
+  const saveAttributes = (feature: DrawnFeature) => {
+    const result = parseAttributeInput(getAttributeSchema(feature.layerType), getAttributeValues(feature))
+    if (!result.success) {
+      setAttributeDraft({ featureId: feature.id, values: getAttributeValues(feature), errors: result.errors })
+      return
+    }
+
+    const updated = { ...feature, attributes: result.attributes }
+    setDrawnFeatures((prev) => prev.map((f) => (f.id === feature.id ? updated : f)))
+    recordHistory({ type: "edit", before: [toPersistedFeature(feature)], after: [toPersistedFeature(updated)] })
+    setAttributeDraft(null)
+  }
+
+  const selectedFeatures = drawnFeatures.filter((f) => selectedFeatureIds.has(f.id))
+
+  // Attribute fields offered for bulk editing: every field of the selected features' layer schemas
+  const bulkAttributeFields = Array.from(new Set(selectedFeatures.map((f) => f.layerType))).flatMap((layerType) =>
+    getAttributeFields(getAttributeSchema(layerType)),
+  )
+
+  const deleteSelectedFeatures = () => {
+    if (selectedFeatures.length === 0) return
+
+    removeFeatureLayers(selectedFeatures)
+    setDrawnFeatures((prev) => prev.filter((f) => !selectedFeatureIds.has(f.id)))
+    selectFeature(null)
+    recordHistory({ type: "remove", before: selectedFeatures.map(toPersistedFeature), after: [] })
+  }
+
+  const moveSelectedFeatures = (layerType: "workArea" | "record") => {
+    const moving = selectedFeatures.filter((f) => f.layerType !== layerType)
+    if (moving.length === 0) return
+
+    const moved = new Map(
+      moving.map((f): [string, DrawnFeature] => {
+        moveFeatureLayer(f, layerType)
+        return [f.id, { ...f, layerType }]
+      }),
+    )
+    setDrawnFeatures((prev) => prev.map((f) => moved.get(f.id) ?? f))
+    recordHistory({
+      type: "edit",
+      before: moving.map(toPersistedFeature),
+      after: [...moved.values()].map(toPersistedFeature),
+    })
+  }
+
+  // Set one attribute on every selected feature whose schema has it; nothing changes unless all of them accept the value
+  const setSelectedAttribute = () => {
+    const { key, value } = bulkAttribute
+    const targets = selectedFeatures.filter((f) =>
+      getAttributeFields(getAttributeSchema(f.layerType)).some((field) => field.key === key),
+    )
+    if (targets.length === 0) return
+
+    const updated: DrawnFeature[] = []
+    for (const feature of targets) {
+      const values = Object.fromEntries(
+        Object.entries({ ...feature.attributes, [key]: value }).map(([k, v]) => [k, String(v)]),
+      )
+      const result = parseAttributeInput(getAttributeSchema(feature.layerType), values)
+      if (!result.success) {
+        setBulkError(result.errors[key] ?? Object.values(result.errors)[0])
+        return
+      }
+      updated.push({ ...feature, attributes: result.attributes })
+    }
+
+    const byId = new Map(updated.map((f) => [f.id, f]))
+    setDrawnFeatures((prev) => prev.map((f) => byId.get(f.id) ?? f))
+    recordHistory({ type: "edit", before: targets.map(toPersistedFeature), after: updated.map(toPersistedFeature) })
+    setBulkError(null)
+  }
+
+  const refreshStorageUsage = () => {
+    navigator.storage
+      ?.estimate()
+      .then(({ usage = 0, quota = 0 }) => setStorageUsage({ usage, quota }))
+      .catch(() => setStorageUsage(null))
+  }
+
+  useEffect(() => {
+    setOfflineRegions(loadOfflineRegions())
+    refreshStorageUsage()
+  }, [])
+
+  // The view is only tracked while it is the area to download
+  useEffect(() => {
+    const map = mapInstanceRef.current
+    if (!map || !isInitialized || offlineSource !== "view") return
+
+    const updateViewBBox = () => {
+      const bounds = map.getBounds()
+      setOfflineViewBBox([bounds.getWest(), bounds.getSouth(), bounds.getEast(), bounds.getNorth()])
+    }
+    updateViewBBox()
+    map.on("moveend", updateViewBBox)
+    return () => {
+      map.off("moveend", updateViewBBox)
+    }
+  }, [offlineSource, isInitialized])
+
+  const offlineBasemap = basemaps[activeBasemap]
+
+  // Area, zoom range and tile estimate for the download; zooms are kept within what the basemap serves
+  const offlineArea = useMemo(() => {
+    if (!offlineBasemap) return null
+    const [minZoom, maxZoom] = clampZoomRange(offlineBasemap, offlineZoom[0], offlineZoom[1])
+
+    if (offlineSource === "view") {
+      return offlineViewBBox ? { name: "Map view", area: { bbox: offlineViewBBox, minZoom, maxZoom } } : null
+    }
+
+    const workArea = drawnFeatures.find((f) => f.id === offlineSource && f.layerType === "workArea")
+    if (!workArea) return null
+    const parts = workArea.parts ?? [[workArea.coordinates]]
+    const coords = parts.flat(2)
+    const lngs = coords.map((c) => c.lng)
+    const lats = coords.map((c) => c.lat)
+    return {
+      name: workArea.name || "Work area",
+      area: {
+        bbox: [Math.min(...lngs), Math.min(...lats), Math.max(...lngs), Math.max(...lats)] as OfflineRegionArea["bbox"],
+        parts,
+        minZoom,
+        maxZoom,
+      },
+    }
+  }, [offlineBasemap, offlineZoom, offlineSource, offlineViewBBox, drawnFeatures])
+
+  const offlineTileCount = useMemo(
+    () => (offlineArea ? listRegionTiles(offlineArea.area, MAX_OFFLINE_TILES + 1).length : 0),
+    [offlineArea],
+  )
+
+  // A new drawing, or another page of the same PDF, starts with no control points; picked points are only
+  // discarded once confirmed
+  const loadDrawing = async (file: File, page = 1) => {
+    const count = controlPoints.length
+    if (
+      count > 0 &&
+      !window.confirm(`Discard the ${count} control ${count === 1 ? "point" : "points"} picked so far?`)
+    ) {
+      return
+    }
+
+    try {
+      const image = await loadGeorefImage(file, page)
+      georefFileRef.current = file
+      setGeorefImage(image)
+      setControlPoints([])
+      setPendingImagePoint(null)
+      setGeorefImageZoom(1)
+      setGeorefStatus(null)
+    } catch (error) {
+      setGeorefStatus({
+        type: "error",
+        message: error instanceof Error ? error.message : `Could not read ${file.name}`,
+      })
+    }
+  }
+
+  const georefBaseName = georefImage?.name.replace(/\.[^.]+$/, "") ?? "drawing"
+
+  // World files sit next to their image, so PDF pages are saved as the PNG the points were picked on
+  const exportWorldFile = async () => {
+    if (!georefImage) return
+    const parameters = worldFileParameters(transformType, controlPoints, crs)
+    if (!parameters) return
+
+    downloadBlob(
+      new Blob([toWorldFile(parameters)], { type: "text/plain" }),
+      `${georefBaseName}${worldFileExtension(georefImage.name)}`,
+    )
+    downloadBlob(new Blob([CRS_DEFINITIONS[crs].prj], { type: "text/plain" }), `${georefBaseName}.prj`)
+    if (georefImage.page) {
+      downloadBlob(await (await fetch(georefImage.url)).blob(), georefImage.name)
+    }
+  }
+
+  const exportGeorefParameters = () => {
+    if (!georefImage || !georefTransform) return
+    const json = toGeorefParameters(georefImage, controlPoints, georefTransform, crs)
+    downloadBlob(new Blob([json], { type: "application/json" }), `${georefBaseName}.georef.json`)
+  }
+
+  const finishGeoref = () => {
+    if (!georefImage || !georefTransform) return
+    const { pageCount, ...image } = georefImage
+    onGeorefComplete?.({
+      type: "Image",
+      image,
+      controlPoints,
+      transform: georefTransform,
+      rmsError: rmsError(controlPointResiduals),
+    })
+    setGeorefStatus({ type: "success", message: `${image.name} georeferenced with ${controlPoints.length} points` })
+  }
+
+  const downloadOfflineArea = async () => {
+    if (!offlineArea || !offlineBasemap || offlineControllerRef.current) return
+
+    const controller = new AbortController()
+    offlineControllerRef.current = controller
+    setOfflineStatus(null)
+    setOfflineProgress({ done: 0, total: offlineTileCount, failed: 0, bytes: 0 })
+
+    const region: OfflineRegion = {
+      id: `region-${Date.now()}`,
+      name: offlineArea.name,
+      basemap: activeBasemap,
+      ...offlineArea.area,
+      tileCount: offlineTileCount,
+      bytes: 0,
+      createdAt: new Date().toISOString(),
     }
 
-    const geojson = exportToGeoJSON(workAreaLayer)
-    const bbox = getBoundingBox(geojson.features)
-  }
+    try {
+      const result = await downloadRegionTiles(
+        activeBasemap,
+        offlineBasemap,
+        offlineArea.area,
+        setOfflineProgress,
+        controller.signal,
+      )
 
-  const logLayerCounts = () => {
-    let totalArea = 0
-    drawnFeatures.forEach((feature) => {
-      if (feature.area) {
-        totalArea += feature.area
+      if (controller.signal.aborted) {
+        // Drop what was stored so far, except tiles other regions need
+        await deleteRegionTiles(region, offlineRegions)
+        setOfflineStatus({ type: "error", message: "Download cancelled" })
+      } else {
+        const regions = [...offlineRegions, { ...region, bytes: result.bytes }]
+        saveOfflineRegions(regions)
+        setOfflineRegions(regions)
+        setOfflineStatus(
+          result.failed > 0
+            ? { type: "error", message: `Saved with ${result.failed} of ${result.total} tiles missing` }
+            : { type: "success", message: `Saved ${result.total} tiles (${formatBytes(result.bytes)})` },
+        )
       }
-    })
+    } catch (error) {
+      setOfflineStatus({ type: "error", message: error instanceof Error ? error.message : "Download failed" })
+    } finally {
+      offlineControllerRef.current = null
+      setOfflineProgress(null)
+      refreshStorageUsage()
+    }
   }
 
-  const formatCoordinates = (coords: LatLng[]) => {
-    return coords.map((c, i) => (
-      <div key={i} className="text-[10px] font-mono">
-        [{c.lat.toFixed(6)}, {c.lng.toFixed(6)}]
-      </div>
-    ))
+  const deleteOfflineRegion = async (region: OfflineRegion) => {
+    const remaining = offlineRegions.filter((r) => r.id !== region.id)
+    saveOfflineRegions(remaining)
+    setOfflineRegions(remaining)
+    await deleteRegionTiles(region, remaining).catch(() => {})
+    refreshStorageUsage()
   }
 
-  const copyFeatureGeoJSON = (feature: DrawnFeature) => {
-    const geojson = {
-      type: "Feature",
-      geometry: {
-        type:
-          feature.type === "polygon" || feature.type === "rectangle"
-            ? "Polygon"
-            : feature.type === "polyline"
-              ? "LineString"
-              : "Point",
-        coordinates:
-          feature.type === "marker"
-            ? [feature.coordinates[0].lng, feature.coordinates[0].lat]
-            : feature.type === "polygon" || feature.type === "rectangle"
-              ? [feature.coordinates.map((c) => [c.lng, c.lat])]
-              : feature.coordinates.map((c) => [c.lng, c.lat]),
-      },
-      properties: {
-        area: feature.area,
-      },
-    }
+  const zoomToOfflineRegion = (region: OfflineRegion) => {
+    const [west, south, east, north] = region.bbox
+    mapInstanceRef.current?.fitBounds(
+      [
+        [south, west],
+        [north, east],
+      ],
+      { padding: [50, 50] },
+    )
+  }
 
-    navigator.clipboard.writeText(JSON.stringify(geojson, null, 2))
+  const zoomToSelection = () => {
+    const map = mapInstanceRef.current
+    if (!map) return
+
+    const bounds = L.latLngBounds([])
+    selectedFeatures.forEach(({ layer }) => {
+      if (layer instanceof L.Marker) {
+        bounds.extend(layer.getLatLng())
+      } else if (layer instanceof L.Polyline) {
+        bounds.extend(layer.getBounds())
+      }
+    })
+    if (bounds.isValid()) {
+      map.fitBounds(bounds, { padding: [50, 50], maxZoom: 18 })
+    }
   }
 
   const zoomToFeature = (feature: DrawnFeature) => {
@@ -754,7 +2937,24 @@ export function MapWithDrawing({
       map.setView(latlng, 16)
     }
 
-    setSelectedFeatureId(feature.id)
+    selectFeature(feature.id)
+  }
+
+  const overlayNames = Object.fromEntries(overlayDefinitions.map((overlay) => [overlay.id, overlay.name]))
+  // Vector tile features aren't counted; they are only known once their tiles render
+  const overlayCounts: Record<string, number> = {
+    workArea: drawnFeatures.filter((f) => f.layerType === "workArea").length,
+    records: (records?.features.length ?? 0) + drawnFeatures.filter((f) => f.layerType === "record").length,
+    georef: Number(hasGeorefGeometry) + Number(hasWarpedImage),
+    bubbles: bubbles.length,
+    shapes: shapes.length,
+  }
+
+  const dropOverlay = (index: number) => {
+    if (draggedOverlay !== null && draggedOverlay !== index) {
+      updateLayerPanel(moveOverlay(layerPanelState, draggedOverlay, index))
+    }
+    setDraggedOverlay(null)
   }
 
   return (
@@ -803,6 +3003,28 @@ export function MapWithDrawing({
                 {drawMode === "edit" ? "🟡 Edit Mode Active" : "Edit Features"}
               </button>
 
+              <button
+                onClick={() => activateDrawMode(drawMode === "measure" ? null : "measure")}
+                className={`w-full px-3 py-2.5 rounded-lg font-medium text-sm transition-all ${
+                  drawMode === "measure"
+                    ? "bg-cyan-600 text-white shadow-lg scale-105"
+                    : "bg-white text-gray-700 hover:bg-cyan-50 border border-gray-200"
+                }`}
+              >
+                {drawMode === "measure" ? "📏 Measure Mode Active" : "Measure"}
+              </button>
+
+              <button
+                onClick={() => activateDrawMode(drawMode === "select" ? null : "select")}
+                className={`w-full px-3 py-2.5 rounded-lg font-medium text-sm transition-all ${
+                  drawMode === "select"
+                    ? "bg-emerald-600 text-white shadow-lg scale-105"
+                    : "bg-white text-gray-700 hover:bg-emerald-50 border border-gray-200"
+                }`}
+              >
+                {drawMode === "select" ? "⬚ Select Mode Active" : "Select Features"}
+              </button>
+
               <div className="flex gap-2 pt-2">
                 <button
                   onClick={() => clearLayerFeatures("workArea")}
@@ -819,9 +3041,36 @@ export function MapWithDrawing({
                   Clear Records
                 </button>
               </div>
+
+              <div className="flex gap-2">
+                <button
+                  onClick={undo}
+                  className="flex-1 px-2 py-1.5 bg-white hover:bg-gray-100 text-gray-700 border border-gray-200 rounded text-xs font-medium transition-colors disabled:opacity-50"
+                  disabled={history.undoStack.length === 0}
+                  title={
+                    history.undoStack.length > 0
+                      ? `Undo ${history.undoStack[history.undoStack.length - 1].type} (Ctrl+Z)`
+                      : "Nothing to undo"
+                  }
+                >
+                  ↶ Undo
+                </button>
+                <button
+                  onClick={redo}
+                  className="flex-1 px-2 py-1.5 bg-white hover:bg-gray-100 text-gray-700 border border-gray-200 rounded text-xs font-medium transition-colors disabled:opacity-50"
+                  disabled={history.redoStack.length === 0}
+                  title={
+                    history.redoStack.length > 0
+                      ? `Redo ${history.redoStack[history.redoStack.length - 1].type} (Ctrl+Shift+Z)`
+                      : "Nothing to redo"
+                  }
+                >
+                  ↷ Redo
+                </button>
+              </div>
             </div>
 
-            {drawMode && drawMode !== "edit" && (
+            {(drawMode === "workArea" || drawMode === "record") && (
               <div className="mt-3 p-2 bg-blue-100 rounded text-xs text-blue-800">
                 <strong>Tip:</strong> Use the toolbar on the map to draw shapes. They will be added to the{" "}
                 {drawMode === "workArea" ? "Work Area" : "Record"} layer.
@@ -833,8 +3082,341 @@ export function MapWithDrawing({
                 features.
               </div>
             )}
+            {drawMode === "select" && (
+              <div className="mt-3 p-2 bg-emerald-50 rounded text-xs text-emerald-900 space-y-2">
+                <div>
+                  <strong>Select:</strong> Drag over features to select them; hold Shift to add to the selection.
+                  Shift-click features on the map or in the list to toggle them.
+                </div>
+                <div className="flex gap-1">
+                  {(["lasso", "box"] as SelectShape[]).map((shape) => (
+                    <button
+                      key={shape}
+                      onClick={() => setSelectShape(shape)}
+                      className={`flex-1 px-2 py-1 rounded font-medium capitalize transition-colors ${
+                        selectShape === shape
+                          ? "bg-emerald-600 text-white"
+                          : "bg-white text-gray-700 hover:bg-emerald-100"
+                      }`}
+                    >
+                      {shape}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+            {drawMode === "measure" && (
+              <div className="mt-3 p-2 bg-cyan-50 rounded text-xs text-cyan-900 space-y-2">
+                <div>
+                  <strong>Measure:</strong> Click to add points, double-click to finish, Esc to clear. Measurements are
+                  not saved unless you keep them.
+                </div>
+                <div className="flex gap-1">
+                  {(["line", "polygon"] as MeasureShape[]).map((shape) => (
+                    <button
+                      key={shape}
+                      onClick={() => setMeasureShape(shape)}
+                      className={`flex-1 px-2 py-1 rounded font-medium transition-colors ${
+                        measureShape === shape ? "bg-cyan-600 text-white" : "bg-white text-gray-700 hover:bg-cyan-100"
+                      }`}
+                    >
+                      {shape === "line" ? "Distance" : "Area"}
+                    </button>
+                  ))}
+                </div>
+                <div className="space-y-1">
+                  <div className="flex justify-between">
+                    <span>Segments:</span>
+                    <span className="font-mono">{measureResult.segments.length}</span>
+                  </div>
+                  {measureResult.segments.length > 0 && (
+                    <div className="flex justify-between">
+                      <span>Last segment:</span>
+                      <span className="font-mono">
+                        {formatLength(measureResult.segments[measureResult.segments.length - 1].length)} •{" "}
+                        {formatBearing(measureResult.segments[measureResult.segments.length - 1].bearing)}
+                      </span>
+                    </div>
+                  )}
+                  <div className="flex justify-between">
+                    <span>{measureResult.area != null ? "Perimeter:" : "Total distance:"}</span>
+                    <span className="font-mono">{formatLength(measureResult.length)}</span>
+                  </div>
+                  {measureResult.area != null && (
+                    <div className="flex justify-between">
+                      <span>Area:</span>
+                      <span className="font-mono">{formatArea(measureResult.area)}</span>
+                    </div>
+                  )}
+                </div>
+                {measureResult.segments.length > 0 && (
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => saveMeasurement("workArea")}
+                      className="flex-1 px-2 py-1 bg-white hover:bg-green-50 text-gray-700 border border-gray-200 rounded font-medium transition-colors disabled:opacity-50"
+                      disabled={measureResult.area == null}
+                      title={measureResult.area == null ? "Work areas must be polygons" : "Save as a work area"}
+                    >
+                      Save as Work Area
+                    </button>
+                    <button
+                      onClick={() => saveMeasurement("record")}
+                      className="flex-1 px-2 py-1 bg-white hover:bg-purple-50 text-gray-700 border border-gray-200 rounded font-medium transition-colors"
+                    >
+                      Save as Record
+                    </button>
+                    <button
+                      onClick={() => setMeasurement({ points: [], complete: false })}
+                      className="px-2 py-1 bg-white hover:bg-red-50 text-red-700 border border-gray-200 rounded font-medium transition-colors"
+                      title="Clear measurement (Esc)"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
           </div>
 
+          {/* Georeference Image */}
+          {isImageGeoref && (
+            <div className="bg-gray-50 p-3 rounded-lg">
+              <div className="font-semibold text-sm mb-3">Georeference Image</div>
+              <div className="space-y-2 text-xs">
+                <button
+                  onClick={() => georefImageInputRef.current?.click()}
+                  className="w-full px-3 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-800 transition-colors font-medium text-sm"
+                >
+                  {georefImage ? "Load Another Drawing…" : "Load Drawing…"}
+                </button>
+                <input
+                  ref={georefImageInputRef}
+                  type="file"
+                  accept={GEOREF_IMAGE_ACCEPT}
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0]
+                    e.target.value = ""
+                    if (file) {
+                      loadDrawing(file)
+                    }
+                  }}
+                />
+                <div className="text-[10px] text-gray-500">Scanned as-built as PNG, JPG or PDF</div>
+
+                {georefImage && (
+                  <>
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="truncate text-gray-700" title={georefImage.name}>
+                        {georefImage.name}
+                      </span>
+                      {georefImage.pageCount && georefImage.pageCount > 1 && (
+                        <label className="flex items-center gap-1 text-gray-600 shrink-0">
+                          Page
+                          <select
+                            value={georefImage.page}
+                            onChange={(e) =>
+                              georefFileRef.current && loadDrawing(georefFileRef.current, Number(e.target.value))
+                            }
+                            className="px-1 py-0.5 border border-gray-200 rounded bg-white"
+                          >
+                            {Array.from({ length: georefImage.pageCount }, (_, i) => (
+                              <option key={i + 1} value={i + 1}>
+                                {i + 1}
+                              </option>
+                            ))}
+                          </select>
+                        </label>
+                      )}
+                    </div>
+
+                    <div className="max-h-80 overflow-auto border border-gray-200 rounded bg-white">
+                      <div className="relative" style={{ width: `${georefImageZoom * 100}%` }}>
+                        <img
+                          src={georefImage.url}
+                          alt={georefImage.name}
+                          draggable={false}
+                          className="block w-full cursor-crosshair"
+                          onClick={(e) => {
+                            const rect = e.currentTarget.getBoundingClientRect()
+                            setPendingImagePoint({
+                              x: ((e.clientX - rect.left) / rect.width) * georefImage.width,
+                              y: ((e.clientY - rect.top) / rect.height) * georefImage.height,
+                            })
+                          }}
+                        />
+                        {[
+                          ...controlPoints.map((p, i) => ({ point: p.image, label: String(i + 1) })),
+                          ...(pendingImagePoint ? [{ point: pendingImagePoint, label: "?" }] : []),
+                        ].map(({ point, label }) => (
+                          <div
+                            key={label}
+                            className="absolute w-5 h-5 -ml-2.5 -mt-2.5 rounded-full border-2 border-white text-white text-[10px] font-semibold flex items-center justify-center pointer-events-none shadow"
+                            style={{
+                              left: `${(point.x / georefImage.width) * 100}%`,
+                              top: `${(point.y / georefImage.height) * 100}%`,
+                              background: label === "?" ? PENDING_POINT_COLOR : georefColor,
+                            }}
+                          >
+                            {label}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                      <span className="text-gray-600">Zoom</span>
+                      <button
+                        onClick={() => setGeorefImageZoom((z) => Math.max(1, z / 2))}
+                        disabled={georefImageZoom <= 1}
+                        className="px-2 py-0.5 bg-white border border-gray-200 rounded hover:bg-gray-100 disabled:opacity-50"
+                      >
+                        −
+                      </button>
+                      <span className="font-mono">{georefImageZoom}×</span>
+                      <button
+                        onClick={() => setGeorefImageZoom((z) => Math.min(8, z * 2))}
+                        disabled={georefImageZoom >= 8}
+                        className="px-2 py-0.5 bg-white border border-gray-200 rounded hover:bg-gray-100 disabled:opacity-50"
+                      >
+                        +
+                      </button>
+                    </div>
+
+                    <div className="p-2 bg-blue-100 rounded text-blue-800">
+                      {pendingImagePoint ? (
+                        <>
+                          Now click the same spot on the map.{" "}
+                          <button onClick={() => setPendingImagePoint(null)} className="font-semibold hover:underline">
+                            Cancel
+                          </button>
+                        </>
+                      ) : (
+                        "Click a feature on the drawing, then the same feature on the map. Drag numbered markers on the map to adjust."
+                      )}
+                    </div>
+
+                    <label className="flex items-center justify-between gap-2">
+                      <span className="text-gray-600">Transform</span>
+                      <select
+                        value={transformType}
+                        onChange={(e) => setTransformType(e.target.value as TransformType)}
+                        className="flex-1 min-w-0 px-2 py-1 border border-gray-200 rounded bg-white"
+                      >
+                        {Object.entries(TRANSFORM_TYPES).map(([key, { name, minPoints }]) => (
+                          <option key={key} value={key}>
+                            {name} – {minPoints}+ points
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+
+                    {controlPoints.length > 0 && (
+                      <table className="w-full">
+                        <thead>
+                          <tr className="text-gray-500 text-[10px]">
+                            <th className="text-left font-medium">#</th>
+                            <th className="text-right font-medium">dX (m)</th>
+                            <th className="text-right font-medium">dY (m)</th>
+                            <th className="text-right font-medium">Error (m)</th>
+                            <th />
+                          </tr>
+                        </thead>
+                        <tbody className="font-mono">
+                          {controlPoints.map((point, i) => {
+                            const residual = controlPointResiduals[i]
+                            return (
+                              <tr key={point.id}>
+                                <td>{i + 1}</td>
+                                <td className="text-right">{residual ? residual.dx.toFixed(2) : "–"}</td>
+                                <td className="text-right">{residual ? residual.dy.toFixed(2) : "–"}</td>
+                                <td className="text-right">{residual ? residual.error.toFixed(2) : "–"}</td>
+                                <td className="text-right">
+                                  <button
+                                    onClick={() => setControlPoints((prev) => prev.filter((p) => p.id !== point.id))}
+                                    className="text-red-600 hover:text-red-800"
+                                    title="Remove control point"
+                                  >
+                                    ✕
+                                  </button>
+                                </td>
+                              </tr>
+                            )
+                          })}
+                        </tbody>
+                      </table>
+                    )}
+
+                    {georefTransform ? (
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">RMS error</span>
+                        <span className="font-mono font-semibold">{formatLength(rmsError(controlPointResiduals))}</span>
+                      </div>
+                    ) : (
+                      <div className="text-[10px] text-gray-500">
+                        {controlPoints.length < TRANSFORM_TYPES[transformType].minPoints
+                          ? `Add at least ${TRANSFORM_TYPES[transformType].minPoints - controlPoints.length} more point(s) to fit the transform`
+                          : "Spread the points out; they can't all lie on one line"}
+                      </div>
+                    )}
+
+                    <label className="flex items-center gap-2">
+                      <span className="text-gray-600">Opacity</span>
+                      <input
+                        type="range"
+                        min={0}
+                        max={100}
+                        value={Math.round(georefOpacity * 100)}
+                        onChange={(e) => setGeorefOpacity(Number(e.target.value) / 100)}
+                        className="flex-1"
+                      />
+                    </label>
+
+                    <div className="flex gap-2">
+                      <button
+                        onClick={exportWorldFile}
+                        disabled={!georefTransform}
+                        className="flex-1 px-2 py-1.5 bg-white border border-gray-200 rounded font-medium hover:bg-gray-100 disabled:opacity-50"
+                        title={`World file and .prj in ${crs}`}
+                      >
+                        World File
+                      </button>
+                      <button
+                        onClick={exportGeorefParameters}
+                        disabled={!georefTransform}
+                        className="flex-1 px-2 py-1.5 bg-white border border-gray-200 rounded font-medium hover:bg-gray-100 disabled:opacity-50"
+                        title="Transform, control points and residuals as JSON"
+                      >
+                        Parameters
+                      </button>
+                    </div>
+                    <div className="text-[10px] text-gray-500">
+                      World files use the coordinate system selected below ({crs}); polynomial fits are written as their
+                      closest affine transform
+                    </div>
+                    <button
+                      onClick={finishGeoref}
+                      disabled={!georefTransform}
+                      className="w-full px-3 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors font-medium text-sm disabled:opacity-50"
+                    >
+                      Finish Georeference
+                    </button>
+                  </>
+                )}
+
+                {georefStatus && (
+                  <div
+                    className={`p-2 rounded text-xs ${
+                      georefStatus.type === "error" ? "bg-red-100 text-red-700" : "bg-green-100 text-green-800"
+                    }`}
+                  >
+                    {georefStatus.message}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
           {/* Layer Statistics */}
           <div className="bg-gray-50 p-3 rounded-lg">
             <div className="font-semibold text-sm mb-3">Layer Statistics</div>
@@ -853,11 +3435,11 @@ export function MapWithDrawing({
               </div>
               <div className="flex justify-between">
                 <span className="text-gray-600">Existing Records:</span>
-                <span className="font-mono font-semibold">{recordLayerRef.current?.getLayers().length || 0}</span>
+                <span className="font-mono font-semibold">{overlayCounts.records}</span>
               </div>
               <div className="flex justify-between">
                 <span className="text-gray-600">Georef Points/Lines:</span>
-                <span className="font-mono font-semibold">{georefLayerRef.current?.getLayers().length || 0}</span>
+                <span className="font-mono font-semibold">{overlayCounts.georef}</span>
               </div>
               <div className="flex justify-between">
                 <span className="text-gray-600">Record Markers:</span>
@@ -880,14 +3462,73 @@ export function MapWithDrawing({
             </div>
           </div>
 
+          {/* Coordinate System */}
+          <div className="bg-gray-50 p-3 rounded-lg">
+            <div className="font-semibold text-sm mb-3">Coordinate System</div>
+            <select
+              value={crs}
+              onChange={(e) => changeCrs(e.target.value as CrsCode)}
+              className="w-full px-2 py-1 rounded border border-gray-200 bg-white text-xs"
+            >
+              {(Object.keys(CRS_DEFINITIONS) as CrsCode[]).map((code) => (
+                <option key={code} value={code}>
+                  {CRS_DEFINITIONS[code].name} ({code})
+                </option>
+              ))}
+            </select>
+            <div className="text-[10px] text-gray-500 mt-2">Used for displayed coordinates and exports</div>
+          </div>
+
+          {/* Export */}
+          <div className="bg-gray-50 p-3 rounded-lg">
+            <div className="font-semibold text-sm mb-3">Export Features</div>
+            <div className="space-y-2 text-xs">
+              <label className="flex items-center justify-between gap-2">
+                <span className="text-gray-600">Format</span>
+                <select
+                  value={exportFormat}
+                  onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+                  className="px-2 py-1 rounded border border-gray-200 bg-white"
+                >
+                  {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+                    <option key={format} value={format}>
+                      {EXPORT_FORMATS[format].name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center justify-between gap-2">
+                <span className="text-gray-600">Layer</span>
+                <select
+                  value={exportLayer}
+                  onChange={(e) => setExportLayer(e.target.value as ExportLayer)}
+                  className="px-2 py-1 rounded border border-gray-200 bg-white"
+                >
+                  <option value="workArea">Work Areas</option>
+                  <option value="record">Records</option>
+                  <option value="all">Both</option>
+                </select>
+              </label>
+              {topologyIssues.some((issue) => exportableFeatures.some((f) => f.id === issue.featureId)) && (
+                <div className="text-[10px] text-amber-700">
+                  ⚠ Features to export have topology issues; review them in the features panel
+                </div>
+              )}
+              {exportFormat === "kml" && crs !== "EPSG:4326" && (
+                <div className="text-[10px] text-amber-700">KML is always exported in WGS84 (EPSG:4326)</div>
+              )}
+              {exportError && <div className="text-[10px] text-red-600">{exportError}</div>}
+            </div>
+          </div>
+
           {/* Action Buttons */}
           <div className="space-y-2">
             <button
-              onClick={downloadDrawnGeoJSON}
-              className="w-full px-3 py-2 bg-emerald-500 text-white rounded-lg hover:bg-emerald-600 transition-colors font-medium text-sm"
-              disabled={!workAreaLayerRef.current || workAreaLayerRef.current.getLayers().length === 0}
+              onClick={downloadDrawnFeatures}
+              className="w-full px-3 py-2 bg-emerald-500 text-white rounded-lg hover:bg-emerald-600 transition-colors font-medium text-sm disabled:opacity-50"
+              disabled={exportableFeatures.length === 0}
             >
-              Download GeoJSON
+              Download {EXPORT_FORMATS[exportFormat].name} ({exportableFeatures.length})
             </button>
 
             <button
@@ -910,66 +3551,353 @@ export function MapWithDrawing({
             </button>
           </div>
 
+          {/* Import */}
+          <div className="bg-gray-50 p-3 rounded-lg">
+            <div className="font-semibold text-sm mb-3">Import Features</div>
+            <div className="space-y-2">
+              <div className="flex gap-2">
+                {(["workArea", "record"] as const).map((target) => (
+                  <button
+                    key={target}
+                    onClick={() => setImportTarget(target)}
+                    className={`flex-1 px-2 py-1 rounded text-xs font-medium transition-colors ${
+                      importTarget === target
+                        ? target === "workArea"
+                          ? "bg-green-500 text-white"
+                          : "bg-purple-500 text-white"
+                        : "bg-white text-gray-700 border border-gray-200 hover:bg-gray-100"
+                    }`}
+                  >
+                    {target === "workArea" ? "Work Areas" : "Records"}
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={() => importInputRef.current?.click()}
+                className="w-full px-3 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-800 transition-colors font-medium text-sm"
+              >
+                Import File…
+              </button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept={SPATIAL_FILE_ACCEPT}
+                multiple
+                className="hidden"
+                onChange={(e) => {
+                  const files = Array.from(e.target.files ?? [])
+                  e.target.value = ""
+                  if (files.length > 0) {
+                    importFiles(files)
+                  }
+                }}
+              />
+              <div className="text-[10px] text-gray-500">GeoJSON, KML, GPX or zipped Shapefile</div>
+              {importStatus && (
+                <div
+                  className={`p-2 rounded text-xs ${
+                    importStatus.type === "error" ? "bg-red-100 text-red-700" : "bg-green-100 text-green-800"
+                  }`}
+                >
+                  {importStatus.message}
+                </div>
+              )}
+            </div>
+          </div>
+
           {/* Current Basemap Info */}
           <div className="bg-blue-50 p-3 rounded-lg">
             <div className="font-semibold text-sm mb-2">Current Basemap</div>
-            <div className="text-xs text-gray-700 capitalize">
-              {currentBasemapRef.current.replace(/([A-Z])/g, " $1").trim()}
-            </div>
+            <div className="text-xs text-gray-700">{offlineBasemap?.name ?? activeBasemap}</div>
+          </div>
+
+          {/* Offline Basemap */}
+          <div className="bg-gray-50 p-3 rounded-lg">
+            <div className="font-semibold text-sm mb-3">Offline Basemap</div>
+            {!isOfflineCacheSupported() ? (
+              <div className="text-[10px] text-gray-500">Offline storage needs HTTPS or localhost</div>
+            ) : (
+              <div className="space-y-2 text-xs">
+                <label className="flex items-center justify-between gap-2">
+                  <span className="text-gray-600">Area</span>
+                  <select
+                    value={offlineSource}
+                    onChange={(e) => setOfflineSource(e.target.value)}
+                    className="px-2 py-1 rounded border border-gray-200 bg-white min-w-0"
+                  >
+                    <option value="view">Current view</option>
+                    {drawnFeatures
+                      .filter((f) => f.layerType === "workArea" && f.type !== "polyline" && f.type !== "marker")
+                      .map((f) => (
+                        <option key={f.id} value={f.id}>
+                          {f.name || "Work area"}
+                        </option>
+                      ))}
+                  </select>
+                </label>
+                <label className="flex items-center justify-between gap-2">
+                  <span className="text-gray-600">Zoom</span>
+                  <span className="flex items-center gap-1">
+                    {[0, 1].map((i) => (
+                      <input
+                        key={i}
+                        type="number"
+                        min={offlineBasemap?.minZoom ?? 0}
+                        max={offlineBasemap?.maxZoom ?? 18}
+                        value={offlineZoom[i]}
+                        onChange={(e) => {
+                          const value = Number(e.target.value)
+                          setOfflineZoom((prev) => (i === 0 ? [value, prev[1]] : [prev[0], value]))
+                        }}
+                        className="w-12 px-1 py-0.5 rounded border border-gray-200 bg-white"
+                      />
+                    ))}
+                  </span>
+                </label>
+                {offlineArea && (
+                  <div className="text-[10px] text-gray-500">
+                    {offlineBasemap?.name}, zoom {offlineArea.area.minZoom}–{offlineArea.area.maxZoom}:{" "}
+                    {offlineTileCount > MAX_OFFLINE_TILES
+                      ? `more than ${MAX_OFFLINE_TILES.toLocaleString()} tiles; choose a smaller area or zoom range`
+                      : `${offlineTileCount.toLocaleString()} tiles, about ${formatBytes(offlineTileCount * ESTIMATED_TILE_BYTES)}`}
+                  </div>
+                )}
+                {offlineProgress ? (
+                  <div className="space-y-1">
+                    <div className="h-1.5 bg-gray-200 rounded overflow-hidden">
+                      <div
+                        className="h-full bg-blue-500"
+                        style={{ width: `${(offlineProgress.done / Math.max(1, offlineProgress.total)) * 100}%` }}
+                      />
+                    </div>
+                    <div className="flex items-center justify-between text-[10px] text-gray-600">
+                      <span>
+                        {offlineProgress.done} / {offlineProgress.total} tiles, {formatBytes(offlineProgress.bytes)}
+                      </span>
+                      <button
+                        onClick={() => offlineControllerRef.current?.abort()}
+                        className="text-red-600 hover:underline"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <button
+                    onClick={downloadOfflineArea}
+                    disabled={!offlineArea || offlineTileCount === 0 || offlineTileCount > MAX_OFFLINE_TILES}
+                    className="w-full px-3 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-800 transition-colors font-medium text-sm disabled:opacity-50"
+                  >
+                    Download Area for Offline
+                  </button>
+                )}
+                {offlineStatus && (
+                  <div
+                    className={`p-2 rounded text-xs ${
+                      offlineStatus.type === "error" ? "bg-red-100 text-red-700" : "bg-green-100 text-green-800"
+                    }`}
+                  >
+                    {offlineStatus.message}
+                  </div>
+                )}
+                {offlineRegions.length > 0 && (
+                  <div className="space-y-1 pt-1">
+                    {offlineRegions.map((region) => (
+                      <div
+                        key={region.id}
+                        className="flex items-center justify-between gap-2 bg-white border border-gray-200 rounded p-1.5"
+                      >
+                        <button
+                          onClick={() => zoomToOfflineRegion(region)}
+                          className="text-left min-w-0"
+                          title="Zoom to area"
+                        >
+                          <div className="font-medium text-gray-700 truncate">{region.name}</div>
+                          <div className="text-[10px] text-gray-500">
+                            {basemaps[region.basemap]?.name ?? region.basemap}, z{region.minZoom}–{region.maxZoom},{" "}
+                            {region.tileCount} tiles, {formatBytes(region.bytes)}
+                          </div>
+                        </button>
+                        <button
+                          onClick={() => deleteOfflineRegion(region)}
+                          disabled={!!offlineProgress}
+                          className="text-[10px] text-red-600 hover:underline disabled:opacity-50"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {storageUsage && (
+                  <div className="text-[10px] text-gray-500">
+                    Browser storage: {formatBytes(storageUsage.usage)} of {formatBytes(storageUsage.quota)} used
+                  </div>
+                )}
+              </div>
+            )}
           </div>
         </div>
       </div>
 
       {/* Right Side - Map (2/3 width) */}
-      <div className="relative w-2/3 h-full">
+      <div
+        className="relative w-2/3 h-full"
+        onDragEnter={handleDragEnter}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+      >
         <div ref={mapRef} className="h-full w-full z-0" />
 
-        {/* Basemap Controls - Bottom Left */}
-        <div className="absolute bottom-4 left-4 z-[1000] flex flex-col gap-2">
-          <div className="bg-white shadow-lg rounded-lg p-2 space-y-1">
-            <div className="text-[10px] font-semibold text-gray-600 px-1 mb-1">Basemap</div>
-            <button
-              onClick={() => switchBasemap("streets")}
-              className={`w-full px-2 py-1 text-xs rounded transition-colors ${
-                currentBasemapRef.current === "streets"
-                  ? "bg-blue-500 text-white"
-                  : "bg-gray-100 hover:bg-gray-200 text-gray-700"
-              }`}
-            >
-              Streets
-            </button>
-            <button
-              onClick={() => switchBasemap("lightGray")}
-              className={`w-full px-2 py-1 text-xs rounded transition-colors ${
-                currentBasemapRef.current === "lightGray"
-                  ? "bg-blue-500 text-white"
-                  : "bg-gray-100 hover:bg-gray-200 text-gray-700"
-              }`}
-            >
-              Light Gray
-            </button>
-            <button
-              onClick={() => switchBasemap("darkGray")}
-              className={`w-full px-2 py-1 text-xs rounded transition-colors ${
-                currentBasemapRef.current === "darkGray"
-                  ? "bg-blue-500 text-white"
-                  : "bg-gray-100 hover:bg-gray-200 text-gray-700"
-              }`}
-            >
-              Dark Gray
+        {/* Drop Target Overlay */}
+        {isDragOver && (
+          <div className="absolute inset-0 z-[1100] pointer-events-none border-4 border-dashed border-blue-500 bg-blue-500/10 flex items-center justify-center">
+            <div className="bg-white shadow-lg rounded-lg px-4 py-3 text-sm font-medium text-gray-700">
+              Drop files to attach them at this location
+            </div>
+          </div>
+        )}
+
+        {dropError && (
+          <div className="absolute top-4 left-1/2 -translate-x-1/2 z-[1000] bg-red-50 border border-red-200 text-red-700 shadow-lg rounded-lg px-3 py-2 text-xs flex items-center gap-2">
+            <span>{dropError}</span>
+            <button onClick={() => setDropError(null)} className="font-semibold hover:text-red-900" title="Dismiss">
+              ✕
             </button>
-            <button
-              onClick={() => switchBasemap("imagery")}
-              className={`w-full px-2 py-1 text-xs rounded transition-colors ${
-                currentBasemapRef.current === "imagery"
-                  ? "bg-blue-500 text-white"
-                  : "bg-gray-100 hover:bg-gray-200 text-gray-700"
-              }`}
-            >
-              Imagery
+          </div>
+        )}
+
+        {saveError && (
+          <div className="absolute top-16 left-1/2 -translate-x-1/2 z-[1000] bg-red-50 border border-red-200 text-red-700 shadow-lg rounded-lg px-3 py-2 text-xs flex items-center gap-2">
+            <span>{saveError}</span>
+            <button onClick={persistState} className="font-semibold text-blue-600 hover:underline">
+              Retry
             </button>
           </div>
+        )}
+
+        {(recordsLoading || recordsError) && (
+          <div className="absolute bottom-16 right-4 z-[1000] bg-white shadow-lg rounded-lg px-3 py-2 text-xs flex items-center gap-2">
+            {recordsError ? (
+              <>
+                <span className="text-red-700">{recordsError}</span>
+                <button
+                  onClick={() => reloadRecordsRef.current?.()}
+                  className="font-semibold text-blue-600 hover:underline"
+                >
+                  Retry
+                </button>
+              </>
+            ) : (
+              <>
+                <span className="inline-block w-3 h-3 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" />
+                <span className="text-gray-700">Loading records…</span>
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Layer Panel - Top Right */}
+        <div className="absolute top-4 right-4 z-[1000] w-60 bg-white shadow-lg rounded-lg text-xs">
+          <button
+            onClick={() => setIsLayerPanelOpen((open) => !open)}
+            className="w-full px-3 py-2 flex items-center justify-between font-semibold text-gray-700"
+          >
+            <span>Layers</span>
+            <span className="text-gray-400">{isLayerPanelOpen ? "▾" : "▸"}</span>
+          </button>
+
+          {isLayerPanelOpen && (
+            <div className="px-2 pb-2 space-y-3 max-h-[60vh] overflow-y-auto">
+              <div className="space-y-1">
+                <div className="text-[10px] font-semibold text-gray-600 px-1">Overlays (topmost first)</div>
+                {layerPanelState.overlays.map((overlay, index) => (
+                  <div
+                    key={overlay.id}
+                    onDragOver={(e) => {
+                      if (draggedOverlay === null) return
+                      e.preventDefault()
+                      e.dataTransfer.dropEffect = "move"
+                    }}
+                    onDrop={(e) => {
+                      e.preventDefault()
+                      dropOverlay(index)
+                    }}
+                    className={`rounded p-1.5 ${draggedOverlay === index ? "bg-blue-50 opacity-60" : "bg-gray-50"}`}
+                  >
+                    <div className="flex items-center gap-1.5">
+                      <span
+                        draggable
+                        onDragStart={(e) => {
+                          e.dataTransfer.effectAllowed = "move"
+                          e.dataTransfer.setData("text/plain", overlay.id)
+                          setDraggedOverlay(index)
+                        }}
+                        onDragEnd={() => setDraggedOverlay(null)}
+                        className="cursor-grab text-gray-400 select-none"
+                        title="Drag to reorder"
+                      >
+                        ⋮⋮
+                      </span>
+                      <label className="flex-1 min-w-0 flex items-center gap-1.5 text-gray-700 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={overlay.visible}
+                          onChange={(e) => updateOverlay(overlay.id, { visible: e.target.checked })}
+                        />
+                        <span className="truncate">{overlayNames[overlay.id]}</span>
+                      </label>
+                      {overlay.id in overlayCounts && (
+                        <span className="bg-gray-200 text-gray-600 px-1.5 rounded text-[10px]">
+                          {overlayCounts[overlay.id]}
+                        </span>
+                      )}
+                    </div>
+                    <input
+                      type="range"
+                      min={0}
+                      max={100}
+                      value={Math.round(overlay.opacity * 100)}
+                      onChange={(e) => updateOverlay(overlay.id, { opacity: Number(e.target.value) / 100 })}
+                      disabled={!overlay.visible}
+                      className="w-full mt-1"
+                      title={`Opacity: ${Math.round(overlay.opacity * 100)}%`}
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-1">
+                <div className="text-[10px] font-semibold text-gray-600 px-1">Basemap</div>
+                {Object.entries(basemaps).map(([key, source]) => (
+                  <label key={key} className="flex items-center gap-1.5 px-1 text-gray-700 cursor-pointer">
+                    <input
+                      type="radio"
+                      checked={layerPanelState.basemap === key}
+                      onChange={() => updateLayerPanel({ ...layerPanelState, basemap: key })}
+                    />
+                    {source.name}
+                  </label>
+                ))}
+                <input
+                  type="range"
+                  min={0}
+                  max={100}
+                  value={Math.round(layerPanelState.basemapOpacity * 100)}
+                  onChange={(e) =>
+                    updateLayerPanel({ ...layerPanelState, basemapOpacity: Number(e.target.value) / 100 })
+                  }
+                  className="w-full"
+                  title={`Opacity: ${Math.round(layerPanelState.basemapOpacity * 100)}%`}
+                />
+              </div>
+            </div>
+          )}
+        </div>
 
+        {/* Map Controls - Bottom Left */}
+        <div className="absolute bottom-4 left-4 z-[1000] flex flex-col gap-2">
           <div className="bg-white shadow-lg rounded-lg p-2 space-y-1">
             <button
               onClick={recenterMap}
@@ -989,6 +3917,14 @@ export function MapWithDrawing({
           </div>
         </div>
 
+        {/* Cursor Coordinates - Bottom Right */}
+        <div className="absolute bottom-4 right-4 z-[1000] bg-white/90 shadow-lg rounded-lg px-2 py-1 text-[10px] text-gray-700">
+          <div className="font-semibold text-gray-600">{crs}</div>
+          <div ref={cursorReadoutRef} className="font-mono">
+            —
+          </div>
+        </div>
+
         {/* Drawn Features Panel - Bottom Center */}
         {drawnFeatures.length > 0 && (
           <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-[1000] bg-white shadow-lg rounded-lg overflow-hidden max-w-md">
@@ -1000,34 +3936,169 @@ export function MapWithDrawing({
               <span className="bg-white/20 px-2 py-0.5 rounded text-xs">{drawnFeatures.length} features</span>
             </div>
 
-            <div className="p-3 max-h-80 overflow-y-auto">
+            <div className="p-3">
+              {selectedFeatures.length > 0 && (
+                <div className="text-xs mb-3 bg-emerald-50 border border-emerald-200 p-2 rounded space-y-1.5">
+                  <div className="flex items-center justify-between">
+                    <span className="font-semibold text-emerald-800">{selectedFeatures.length} selected</span>
+                    <button onClick={() => selectFeature(null)} className="text-[10px] text-gray-600 hover:underline">
+                      Clear selection
+                    </button>
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    <button
+                      onClick={zoomToSelection}
+                      className="px-2 py-0.5 bg-white border border-gray-200 rounded text-[10px] hover:bg-gray-100 transition-colors"
+                    >
+                      Zoom To
+                    </button>
+                    <button
+                      onClick={() => moveSelectedFeatures("workArea")}
+                      disabled={selectedFeatures.every((f) => f.layerType === "workArea")}
+                      className="px-2 py-0.5 bg-white border border-gray-200 rounded text-[10px] hover:bg-gray-100 transition-colors disabled:opacity-50"
+                    >
+                      Move to Work Areas
+                    </button>
+                    <button
+                      onClick={() => moveSelectedFeatures("record")}
+                      disabled={selectedFeatures.every((f) => f.layerType === "record")}
+                      className="px-2 py-0.5 bg-white border border-gray-200 rounded text-[10px] hover:bg-gray-100 transition-colors disabled:opacity-50"
+                    >
+                      Move to Records
+                    </button>
+                    <button
+                      onClick={() => downloadFeatures(selectedFeatures, "selection")}
+                      className="px-2 py-0.5 bg-white border border-gray-200 rounded text-[10px] hover:bg-gray-100 transition-colors"
+                    >
+                      Export ({EXPORT_FORMATS[exportFormat].name})
+                    </button>
+                    <button
+                      onClick={deleteSelectedFeatures}
+                      className="px-2 py-0.5 bg-red-500 text-white rounded text-[10px] hover:bg-red-600 transition-colors"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                  {bulkAttributeFields.length > 0 && (
+                    <div className="flex items-center gap-1">
+                      <select
+                        value={bulkAttribute.key}
+                        onChange={(e) => {
+                          setBulkAttribute({ key: e.target.value, value: "" })
+                          setBulkError(null)
+                        }}
+                        className="px-1 py-0.5 rounded border border-gray-200 bg-white text-[10px]"
+                        aria-label="Attribute"
+                      >
+                        <option value="">Set attribute…</option>
+                        {bulkAttributeFields
+                          .filter((field, i, fields) => fields.findIndex((f) => f.key === field.key) === i)
+                          .map((field) => (
+                            <option key={field.key} value={field.key}>
+                              {field.label}
+                            </option>
+                          ))}
+                      </select>
+                      {(() => {
+                        const field = bulkAttributeFields.find((f) => f.key === bulkAttribute.key)
+                        if (!field) return null
+                        const setValue = (value: string) => setBulkAttribute({ key: field.key, value })
+                        return field.kind === "select" ? (
+                          <select
+                            value={bulkAttribute.value}
+                            onChange={(e) => setValue(e.target.value)}
+                            className="flex-1 min-w-0 px-1 py-0.5 rounded border border-gray-200 bg-white text-[10px]"
+                            aria-label={field.label}
+                          >
+                            <option value="">—</option>
+                            {field.options?.map((option) => (
+                              <option key={option} value={option}>
+                                {option}
+                              </option>
+                            ))}
+                          </select>
+                        ) : (
+                          <input
+                            type={field.kind}
+                            step={field.kind === "number" ? "any" : undefined}
+                            value={bulkAttribute.value}
+                            onChange={(e) => setValue(e.target.value)}
+                            className="flex-1 min-w-0 px-1 py-0.5 rounded border border-gray-200 bg-white text-[10px]"
+                            aria-label={field.label}
+                          />
+                        )
+                      })()}
+                      <button
+                        onClick={setSelectedAttribute}
+                        disabled={!bulkAttribute.key}
+                        className="px-2 py-0.5 bg-green-500 text-white rounded text-[10px] hover:bg-green-600 transition-colors disabled:opacity-50"
+                      >
+                        Apply
+                      </button>
+                    </div>
+                  )}
+                  {bulkError && <div className="text-[10px] text-red-600">{bulkError}</div>}
+                  {exportError && <div className="text-[10px] text-red-600">{exportError}</div>}
+                </div>
+              )}
+
               <div className="text-[10px] text-gray-500 mb-3">
-                Projection: WGS84 (EPSG:4326) • Click feature to view details
+                Projection: {CRS_DEFINITIONS[crs].name} ({crs}) • Click feature to view details, Shift-click to select
+                several
+                {topologyIssues.length > 0 && (
+                  <span className="text-amber-700 font-semibold">
+                    {" "}
+                    • {topologyIssues.length} topology {topologyIssues.length === 1 ? "issue" : "issues"}
+                  </span>
+                )}
               </div>
 
-              <div className="space-y-2">
-                {drawnFeatures.map((feature, index) => (
+              {/* Only the cards in view are mounted; their heights are measured as they expand */}
+              <VirtualList
+                items={drawnFeatures}
+                estimateSize={140}
+                gap={8}
+                getKey={(feature) => feature.id}
+                className="max-h-80 overflow-y-auto"
+                renderItem={(feature, index) => (
                   <div
-                    key={feature.id}
                     className={`border rounded-lg p-2 transition-all cursor-pointer ${
-                      selectedFeatureId === feature.id
+                      selectedFeatureIds.has(feature.id)
                         ? "border-green-500 bg-green-50 shadow-md"
                         : "border-gray-200 hover:border-green-300 hover:bg-gray-50"
                     }`}
-                    onClick={() => zoomToFeature(feature)}
+                    onClick={(e) => (e.shiftKey ? selectFeature(feature.id, true) : zoomToFeature(feature))}
                   >
                     <div className="flex items-center justify-between mb-2">
                       <div className="flex items-center gap-2">
                         <span
                           className={`font-semibold capitalize text-sm ${
-                            selectedFeatureId === feature.id ? "text-green-700" : "text-gray-700"
+                            selectedFeatureIds.has(feature.id) ? "text-green-700" : "text-gray-700"
                           }`}
                         >
-                          {feature.type} {index + 1}
+                          {feature.name ?? `${feature.type} ${index + 1}`}
                         </span>
-                        {selectedFeatureId === feature.id && (
+                        {selectedFeatureIds.has(feature.id) && (
                           <span className="text-[10px] bg-green-500 text-white px-1.5 py-0.5 rounded">Selected</span>
                         )}
+                        {(() => {
+                          const problems = geometryProblems.get(feature.id) ?? []
+                          const invalid = problems.some((p) => p.severity === "error")
+                          return (
+                            <span
+                              className={`text-[10px] px-1.5 py-0.5 rounded ${
+                                invalid
+                                  ? "bg-red-100 text-red-700"
+                                  : problems.length > 0
+                                    ? "bg-amber-100 text-amber-800"
+                                    : "bg-emerald-100 text-emerald-700"
+                              }`}
+                              title={problems.map((p) => p.message).join("\n") || "Geometry is valid"}
+                            >
+                              {invalid ? "Invalid" : problems.length > 0 ? "Warning" : "Valid"}
+                            </span>
+                          )
+                        })()}
                       </div>
                       <button
                         onClick={(e) => {
@@ -1046,22 +4117,300 @@ export function MapWithDrawing({
                         <div className="font-semibold text-gray-600 mb-1">Area</div>
                         <div className="font-mono">{sqMetersToHectares(feature.area).toFixed(4)} hectares</div>
                         <div className="text-[10px] text-gray-500">({feature.area.toFixed(2)} m²)</div>
+                        {feature.perimeter != null && (
+                          <div className="text-[10px] text-gray-500">Perimeter: {formatLength(feature.perimeter)}</div>
+                        )}
+                      </div>
+                    )}
+
+                    {feature.length != null && (
+                      <div className="text-xs text-gray-700 mb-2 bg-gray-50 p-2 rounded">
+                        <div className="font-semibold text-gray-600 mb-1">Length</div>
+                        <div className="font-mono">{formatLength(feature.length)}</div>
+                      </div>
+                    )}
+
+                    {feature.buffer && (
+                      <div className="text-[10px] text-gray-600 mb-2">
+                        Buffer of{" "}
+                        {drawnFeatures.find((f) => f.id === feature.buffer!.sourceId)?.name ??
+                          (drawnFeatures.some((f) => f.id === feature.buffer!.sourceId)
+                            ? "a drawn feature"
+                            : "a removed feature")}{" "}
+                        ({formatBufferSource(feature.buffer)})
+                      </div>
+                    )}
+
+                    {selectedFeatureId === feature.id && isOverlayPolygon(feature) && (
+                      <div
+                        className="text-xs text-gray-700 mb-2 bg-gray-50 p-2 rounded space-y-1"
+                        onClick={(e) => e.stopPropagation()}
+                      >
+                        <div className="font-semibold text-gray-600">Geometry Operations</div>
+                        <div className="flex items-center gap-1">
+                          <select
+                            value={overlayOperandId}
+                            onChange={(e) => setOverlayOperandId(e.target.value)}
+                            className="flex-1 min-w-0 px-1 py-0.5 rounded border border-gray-200 bg-white text-[10px]"
+                            aria-label="Second polygon"
+                          >
+                            <option value="">With polygon…</option>
+                            {drawnFeatures
+                              .filter((f) => f.id !== feature.id && isOverlayPolygon(f))
+                              .map((f) => (
+                                <option key={f.id} value={f.id}>
+                                  {f.name ?? `Record ${f.id.slice(-4)}`}
+                                </option>
+                              ))}
+                          </select>
+                          {(["union", "difference", "intersection"] as const).map((operation) => (
+                            <button
+                              key={operation}
+                              onClick={() => combineFeatures(feature, operation)}
+                              disabled={!overlayOperandId}
+                              className="px-2 py-0.5 bg-white border border-gray-200 rounded text-[10px] capitalize hover:bg-gray-100 transition-colors disabled:opacity-50"
+                            >
+                              {operation}
+                            </button>
+                          ))}
+                        </div>
+                        <div className="flex gap-1">
+                          <button
+                            onClick={() => (splitTargetId === feature.id ? cancelSplit() : startSplit(feature))}
+                            className={`px-2 py-0.5 rounded text-[10px] transition-colors ${
+                              splitTargetId === feature.id
+                                ? "bg-orange-500 text-white hover:bg-orange-600"
+                                : "bg-white border border-gray-200 hover:bg-gray-100"
+                            }`}
+                          >
+                            {splitTargetId === feature.id ? "Cancel Split" : "Split with Line"}
+                          </button>
+                          <button
+                            onClick={() => startCutHole(feature)}
+                            className="px-2 py-0.5 bg-white border border-gray-200 rounded text-[10px] hover:bg-gray-100 transition-colors"
+                          >
+                            Cut Hole
+                          </button>
+                        </div>
+                        {splitTargetId === feature.id && (
+                          <div className="text-[10px] text-gray-500">
+                            Draw a line across the polygon; double-click to finish
+                          </div>
+                        )}
+                        {operationError?.featureId === feature.id && (
+                          <div className="text-[10px] text-red-600">{operationError.message}</div>
+                        )}
+                      </div>
+                    )}
+
+                    {selectedFeatureId === feature.id && isBufferable(feature) && (
+                      <div
+                        className="text-xs text-gray-700 mb-2 bg-gray-50 p-2 rounded"
+                        onClick={(e) => e.stopPropagation()}
+                      >
+                        <div className="font-semibold text-gray-600 mb-1">Buffer</div>
+                        <div className="flex items-center gap-1">
+                          <input
+                            type="number"
+                            min="0"
+                            step="any"
+                            value={bufferDistance}
+                            onChange={(e) => setBufferDistance(e.target.value)}
+                            className="w-16 px-1 py-0.5 rounded border border-gray-200 bg-white text-[10px]"
+                            aria-label="Buffer distance in meters"
+                          />
+                          <span className="text-[10px] text-gray-500">m</span>
+                          {feature.type === "polyline" && (
+                            <select
+                              value={bufferCap}
+                              onChange={(e) => setBufferCap(e.target.value as BufferCap)}
+                              className="px-1 py-0.5 rounded border border-gray-200 bg-white text-[10px]"
+                              aria-label="End caps"
+                            >
+                              <option value="flat">Flat ends</option>
+                              <option value="round">Round ends</option>
+                            </select>
+                          )}
+                          <button
+                            onClick={() => createBuffer(feature)}
+                            disabled={!(Number(bufferDistance) > 0)}
+                            className="ml-auto px-2 py-0.5 bg-green-500 text-white rounded text-[10px] hover:bg-green-600 transition-colors disabled:opacity-50"
+                          >
+                            Create Work Area
+                          </button>
+                        </div>
+                      </div>
+                    )}
+
+                    {feature.layerType === "workArea" &&
+                      (() => {
+                        const matches = workAreaRecords.find((m) => m.workAreaId === feature.id)?.records
+                        if (!matches) return null
+                        return (
+                          <div className="text-[10px] text-gray-600 mb-2">
+                            {matches.length === 0
+                              ? "No records intersect this work area"
+                              : `${matches.length} intersecting ${matches.length === 1 ? "record" : "records"}`}
+                          </div>
+                        )
+                      })()}
+
+                    {/* Geometry problems with one-click repairs */}
+                    {(geometryProblems.get(feature.id) ?? []).length > 0 && (
+                      <div
+                        className="text-[10px] mb-2 bg-red-50 border border-red-200 p-2 rounded space-y-1"
+                        onClick={(e) => e.stopPropagation()}
+                      >
+                        {geometryProblems.get(feature.id)!.map((problem) => (
+                          <div
+                            key={problem.type}
+                            className={problem.severity === "error" ? "text-red-700" : "text-amber-800"}
+                          >
+                            {problem.severity === "error" ? "✕" : "⚠"} {problem.message}
+                          </div>
+                        ))}
+                        {feature.layerType === "workArea" &&
+                          geometryProblems.get(feature.id)!.some((p) => p.severity === "error") && (
+                            <div className="text-gray-600">Not reported as a work area until repaired</div>
+                          )}
+                        <div className="flex flex-wrap gap-1 pt-1">
+                          {Array.from(new Set(geometryProblems.get(feature.id)!.map((p) => p.repair))).map((repair) => (
+                            <button
+                              key={repair}
+                              onClick={() => repairFeature(feature, repair)}
+                              className="px-2 py-0.5 bg-white border border-gray-200 rounded hover:bg-gray-100 transition-colors"
+                            >
+                              {repair === "makeValid"
+                                ? "Make Valid"
+                                : repair === "removeDuplicates"
+                                  ? "Remove Duplicates"
+                                  : "Fix Orientation"}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    {/* Topology issues; click one to zoom to it */}
+                    {topologyIssues.some((issue) => issue.featureId === feature.id) && (
+                      <div className="text-[10px] mb-2 bg-amber-50 border border-amber-200 p-2 rounded space-y-0.5">
+                        {topologyIssues
+                          .filter((issue) => issue.featureId === feature.id)
+                          .map((issue, i) => (
+                            <button
+                              key={i}
+                              onClick={(e) => {
+                                e.stopPropagation()
+                                const map = mapInstanceRef.current
+                                map?.setView(issue.location, Math.max(map.getZoom(), 18))
+                              }}
+                              className="block w-full text-left text-amber-800 hover:underline"
+                            >
+                              ⚠ {issue.message}
+                            </button>
+                          ))}
+                      </div>
+                    )}
+
+                    {/* Attributes: summary when collapsed, form when selected */}
+                    {selectedFeatureId !== feature.id && feature.attributes && (
+                      <div className="text-[10px] text-gray-600 mb-2 truncate">
+                        {Object.values(feature.attributes).join(" • ")}
                       </div>
                     )}
+                    {selectedFeatureId === feature.id &&
+                      getAttributeFields(getAttributeSchema(feature.layerType)).length > 0 && (
+                        <div
+                          className="text-xs text-gray-700 mb-2 bg-gray-50 p-2 rounded space-y-1"
+                          onClick={(e) => e.stopPropagation()}
+                        >
+                          <div className="font-semibold text-gray-600 mb-1">Attributes</div>
+                          {getAttributeFields(getAttributeSchema(feature.layerType)).map((field) => {
+                            const error =
+                              attributeDraft?.featureId === feature.id ? attributeDraft.errors[field.key] : null
+                            const value = getAttributeValues(feature)[field.key] ?? ""
+                            const setValue = (next: string) =>
+                              setAttributeDraft({
+                                featureId: feature.id,
+                                values: { ...getAttributeValues(feature), [field.key]: next },
+                                errors: {},
+                              })
+
+                            return (
+                              <label key={field.key} className="block">
+                                <div className="flex items-center justify-between gap-2">
+                                  <span className="text-[10px] text-gray-600">
+                                    {field.label}
+                                    {field.required && " *"}
+                                  </span>
+                                  {field.kind === "select" ? (
+                                    <select
+                                      value={value}
+                                      onChange={(e) => setValue(e.target.value)}
+                                      className="w-40 px-1 py-0.5 rounded border border-gray-200 bg-white text-[10px]"
+                                    >
+                                      <option value="">—</option>
+                                      {field.options?.map((option) => (
+                                        <option key={option} value={option}>
+                                          {option}
+                                        </option>
+                                      ))}
+                                    </select>
+                                  ) : (
+                                    <input
+                                      type={field.kind}
+                                      step={field.kind === "number" ? "any" : undefined}
+                                      value={value}
+                                      onChange={(e) => setValue(e.target.value)}
+                                      className={`w-40 px-1 py-0.5 rounded border bg-white text-[10px] ${
+                                        error ? "border-red-400" : "border-gray-200"
+                                      }`}
+                                    />
+                                  )}
+                                </div>
+                                {error && <div className="text-[10px] text-red-600 text-right">{error}</div>}
+                              </label>
+                            )
+                          })}
+                          <div className="flex justify-end gap-1 pt-1">
+                            <button
+                              onClick={() => setAttributeDraft(null)}
+                              className="px-2 py-0.5 bg-white border border-gray-200 rounded text-[10px] hover:bg-gray-100 transition-colors disabled:opacity-50"
+                              disabled={attributeDraft?.featureId !== feature.id}
+                            >
+                              Reset
+                            </button>
+                            <button
+                              onClick={() => saveAttributes(feature)}
+                              className="px-2 py-0.5 bg-green-500 text-white rounded text-[10px] hover:bg-green-600 transition-colors disabled:opacity-50"
+                              disabled={attributeDraft?.featureId !== feature.id}
+                            >
+                              Save Attributes
+                            </button>
+                          </div>
+                        </div>
+                      )}
 
                     <div className="text-xs">
                       <div className="font-semibold text-gray-600 mb-1">
                         Coordinates ({feature.coordinates.length}{" "}
                         {feature.coordinates.length === 1 ? "point" : "vertices"})
                       </div>
-                      <div className="text-[10px] text-gray-500 mb-1">[Latitude, Longitude]</div>
-                      <div className="max-h-32 overflow-y-auto bg-gray-50 p-2 rounded space-y-0.5">
-                        {formatCoordinates(feature.coordinates)}
+                      <div className="text-[10px] text-gray-500 mb-1">
+                        [{getAxisLabels(crs).join(", ")}]
+                        {CRS_DEFINITIONS[crs].units !== "degrees" && ` (${CRS_DEFINITIONS[crs].units})`}
                       </div>
+                      <VirtualList
+                        items={feature.coordinates}
+                        estimateSize={16}
+                        gap={2}
+                        renderItem={formatCoordinate}
+                        className="max-h-32 overflow-y-auto bg-gray-50 p-2 rounded"
+                      />
                     </div>
                   </div>
-                ))}
-              </div>
+                )}
+              />
             </div>
           </div>
         )}
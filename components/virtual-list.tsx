@@ -0,0 +1,56 @@
+"use client"
+
+import { useRef, type Key, type ReactNode } from "react"
+import { useVirtualizer } from "@tanstack/react-virtual"
+
+type VirtualListProps<T> = {
+  items: T[]
+  // Expected row height in pixels; rows are measured once rendered, so this only needs to be close
+  estimateSize: number
+  renderItem: (item: T, index: number) => ReactNode
+  getKey?: (item: T, index: number) => Key
+  className?: string
+  gap?: number
+  overscan?: number
+}
+
+/**
+ * Scrolling list that only mounts the rows in view. `className` must limit its height (e.g. `max-h-80 overflow-y-auto`).
+ */
+export function VirtualList<T>({
+  items,
+  estimateSize,
+  renderItem,
+  getKey,
+  className,
+  gap = 0,
+  overscan = 5,
+}: VirtualListProps<T>) {
+  const scrollRef = useRef<HTMLDivElement>(null)
+  const virtualizer = useVirtualizer({
+    count: items.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => estimateSize,
+    getItemKey: getKey ? (index) => getKey(items[index], index) : undefined,
+    gap,
+    overscan,
+  })
+
+  return (
+    <div ref={scrollRef} className={className}>
+      <div className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+        {virtualizer.getVirtualItems().map((row) => (
+          <div
+            key={row.key}
+            data-index={row.index}
+            ref={virtualizer.measureElement}
+            className="absolute left-0 top-0 w-full"
+            style={{ transform: `translateY(${row.start}px)` }}
+          >
+            {renderItem(items[row.index], row.index)}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
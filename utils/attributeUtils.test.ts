@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest"
+import { z } from "zod"
+import {
+  getAttributeFields,
+  parseAttributeInput,
+  pickSchemaAttributes,
+  UTILITY_RECORD_SCHEMA,
+} from "@/utils/attributeUtils"
+
+describe("getAttributeFields", () => {
+  it("derives form fields from the schema", () => {
+    const fields = getAttributeFields(UTILITY_RECORD_SCHEMA)
+    expect(fields.map((field) => field.key)).toEqual([
+      "utilityType",
+      "owner",
+      "depth",
+      "material",
+      "diameter",
+      "installDate",
+      "confidence",
+    ])
+    expect(fields[0]).toMatchObject({ kind: "select", label: "Utility type", required: false })
+    expect(fields[2].kind).toBe("number")
+    expect(fields[5].kind).toBe("date")
+  })
+
+  it("rejects schemas reusing built-in property names", () => {
+    expect(() => getAttributeFields(z.object({ owner: z.string(), area: z.number() }))).toThrow(
+      'Attribute "area" clashes with a built-in feature property',
+    )
+    expect(() => getAttributeFields(z.object({ name: z.string().optional() }))).toThrow()
+  })
+})
+
+describe("parseAttributeInput", () => {
+  it("converts numbers and skips empty inputs", () => {
+    expect(parseAttributeInput(UTILITY_RECORD_SCHEMA, { depth: " 1.5 ", owner: "" })).toEqual({
+      success: true,
+      attributes: { depth: 1.5 },
+    })
+  })
+
+  it("reports errors per field", () => {
+    const result = parseAttributeInput(UTILITY_RECORD_SCHEMA, { depth: "-1", installDate: "2024/01/01" })
+    expect(result.success).toBe(false)
+    if (!result.success) expect(Object.keys(result.errors).sort()).toEqual(["depth", "installDate"])
+  })
+})
+
+describe("pickSchemaAttributes", () => {
+  it("keeps only valid schema properties", () => {
+    expect(
+      pickSchemaAttributes(UTILITY_RECORD_SCHEMA, { utilityType: "gas", diameter: "150", confidence: "Z", foo: 1 }),
+    ).toEqual({ utilityType: "gas", diameter: 150 })
+  })
+})
@@ -0,0 +1,154 @@
+import { z } from "zod"
+
+/**
+ * Attribute values stored on a drawn feature
+ */
+export type FeatureAttributes = Record<string, string | number>
+
+/**
+ * Zod object schema describing the attributes of a layer's features.
+ * Field labels come from `.describe()`.
+ */
+export type AttributeSchema = z.AnyZodObject
+
+export const UTILITY_TYPES = ["gas", "water", "telecom", "electric", "sewer"] as const
+
+// ASCE 38 utility quality levels, from exposed and surveyed (A) down to records only (D)
+export const CONFIDENCE_LEVELS = ["A", "B", "C", "D"] as const
+
+/**
+ * Default schema for utility records
+ */
+export const UTILITY_RECORD_SCHEMA = z.object({
+  utilityType: z.enum(UTILITY_TYPES).describe("Utility type").optional(),
+  owner: z.string().trim().min(1).max(100).describe("Owner").optional(),
+  depth: z.number().nonnegative().max(100).describe("Depth (m)").optional(),
+  material: z.string().trim().min(1).max(50).describe("Material").optional(),
+  diameter: z.number().positive().max(5000).describe("Diameter (mm)").optional(),
+  installDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD")
+    .describe("Install date")
+    .optional(),
+  confidence: z.enum(CONFIDENCE_LEVELS).describe("Confidence (quality level)").optional(),
+})
+
+/**
+ * Default schema for work areas: no attributes beyond the name
+ */
+export const WORK_AREA_SCHEMA = z.object({})
+
+/**
+ * Properties every exported feature carries; attributes can't reuse these names
+ */
+export const RESERVED_ATTRIBUTE_KEYS = ["id", "name", "layerType", "area", "length", "perimeter"] as const
+
+/**
+ * A form field derived from a schema property
+ */
+export type AttributeField = {
+  key: string
+  label: string
+  kind: "text" | "number" | "date" | "select"
+  options?: string[]
+  required: boolean
+}
+
+/**
+ * Strip optional/nullable/default wrappers from a schema property
+ * @param type Schema property
+ * @returns Inner type and whether the property may be left empty
+ */
+function unwrapField(type: z.ZodTypeAny): { inner: z.ZodTypeAny; required: boolean } {
+  let inner = type
+  let required = true
+  while (inner instanceof z.ZodOptional || inner instanceof z.ZodNullable || inner instanceof z.ZodDefault) {
+    required = false
+    inner = inner instanceof z.ZodDefault ? inner._def.innerType : inner.unwrap()
+  }
+  return { inner, required }
+}
+
+/**
+ * List the form fields of an attribute schema, in declaration order
+ * @param schema Attribute schema
+ * @returns One field per schema property
+ * @throws If a property uses one of the reserved names
+ */
+export function getAttributeFields(schema: AttributeSchema): AttributeField[] {
+  return Object.entries(schema.shape as Record<string, z.ZodTypeAny>).map(([key, type]) => {
+    if ((RESERVED_ATTRIBUTE_KEYS as readonly string[]).includes(key)) {
+      throw new Error(`Attribute "${key}" clashes with a built-in feature property`)
+    }
+    const { inner, required } = unwrapField(type)
+    const label = type.description ?? inner.description ?? key
+
+    if (inner instanceof z.ZodEnum) {
+      return { key, label, kind: "select", options: inner.options as string[], required }
+    }
+    if (inner instanceof z.ZodNumber) {
+      return { key, label, kind: "number", required }
+    }
+    if (key.toLowerCase().endsWith("date")) {
+      return { key, label, kind: "date", required }
+    }
+    return { key, label, kind: "text", required }
+  })
+}
+
+/**
+ * Validate form input against an attribute schema.
+ * Empty inputs are treated as missing and number fields are converted from text.
+ * @param schema Attribute schema
+ * @param values Raw form values keyed by field
+ * @returns Parsed attributes, or an error message per invalid field
+ */
+export function parseAttributeInput(
+  schema: AttributeSchema,
+  values: Record<string, string>,
+): { success: true; attributes: FeatureAttributes } | { success: false; errors: Record<string, string> } {
+  const fields = getAttributeFields(schema)
+  const input: Record<string, unknown> = {}
+
+  fields.forEach((field) => {
+    const raw = values[field.key]?.trim() ?? ""
+    if (raw === "") return
+    input[field.key] = field.kind === "number" ? Number(raw) : raw
+  })
+
+  const result = schema.safeParse(input)
+  if (result.success) {
+    return { success: true, attributes: result.data as FeatureAttributes }
+  }
+
+  const errors: Record<string, string> = {}
+  result.error.issues.forEach((issue) => {
+    const key = String(issue.path[0] ?? "")
+    errors[key] ??= issue.message
+  })
+  return { success: false, errors }
+}
+
+/**
+ * Keep the properties of an imported feature that are valid attributes for a schema
+ * @param schema Attribute schema
+ * @param properties GeoJSON feature properties
+ * @returns Valid attributes; invalid or unknown properties are dropped
+ */
+export function pickSchemaAttributes(schema: AttributeSchema, properties: Record<string, unknown>): FeatureAttributes {
+  const attributes: FeatureAttributes = {}
+
+  getAttributeFields(schema).forEach((field) => {
+    const value = properties[field.key]
+    if (value == null || value === "") return
+
+    const parsed = (schema.shape[field.key] as z.ZodTypeAny).safeParse(
+      field.kind === "number" && typeof value === "string" ? Number(value) : value,
+    )
+    if (parsed.success && parsed.data != null) {
+      attributes[field.key] = parsed.data
+    }
+  })
+
+  return attributes
+}
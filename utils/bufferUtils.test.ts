@@ -0,0 +1,85 @@
+import { describe, expect, it, vi } from "vitest"
+import type { LatLng } from "@/utils/mapUtils"
+import { bufferFeature, formatBufferSource, isBufferable } from "@/utils/bufferUtils"
+import { geodesicPolygonArea } from "@/utils/measurementUtils"
+import type { PersistedFeature } from "@/utils/storageUtils"
+
+// Leaflet needs a browser to load; the geometry helpers under test don't use it
+vi.mock("leaflet", () => ({ default: {} }))
+
+const ll = (lat: number, lng: number): LatLng => ({ lat, lng })
+
+const feature = (type: PersistedFeature["type"], ...coordinates: LatLng[]): PersistedFeature => ({
+  id: "feature-1",
+  type,
+  coordinates,
+  layerType: "record",
+})
+
+// About 1113 m east along the equator
+const LINE = feature("polyline", ll(0, 0), ll(0, 0.01))
+const LINE_LENGTH = 1113.19490793
+
+const longitudes = (parts: LatLng[][][]) => parts.flat(2).map((c) => c.lng)
+
+// Buffers are offset on a sphere but measured on the ellipsoid, so areas agree to within a percent
+const expectArea = (parts: LatLng[][][], expected: number) =>
+  expect(Math.abs(geodesicPolygonArea(parts) - expected) / expected).toBeLessThan(0.01)
+
+describe("bufferFeature", () => {
+  it("ends flat-cap buffers at the line's end points", () => {
+    const parts = bufferFeature(LINE, 10, "flat")!
+    expect(Math.min(...longitudes(parts))).toBeCloseTo(0, 12)
+    expect(Math.max(...longitudes(parts))).toBeCloseTo(0.01, 12)
+    expectArea(parts, 2 * 10 * LINE_LENGTH)
+  })
+
+  it("rounds buffers past the line's end points by the distance", () => {
+    const parts = bufferFeature(LINE, 10)!
+    // 10 m is about 0.0000898° of longitude at the equator
+    expect(Math.min(...longitudes(parts))).toBeCloseTo(-0.0000898, 6)
+    expect(Math.max(...longitudes(parts))).toBeCloseTo(0.0100898, 6)
+    expectArea(parts, 2 * 10 * LINE_LENGTH + Math.PI * 10 ** 2)
+  })
+
+  it("joins the segments of a bent flat-cap buffer", () => {
+    const parts = bufferFeature(feature("polyline", ll(0, 0), ll(0, 0.01), ll(0.01, 0.01)), 10, "flat")!
+    expect(parts).toHaveLength(1)
+    expect(parts[0]).toHaveLength(1)
+  })
+
+  it("buffers points to a circle", () => {
+    const parts = bufferFeature(feature("marker", ll(45, 7)), 50)!
+    expect(parts).toHaveLength(1)
+    expectArea(parts, Math.PI * 50 ** 2)
+  })
+
+  it("returns null for non-positive distances", () => {
+    expect(bufferFeature(LINE, 0)).toBeNull()
+    expect(bufferFeature(LINE, -5)).toBeNull()
+    expect(bufferFeature(LINE, NaN)).toBeNull()
+    expect(bufferFeature(feature("marker", ll(45, 7)), 0)).toBeNull()
+  })
+
+  it("returns null for lines without length and for polygons", () => {
+    const zeroLength = feature("polyline", ll(1, 1), ll(1, 1))
+    expect(bufferFeature(zeroLength, 10, "flat")).toBeNull()
+    expect(bufferFeature(zeroLength, 10, "round")).toBeNull()
+    expect(bufferFeature(feature("polyline", ll(1, 1)), 10)).toBeNull()
+    expect(bufferFeature(feature("polyline"), 10)).toBeNull()
+    expect(bufferFeature(feature("polygon", ll(0, 0), ll(0, 1), ll(1, 1)), 10)).toBeNull()
+  })
+})
+
+describe("buffer helpers", () => {
+  it("only buffers lines and points", () => {
+    expect(isBufferable(LINE)).toBe(true)
+    expect(isBufferable(feature("marker", ll(0, 0)))).toBe(true)
+    expect(isBufferable(feature("rectangle", ll(0, 0), ll(1, 1)))).toBe(false)
+  })
+
+  it("describes buffer links", () => {
+    expect(formatBufferSource({ sourceId: "feature-1", distance: 3, cap: "flat" })).toBe("3 m, flat ends")
+    expect(formatBufferSource({ sourceId: "feature-1", distance: 3 })).toBe("3 m")
+  })
+})
@@ -0,0 +1,106 @@
+import { bearing, buffer, circle, destination, featureCollection, lineString, union } from "@turf/turf"
+import type { Feature, MultiPolygon, Polygon, Position } from "geojson"
+import { geoJSONToPolygonParts, type LatLng } from "@/utils/mapUtils"
+import type { PersistedFeature } from "@/utils/storageUtils"
+
+/**
+ * How a line buffer ends: rounded around the end points, or cut square across them
+ */
+export type BufferCap = "round" | "flat"
+
+/**
+ * Link from a buffer work area to the feature it was generated from
+ */
+export type BufferSource = {
+  sourceId: string
+  distance: number
+  // Line buffers only; point buffers are always circles
+  cap?: BufferCap
+}
+
+// Segments used for a quarter circle in rounded caps, joins and point buffers
+const QUARTER_STEPS = 16
+
+const toPosition = (c: LatLng): Position => [c.lng, c.lat]
+
+/**
+ * Buffer a line with flat end caps: a rectangle along each segment, with round joins between them
+ * @param coords Line vertices
+ * @param meters Buffer distance
+ * @returns Buffer polygon, or null if the line has no length
+ */
+function flatLineBuffer(coords: LatLng[], meters: number): Feature<Polygon | MultiPolygon> | null {
+  const positions = coords.map(toPosition)
+  const pieces: Feature<Polygon>[] = []
+
+  positions.slice(1).forEach((end, i) => {
+    const start = positions[i]
+    if (start[0] === end[0] && start[1] === end[1]) return
+
+    const heading = bearing(start, end)
+    const offset = (from: Position, side: number) =>
+      destination(from, meters, heading + side, { units: "meters" }).geometry.coordinates
+    const corners = [offset(start, -90), offset(end, -90), offset(end, 90), offset(start, 90)]
+    pieces.push({
+      type: "Feature",
+      geometry: { type: "Polygon", coordinates: [[...corners, corners[0]]] },
+      properties: {},
+    })
+  })
+
+  positions.slice(1, -1).forEach((vertex) => {
+    pieces.push(circle(vertex, meters, { units: "meters", steps: QUARTER_STEPS * 4 }))
+  })
+
+  if (pieces.length === 0) return null
+  return pieces.length === 1 ? pieces[0] : union(featureCollection(pieces))
+}
+
+/**
+ * Generate a buffer polygon around a line or point
+ * @param feature Drawn polyline or marker
+ * @param meters Buffer distance on each side, in meters
+ * @param cap End cap style for lines; points are always buffered to a circle (default: round)
+ * @returns Polygon parts of the buffer, or null for polygons, lines without length and non-positive distances
+ */
+export function bufferFeature(
+  feature: PersistedFeature,
+  meters: number,
+  cap: BufferCap = "round",
+): LatLng[][][] | null {
+  if (!(meters > 0) || feature.coordinates.length === 0) return null
+
+  if (feature.type === "marker") {
+    return geoJSONToPolygonParts(
+      circle(toPosition(feature.coordinates[0]), meters, { units: "meters", steps: QUARTER_STEPS * 4 }).geometry,
+    )
+  }
+
+  const [first, ...rest] = feature.coordinates
+  if (feature.type !== "polyline" || rest.every((c) => c.lat === first.lat && c.lng === first.lng)) return null
+
+  const result =
+    cap === "flat"
+      ? flatLineBuffer(feature.coordinates, meters)
+      : buffer(lineString(feature.coordinates.map(toPosition)), meters, { units: "meters", steps: QUARTER_STEPS })
+
+  return result ? geoJSONToPolygonParts(result.geometry) : null
+}
+
+/**
+ * Whether a feature can be buffered
+ * @param feature Drawn feature
+ * @returns True for polylines and markers
+ */
+export function isBufferable(feature: PersistedFeature): boolean {
+  return feature.type === "polyline" || feature.type === "marker"
+}
+
+/**
+ * Describe a buffer for display
+ * @param source Buffer link
+ * @returns E.g. "3 m, flat ends" for lines, "3 m" for points
+ */
+export function formatBufferSource(source: BufferSource): string {
+  return source.cap ? `${source.distance} m, ${source.cap} ends` : `${source.distance} m`
+}
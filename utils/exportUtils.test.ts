@@ -0,0 +1,206 @@
+import { describe, expect, it } from "vitest"
+import type { Feature, FeatureCollection, MultiPolygon, Polygon } from "geojson"
+import { exportFeatures, featuresToGeoJSON, toCSV, toDXF, toKML, toWKT } from "@/utils/exportUtils"
+import { parseSpatialData } from "@/utils/importUtils"
+import type { PersistedFeature } from "@/utils/storageUtils"
+
+const square: PersistedFeature = {
+  id: "feature-1",
+  type: "polygon",
+  name: "Site",
+  area: 100,
+  coordinates: [
+    { lat: 0, lng: 0 },
+    { lat: 0, lng: 1 },
+    { lat: 1, lng: 1 },
+  ],
+  layerType: "workArea",
+}
+
+const collection = (...features: Feature[]): FeatureCollection => ({ type: "FeatureCollection", features })
+
+const DONUT: Polygon = {
+  type: "Polygon",
+  coordinates: [
+    [
+      [0, 0],
+      [4, 0],
+      [4, 4],
+      [0, 4],
+      [0, 0],
+    ],
+    [
+      [1, 1],
+      [1, 2],
+      [2, 2],
+      [2, 1],
+      [1, 1],
+    ],
+  ],
+}
+
+describe("featuresToGeoJSON", () => {
+  it("closes polygon rings and carries attributes as properties", () => {
+    const [feature] = featuresToGeoJSON([{ ...square, attributes: { owner: "City" } }]).features
+    expect(feature.geometry).toEqual({
+      type: "Polygon",
+      coordinates: [
+        [
+          [0, 0],
+          [1, 0],
+          [1, 1],
+          [0, 0],
+        ],
+      ],
+    })
+    expect(feature.properties).toMatchObject({ id: "feature-1", name: "Site", layerType: "workArea", owner: "City" })
+  })
+
+  it("keeps built-in properties when an attribute has the same name", () => {
+    const [feature] = featuresToGeoJSON([
+      { ...square, attributes: { id: "ASSET-9", layerType: "pipe", area: 5, owner: "City" } },
+    ]).features
+    expect(feature.properties).toMatchObject({ id: "feature-1", layerType: "workArea", area: 100, owner: "City" })
+  })
+})
+
+describe("toKML", () => {
+  it("escapes names and attribute values", () => {
+    const kml = toKML(
+      collection({
+        type: "Feature",
+        geometry: { type: "Point", coordinates: [174.8, -41.3] },
+        properties: { name: 'Pipe <A> & "B"', owner: "Smith & Sons", "note<1>": "a<b" },
+      }),
+    )
+    expect(kml).toContain("<name>Pipe &lt;A&gt; &amp; &quot;B&quot;</name>")
+    expect(kml).toContain('<Data name="owner"><value>Smith &amp; Sons</value></Data>')
+    expect(kml).toContain('<Data name="note&lt;1&gt;"><value>a&lt;b</value></Data>')
+    expect(kml).toContain("<Point><coordinates>174.8,-41.3</coordinates></Point>")
+  })
+
+  it("falls back to the id for the name and skips empty properties", () => {
+    const kml = toKML(
+      collection({ type: "Feature", geometry: DONUT, properties: { id: "feature-1", name: null, area: null } }),
+    )
+    expect(kml).toContain("<name>feature-1</name>")
+    expect(kml).toContain('<ExtendedData><Data name="id"><value>feature-1</value></Data></ExtendedData>')
+    expect(kml).toContain("<innerBoundaryIs><LinearRing><coordinates>1,1 1,2 2,2 2,1 1,1</coordinates>")
+  })
+})
+
+describe("toWKT", () => {
+  it("writes polygon holes as extra rings", () => {
+    expect(toWKT(DONUT)).toBe("POLYGON ((0 0, 4 0, 4 4, 0 4, 0 0), (1 1, 1 2, 2 2, 2 1, 1 1))")
+  })
+
+  it("writes each polygon of a multi-polygon in its own parentheses", () => {
+    const geometry: MultiPolygon = {
+      type: "MultiPolygon",
+      coordinates: [
+        DONUT.coordinates,
+        [
+          [
+            [10, 10],
+            [11, 10],
+            [11, 11],
+            [10, 10],
+          ],
+        ],
+      ],
+    }
+    expect(toWKT(geometry)).toBe(
+      "MULTIPOLYGON (((0 0, 4 0, 4 4, 0 4, 0 0), (1 1, 1 2, 2 2, 2 1, 1 1)), ((10 10, 11 10, 11 11, 10 10)))",
+    )
+  })
+
+  it("rejects unsupported geometry types", () => {
+    expect(() => toWKT({ type: "MultiPoint", coordinates: [] })).toThrow("Unsupported geometry type: MultiPoint")
+  })
+})
+
+describe("toCSV", () => {
+  it("quotes values with commas, quotes and line breaks", () => {
+    const csv = toCSV(
+      collection(
+        {
+          type: "Feature",
+          geometry: { type: "Point", coordinates: [1, 2] },
+          properties: { name: "Main St, North", note: 'Said "deep"', remarks: "line 1\nline 2" },
+        },
+        { type: "Feature", geometry: { type: "Point", coordinates: [3, 4] }, properties: { name: "Plain", depth: 2 } },
+      ),
+    )
+    expect(csv).toBe(
+      [
+        "name,note,remarks,depth,wkt",
+        '"Main St, North","Said ""deep""","line 1\nline 2",,POINT (1 2)',
+        "Plain,,,2,POINT (3 4)",
+      ].join("\n"),
+    )
+  })
+
+  it("quotes WKT geometry with commas", () => {
+    const csv = toCSV(collection({ type: "Feature", geometry: DONUT, properties: {} }))
+    expect(csv).toBe(`wkt\n"${toWKT(DONUT)}"`)
+  })
+})
+
+describe("toDXF", () => {
+  // Group code and value lines between the ENTITIES header and its ENDSEC
+  const entities = (dxf: string) => {
+    const lines = dxf.split("\n")
+    return lines.slice(lines.indexOf("ENTITIES") + 1, lines.lastIndexOf("ENDSEC") - 1)
+  }
+
+  it("declares a layer per layer type and the XDATA application", () => {
+    const dxf = toDXF(
+      collection(
+        { type: "Feature", geometry: { type: "Point", coordinates: [1, 2] }, properties: { layerType: "record" } },
+        { type: "Feature", geometry: { type: "Point", coordinates: [3, 4] }, properties: { layerType: "workArea" } },
+      ),
+    )
+    expect(dxf).toContain(["0", "TABLE", "2", "LAYER", "70", "2"].join("\n"))
+    expect(dxf).toContain(["0", "LAYER", "2", "RECORD", "70", "0", "62", "7", "6", "CONTINUOUS"].join("\n"))
+    expect(dxf).toContain(["0", "LAYER", "2", "WORKAREA"].join("\n"))
+    expect(dxf).toContain(["0", "APPID", "2", "MAPWITHDRAWING", "70", "0"].join("\n"))
+    expect(dxf.endsWith(["0", "ENDSEC", "0", "EOF"].join("\n"))).toBe(true)
+  })
+
+  it("writes points with their properties as XDATA", () => {
+    const dxf = toDXF(
+      collection({
+        type: "Feature",
+        geometry: { type: "Point", coordinates: [1.5, 2.5] },
+        properties: { layerType: "record", owner: "City", area: null },
+      }),
+    )
+    expect(entities(dxf)).toEqual([
+      ...["0", "POINT", "8", "RECORD", "10", "1.5", "20", "2.5", "30", "0"],
+      ...["1001", "MAPWITHDRAWING", "1000", "layerType=record", "1000", "owner=City"],
+    ])
+  })
+
+  it("writes each polygon ring as a closed polyline without the closing vertex", () => {
+    const dxf = toDXF(collection({ type: "Feature", geometry: DONUT, properties: { layerType: "workArea" } }))
+    const ring = (positions: number[][]) => [
+      ...["0", "POLYLINE", "8", "WORKAREA", "66", "1", "10", "0", "20", "0", "30", "0", "70", "1"],
+      ...["1001", "MAPWITHDRAWING", "1000", "layerType=workArea"],
+      ...positions.flatMap(([x, y]) => ["0", "VERTEX", "8", "WORKAREA", "10", `${x}`, "20", `${y}`, "30", "0"]),
+      ...["0", "SEQEND", "8", "WORKAREA"],
+    ]
+    expect(entities(dxf)).toEqual([
+      ...ring(DONUT.coordinates[0].slice(0, -1)),
+      ...ring(DONUT.coordinates[1].slice(0, -1)),
+    ])
+  })
+})
+
+describe("exportFeatures", () => {
+  it("writes shapefiles that import back", async () => {
+    const blob = await exportFeatures([{ ...square, attributes: { owner: "City" } }], "shapefile")
+    const [feature] = await parseSpatialData("shapefile", await blob.arrayBuffer())
+    expect(feature.geometry).toMatchObject(featuresToGeoJSON([square]).features[0].geometry)
+    expect(feature.properties).toMatchObject({ id: "feature-1", name: "Site", layerType: "workArea", owner: "City" })
+  })
+})
@@ -0,0 +1,282 @@
+import { zip } from "@mapbox/shp-write"
+import type { Feature, FeatureCollection, Geometry, Position } from "geojson"
+import { CRS_DEFINITIONS, reprojectGeoJSON, type CrsCode } from "@/utils/projectionUtils"
+import type { PersistedFeature } from "@/utils/storageUtils"
+
+export type ExportFormat = "geojson" | "kml" | "shapefile" | "csv" | "dxf"
+
+export type ExportLayer = "workArea" | "record" | "all"
+
+export const EXPORT_FORMATS: Record<ExportFormat, { name: string; extension: string; mimeType: string }> = {
+  geojson: { name: "GeoJSON", extension: "geojson", mimeType: "application/geo+json" },
+  kml: { name: "KML", extension: "kml", mimeType: "application/vnd.google-earth.kml+xml" },
+  shapefile: { name: "Shapefile (zip)", extension: "zip", mimeType: "application/zip" },
+  csv: { name: "CSV (WKT)", extension: "csv", mimeType: "text/csv" },
+  dxf: { name: "DXF", extension: "dxf", mimeType: "application/dxf" },
+}
+
+/**
+ * Convert drawn features to a GeoJSON FeatureCollection, carrying id, name, layer type, measurements and attributes as properties
+ * @param features Drawn features
+ * @returns GeoJSON FeatureCollection with closed polygon rings
+ */
+export function featuresToGeoJSON(features: PersistedFeature[]): FeatureCollection {
+  return {
+    type: "FeatureCollection",
+    features: features.map((feature) => ({
+      type: "Feature",
+      geometry: featureGeometry(feature),
+      // Attributes first, so one named like a built-in property can't overwrite it
+      properties: {
+        ...feature.attributes,
+        id: feature.id,
+        name: feature.name ?? null,
+        layerType: feature.layerType,
+        area: feature.area ?? null,
+        length: feature.length ?? null,
+        perimeter: feature.perimeter ?? null,
+      },
+    })),
+  }
+}
+
+/**
+ * Build the GeoJSON geometry of a drawn feature
+ * @param feature Drawn feature
+ * @returns Point, LineString, Polygon or MultiPolygon geometry
+ */
+function featureGeometry(feature: PersistedFeature): Geometry {
+  const toPosition = (c: { lat: number; lng: number }): Position => [c.lng, c.lat]
+  const closeRing = (ring: { lat: number; lng: number }[]): Position[] => {
+    const positions = ring.map(toPosition)
+    return positions.length > 0 ? [...positions, positions[0]] : positions
+  }
+
+  if (feature.type === "marker") {
+    return { type: "Point", coordinates: toPosition(feature.coordinates[0]) }
+  }
+  if (feature.type === "polyline") {
+    return { type: "LineString", coordinates: feature.coordinates.map(toPosition) }
+  }
+
+  const parts = feature.parts ?? [[feature.coordinates]]
+  if (parts.length === 1) {
+    return { type: "Polygon", coordinates: parts[0].map(closeRing) }
+  }
+  return { type: "MultiPolygon", coordinates: parts.map((rings) => rings.map(closeRing)) }
+}
+
+/**
+ * Escape text for XML content
+ * @param value Raw value
+ * @returns XML-safe string
+ */
+function escapeXML(value: unknown): string {
+  return String(value).replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+}
+
+/**
+ * Convert a GeoJSON FeatureCollection to KML 2.2
+ * @param collection GeoJSON FeatureCollection
+ * @returns KML document
+ */
+export function toKML(collection: FeatureCollection): string {
+  const coordinatesKML = (positions: Position[]) =>
+    `<coordinates>${positions.map((p) => `${p[0]},${p[1]}`).join(" ")}</coordinates>`
+
+  const polygonKML = (rings: Position[][]) =>
+    `<Polygon>${rings
+      .map((ring, i) => {
+        const boundary = i === 0 ? "outerBoundaryIs" : "innerBoundaryIs"
+        return `<${boundary}><LinearRing>${coordinatesKML(ring)}</LinearRing></${boundary}>`
+      })
+      .join("")}</Polygon>`
+
+  const geometryKML = (geometry: Geometry): string => {
+    switch (geometry.type) {
+      case "Point":
+        return `<Point>${coordinatesKML([geometry.coordinates])}</Point>`
+      case "LineString":
+        return `<LineString>${coordinatesKML(geometry.coordinates)}</LineString>`
+      case "Polygon":
+        return polygonKML(geometry.coordinates)
+      case "MultiPolygon":
+        return `<MultiGeometry>${geometry.coordinates.map(polygonKML).join("")}</MultiGeometry>`
+      default:
+        return ""
+    }
+  }
+
+  const placemarks = collection.features.map((feature) => {
+    const properties = feature.properties ?? {}
+    const data = Object.entries(properties)
+      .filter(([, value]) => value != null)
+      .map(([key, value]) => `<Data name="${escapeXML(key)}"><value>${escapeXML(value)}</value></Data>`)
+      .join("")
+
+    return [
+      "<Placemark>",
+      `<name>${escapeXML(properties.name ?? properties.id ?? "")}</name>`,
+      `<ExtendedData>${data}</ExtendedData>`,
+      geometryKML(feature.geometry),
+      "</Placemark>",
+    ].join("")
+  })
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    "<Document>",
+    ...placemarks,
+    "</Document>",
+    "</kml>",
+  ].join("\n")
+}
+
+/**
+ * Convert a GeoJSON geometry to Well-Known Text
+ * @param geometry GeoJSON geometry
+ * @returns WKT string
+ */
+export function toWKT(geometry: Geometry): string {
+  const positions = (coords: Position[]) => coords.map((p) => `${p[0]} ${p[1]}`).join(", ")
+  const rings = (polygon: Position[][]) => polygon.map((ring) => `(${positions(ring)})`).join(", ")
+
+  switch (geometry.type) {
+    case "Point":
+      return `POINT (${geometry.coordinates[0]} ${geometry.coordinates[1]})`
+    case "LineString":
+      return `LINESTRING (${positions(geometry.coordinates)})`
+    case "Polygon":
+      return `POLYGON (${rings(geometry.coordinates)})`
+    case "MultiPolygon":
+      return `MULTIPOLYGON (${geometry.coordinates.map((polygon) => `(${rings(polygon)})`).join(", ")})`
+    default:
+      throw new Error(`Unsupported geometry type: ${geometry.type}`)
+  }
+}
+
+/**
+ * Convert a GeoJSON FeatureCollection to CSV with a WKT geometry column
+ * @param collection GeoJSON FeatureCollection
+ * @returns CSV text with a header row
+ */
+export function toCSV(collection: FeatureCollection): string {
+  const columns = Array.from(new Set(collection.features.flatMap((f) => Object.keys(f.properties ?? {}))))
+
+  const escapeCSV = (value: unknown) => {
+    if (value == null) return ""
+    const text = String(value)
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+  }
+
+  const rows = collection.features.map((feature) =>
+    [...columns.map((column) => escapeCSV(feature.properties?.[column])), escapeCSV(toWKT(feature.geometry))].join(","),
+  )
+
+  return [[...columns, "wkt"].join(","), ...rows].join("\n")
+}
+
+/**
+ * Convert a GeoJSON FeatureCollection to an ASCII DXF (R12) drawing.
+ * Each feature goes on a layer named after its `layerType`, with its properties attached as XDATA.
+ * @param collection GeoJSON FeatureCollection
+ * @returns DXF document
+ */
+export function toDXF(collection: FeatureCollection): string {
+  const APP_NAME = "MAPWITHDRAWING"
+  const layerOf = (feature: Feature) => String(feature.properties?.layerType ?? "0").toUpperCase()
+  const layers = Array.from(new Set(collection.features.map(layerOf)))
+  const lines: (string | number)[] = []
+
+  const xdata = (feature: Feature) => {
+    lines.push(1001, APP_NAME)
+    Object.entries(feature.properties ?? {})
+      .filter(([, value]) => value != null)
+      .forEach(([key, value]) => lines.push(1000, `${key}=${value}`.slice(0, 255)))
+  }
+
+  const polyline = (feature: Feature, positions: Position[], closed: boolean) => {
+    lines.push(0, "POLYLINE", 8, layerOf(feature), 66, 1, 10, 0, 20, 0, 30, 0, 70, closed ? 1 : 0)
+    xdata(feature)
+    positions.forEach((p) => lines.push(0, "VERTEX", 8, layerOf(feature), 10, p[0], 20, p[1], 30, 0))
+    lines.push(0, "SEQEND", 8, layerOf(feature))
+  }
+
+  const entities = (feature: Feature, geometry: Geometry) => {
+    switch (geometry.type) {
+      case "Point":
+        lines.push(0, "POINT", 8, layerOf(feature), 10, geometry.coordinates[0], 20, geometry.coordinates[1], 30, 0)
+        xdata(feature)
+        break
+      case "LineString":
+        polyline(feature, geometry.coordinates, false)
+        break
+      case "Polygon":
+        // Closed polylines drop the repeated closing vertex
+        geometry.coordinates.forEach((ring) => polyline(feature, ring.slice(0, -1), true))
+        break
+      case "MultiPolygon":
+        geometry.coordinates.forEach((polygon) => polygon.forEach((ring) => polyline(feature, ring.slice(0, -1), true)))
+        break
+    }
+  }
+
+  lines.push(0, "SECTION", 2, "HEADER", 9, "$ACADVER", 1, "AC1009", 0, "ENDSEC")
+  lines.push(0, "SECTION", 2, "TABLES")
+  lines.push(0, "TABLE", 2, "LAYER", 70, layers.length)
+  layers.forEach((layer) => lines.push(0, "LAYER", 2, layer, 70, 0, 62, 7, 6, "CONTINUOUS"))
+  lines.push(0, "ENDTAB")
+  lines.push(0, "TABLE", 2, "APPID", 70, 1, 0, "APPID", 2, APP_NAME, 70, 0, 0, "ENDTAB")
+  lines.push(0, "ENDSEC")
+  lines.push(0, "SECTION", 2, "ENTITIES")
+  collection.features.forEach((feature) => entities(feature, feature.geometry))
+  lines.push(0, "ENDSEC", 0, "EOF")
+
+  return lines.join("\n")
+}
+
+/**
+ * Export drawn features to a file in the given format.
+ * KML is always written in WGS84 as the format requires; other formats are reprojected into `crs`.
+ * @param features Drawn features to export
+ * @param format Output format
+ * @param crs Coordinate reference system for the output (default: EPSG:4326)
+ * @returns File contents ready to download
+ */
+export async function exportFeatures(
+  features: PersistedFeature[],
+  format: ExportFormat,
+  crs: CrsCode = "EPSG:4326",
+): Promise<Blob> {
+  const wgs84 = featuresToGeoJSON(features)
+  const collection = reprojectGeoJSON(wgs84, crs)
+  const { mimeType } = EXPORT_FORMATS[format]
+
+  switch (format) {
+    case "geojson":
+      return new Blob([JSON.stringify(collection, null, 2)], { type: mimeType })
+    case "kml":
+      return new Blob([toKML(wgs84)], { type: mimeType })
+    case "csv":
+      return new Blob([toCSV(collection)], { type: mimeType })
+    case "dxf":
+      return new Blob([toDXF(collection)], { type: mimeType })
+    case "shapefile":
+      return zip<"blob">(collection, { outputType: "blob", compression: "DEFLATE", prj: CRS_DEFINITIONS[crs].prj })
+  }
+}
+
+/**
+ * Download a Blob as a file
+ * @param blob File contents
+ * @param filename File name to save as
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement("a")
+  a.href = url
+  a.download = filename
+  a.click()
+  URL.revokeObjectURL(url)
+}
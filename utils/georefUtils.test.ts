@@ -0,0 +1,172 @@
+import { describe, expect, it, vi } from "vitest"
+import {
+  applyTransform,
+  fitGeoreference,
+  georefResiduals,
+  rmsError,
+  toWorldFile,
+  worldFileExtension,
+  worldFileParameters,
+  type ControlPoint,
+  type ImagePoint,
+  type TransformType,
+} from "@/utils/georefUtils"
+
+// Leaflet needs a browser to load, so stand in the parts used here: spherical web mercator and the layer base class
+vi.mock("leaflet", () => {
+  const R = 6378137
+  const point = (x: number, y: number) => ({ x, y })
+  const latLng = (lat: number, lng: number) => ({ lat, lng })
+  return {
+    default: {
+      Layer: class {},
+      point,
+      latLng,
+      CRS: {
+        EPSG3857: {
+          project: ({ lat, lng }: { lat: number; lng: number }) =>
+            point((R * lng * Math.PI) / 180, R * Math.log(Math.tan(Math.PI / 4 + (lat * Math.PI) / 360))),
+          unproject: ({ x, y }: { x: number; y: number }) =>
+            latLng(((2 * Math.atan(Math.exp(y / R)) - Math.PI / 2) * 180) / Math.PI, ((x / R) * 180) / Math.PI),
+        },
+      },
+    },
+  }
+})
+
+const R = 6378137
+const fromWebMercator = ([x, y]: [number, number]) => ({
+  lat: ((2 * Math.atan(Math.exp(y / R)) - Math.PI / 2) * 180) / Math.PI,
+  lng: ((x / R) * 180) / Math.PI,
+})
+
+// Image corners and interior points, in pixels
+const IMAGE_POINTS: ImagePoint[] = [
+  { x: 0, y: 0 },
+  { x: 2000, y: 0 },
+  { x: 2000, y: 1500 },
+  { x: 0, y: 1500 },
+  { x: 700, y: 400 },
+  { x: 1500, y: 300 },
+]
+
+const controlPoints = (toMap: (point: ImagePoint) => { lat: number; lng: number }, count = IMAGE_POINTS.length) =>
+  IMAGE_POINTS.slice(0, count).map((image, i): ControlPoint => ({ id: `gcp-${i}`, image, map: toMap(image) }))
+
+// Web mercator meters for a pixel: 0.5 m pixels, rotated 30° counterclockwise, image y pointing down
+const similarity = ({ x, y }: ImagePoint): [number, number] => {
+  const angle = Math.PI / 6
+  const [u, v] = [0.5 * x, -0.5 * y]
+  return [-8837000 + u * Math.cos(angle) - v * Math.sin(angle), 5420000 + u * Math.sin(angle) + v * Math.cos(angle)]
+}
+
+// Separate scales and skew
+const affine = ({ x, y }: ImagePoint): [number, number] => [-8837000 + 0.8 * x + 0.2 * y, 5420000 + 0.1 * x - 0.6 * y]
+
+describe("fitGeoreference", () => {
+  // Each transform type, a transform it can represent, and the meters it should land within. The polynomial fit's
+  // normal equations lose more precision than the others'.
+  const cases: [TransformType, (point: ImagePoint) => [number, number], number][] = [
+    ["similarity", similarity, 1e-6],
+    ["affine", affine, 1e-6],
+    ["polynomial", affine, 1e-2],
+  ]
+
+  it.each(cases)("recovers a known %s transform", (type, known, tolerance) => {
+    const points = controlPoints((image) => fromWebMercator(known(image)))
+    const transform = fitGeoreference(type, points)!
+    expect(transform.type).toBe(type)
+
+    // Anywhere on the image, not only at the control points
+    ;[
+      { x: 100, y: 1200 },
+      { x: 1999, y: 3 },
+      { x: 1000, y: 750 },
+    ].forEach((point) => {
+      const [x, y] = applyTransform(transform, point)
+      const [expectedX, expectedY] = known(point)
+      expect(Math.abs(x - expectedX)).toBeLessThan(tolerance)
+      expect(Math.abs(y - expectedY)).toBeLessThan(tolerance)
+    })
+
+    const residuals = georefResiduals(transform, points)
+    expect(residuals.map((r) => r.id)).toEqual(points.map((p) => p.id))
+    residuals.forEach((r) => expect(r.error).toBeLessThan(tolerance))
+    expect(rmsError(residuals)).toBeLessThan(tolerance)
+  })
+
+  it("reports the residuals of an inexact fit in ground meters", () => {
+    const points = controlPoints((image) => fromWebMercator(similarity(image)))
+    // Move one point 10 web mercator meters east
+    const [x, y] = similarity(points[4].image)
+    points[4] = { ...points[4], map: fromWebMercator([x + 10, y]) }
+
+    const residuals = georefResiduals(fitGeoreference("similarity", points)!, points)
+    const groundScale = Math.cos((points[4].map.lat * Math.PI) / 180)
+    expect(residuals[4].dx).toBeLessThan(0)
+    expect(Math.abs(residuals[4].dx)).toBeLessThan(10 * groundScale)
+    expect(rmsError(residuals)).toBeGreaterThan(0)
+  })
+
+  it("needs enough points to fix each transform", () => {
+    const toMap = (image: ImagePoint) => fromWebMercator(affine(image))
+    expect(fitGeoreference("similarity", controlPoints(toMap, 1))).toBeNull()
+    expect(fitGeoreference("similarity", controlPoints(toMap, 2))).not.toBeNull()
+    expect(fitGeoreference("affine", controlPoints(toMap, 2))).toBeNull()
+    expect(fitGeoreference("affine", controlPoints(toMap, 3))).not.toBeNull()
+    expect(fitGeoreference("polynomial", controlPoints(toMap, 5))).toBeNull()
+    expect(fitGeoreference("polynomial", controlPoints(toMap, 6))).not.toBeNull()
+  })
+
+  it("rejects points that don't fix the transform", () => {
+    const inLine = [0, 1, 2].map((i): ControlPoint => {
+      const image = { x: 100 * i, y: 100 * i }
+      return { id: `gcp-${i}`, image, map: fromWebMercator(affine(image)) }
+    })
+    expect(fitGeoreference("affine", inLine)).toBeNull()
+  })
+
+  it("has no error without residuals", () => {
+    expect(rmsError([])).toBe(0)
+  })
+})
+
+describe("world files", () => {
+  // Degrees for a pixel in EPSG:4326
+  const toLatLng = ({ x, y }: ImagePoint) => ({ lng: -79.4 + 1e-5 * x + 2e-6 * y, lat: 43.7 + 1e-6 * x - 8e-6 * y })
+
+  it("lists A, D, B, E, C, F with C and F at the center of the top-left pixel", () => {
+    const [a, d, b, e, c, f] = worldFileParameters("affine", controlPoints(toLatLng), "EPSG:4326")!
+    expect(a).toBeCloseTo(1e-5, 13)
+    expect(d).toBeCloseTo(1e-6, 13)
+    expect(b).toBeCloseTo(2e-6, 13)
+    expect(e).toBeCloseTo(-8e-6, 13)
+    expect(c).toBeCloseTo(-79.4 + 1e-5 * 0.5 + 2e-6 * 0.5, 12)
+    expect(f).toBeCloseTo(43.7 + 1e-6 * 0.5 - 8e-6 * 0.5, 12)
+  })
+
+  it("writes polynomial fits as their affine approximation", () => {
+    const points = controlPoints(toLatLng)
+    const polynomial = worldFileParameters("polynomial", points, "EPSG:4326")!
+    const affineParameters = worldFileParameters("affine", points, "EPSG:4326")!
+    polynomial.forEach((value, i) => expect(value).toBeCloseTo(affineParameters[i], 12))
+  })
+
+  it("needs enough points to fix the transform", () => {
+    expect(worldFileParameters("similarity", controlPoints(toLatLng, 1), "EPSG:4326")).toBeNull()
+    expect(worldFileParameters("affine", controlPoints(toLatLng, 2), "EPSG:4326")).toBeNull()
+    expect(worldFileParameters("polynomial", controlPoints(toLatLng, 2), "EPSG:4326")).toBeNull()
+  })
+
+  it("writes one parameter per line", () => {
+    expect(toWorldFile([0.5, 0, 0, -0.5, 100.25, 200.75])).toBe(
+      "0.500000000000000\n0.00000000000000\n0.00000000000000\n-0.500000000000000\n100.250000000000\n200.750000000000\n",
+    )
+  })
+
+  it("names world files after the image type", () => {
+    expect(worldFileExtension("plan.PNG")).toBe(".pgw")
+    expect(worldFileExtension("scan.jpeg")).toBe(".jgw")
+    expect(worldFileExtension("sheet.tif")).toBe(".tfw")
+  })
+})
@@ -0,0 +1,517 @@
+import L from "leaflet"
+import type { LatLng } from "@/utils/mapUtils"
+import { CRS_DEFINITIONS, projectCoordinate, type CrsCode } from "@/utils/projectionUtils"
+
+/**
+ * Position on an image in pixels from its top-left corner, y down
+ */
+export type ImagePoint = { x: number; y: number }
+
+/**
+ * A point picked on the image and the place it belongs on the map
+ */
+export type ControlPoint = {
+  id: string
+  image: ImagePoint
+  map: LatLng
+}
+
+export type TransformType = "similarity" | "affine" | "polynomial"
+
+export const TRANSFORM_TYPES: Record<TransformType, { name: string; minPoints: number }> = {
+  similarity: { name: "Similarity (move, scale, rotate)", minPoints: 2 },
+  affine: { name: "Affine (adds skew and separate scales)", minPoints: 3 },
+  polynomial: { name: "Polynomial (2nd order)", minPoints: 6 },
+}
+
+/**
+ * Transform from image pixels to target coordinates. Pixels are centered on `origin`, divided by `scale`
+ * and flipped to y up before the terms (1, u, v, and u², uv, v² for polynomials) are weighted by `x` and `y`.
+ */
+export type GeorefTransform = {
+  type: TransformType
+  origin: [number, number]
+  scale: number
+  x: number[]
+  y: number[]
+}
+
+/**
+ * Error left at a control point after fitting, in meters on the ground
+ */
+export type ControlPointResidual = {
+  id: string
+  dx: number
+  dy: number
+  error: number
+}
+
+/**
+ * Scanned drawing ready to georeference, as an image the browser can draw
+ */
+export type GeorefImage = {
+  name: string
+  url: string
+  width: number
+  height: number
+  // Page rendered from a PDF
+  page?: number
+}
+
+type Pair = { image: ImagePoint; target: [number, number] }
+
+// Scale PDF pages are rendered at; 2 gives about 144 dpi for a page drawn at 72 dpi
+const PDF_RENDER_SCALE = 2
+
+// Cells per side of the mesh a polynomial warp is drawn with
+const MESH_STEPS = 16
+
+export const GEOREF_IMAGE_ACCEPT = ".png,.jpg,.jpeg,.pdf"
+
+const terms = (type: TransformType, u: number, v: number) =>
+  type === "polynomial" ? [1, u, v, u * u, u * v, v * v] : [1, u, v]
+
+/**
+ * Solve a square linear system by Gaussian elimination with partial pivoting
+ * @returns Solution, or null when the system is singular
+ */
+function solve(matrix: number[][], vector: number[]): number[] | null {
+  const n = vector.length
+  const a = matrix.map((row, i) => [...row, vector[i]])
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row
+    }
+    if (Math.abs(a[pivot][col]) < 1e-10) return null
+    ;[a[col], a[pivot]] = [a[pivot], a[col]]
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col]
+      for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k]
+    }
+  }
+
+  const result = new Array<number>(n).fill(0)
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n]
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * result[k]
+    result[row] = sum / a[row][row]
+  }
+  return result
+}
+
+/**
+ * Solve an overdetermined system through its normal equations
+ */
+function solveLeastSquares(rows: number[][], values: number[]): number[] | null {
+  const n = rows[0].length
+  const normal = Array.from({ length: n }, (_, i) =>
+    Array.from({ length: n }, (_, j) => rows.reduce((sum, row) => sum + row[i] * row[j], 0)),
+  )
+  const rhs = Array.from({ length: n }, (_, i) => rows.reduce((sum, row, k) => sum + row[i] * values[k], 0))
+  return solve(normal, rhs)
+}
+
+/**
+ * Least-squares fit of a transform from image pixels to target coordinates
+ * @param type Transform type
+ * @param pairs Image points and their target coordinates
+ * @returns Transform, or null with too few points or points that don't fix it (e.g. all in a line)
+ */
+function fitTransform(type: TransformType, pairs: Pair[]): GeorefTransform | null {
+  if (pairs.length < TRANSFORM_TYPES[type].minPoints) return null
+
+  const origin: [number, number] = [
+    pairs.reduce((sum, p) => sum + p.image.x, 0) / pairs.length,
+    pairs.reduce((sum, p) => sum + p.image.y, 0) / pairs.length,
+  ]
+  const scale = Math.max(1, ...pairs.map((p) => Math.hypot(p.image.x - origin[0], p.image.y - origin[1])))
+  const normalized = pairs.map((p) => ({
+    u: (p.image.x - origin[0]) / scale,
+    v: -(p.image.y - origin[1]) / scale,
+    target: p.target,
+  }))
+
+  if (type === "similarity") {
+    // X = tx + a·u − b·v, Y = ty + b·u + a·v, solved for [tx, ty, a, b]
+    const rows = normalized.flatMap(({ u, v, target }) => [
+      { row: [1, 0, u, -v], value: target[0] },
+      { row: [0, 1, v, u], value: target[1] },
+    ])
+    const solution = solveLeastSquares(
+      rows.map((r) => r.row),
+      rows.map((r) => r.value),
+    )
+    if (!solution) return null
+    const [tx, ty, a, b] = solution
+    return { type, origin, scale, x: [tx, a, -b], y: [ty, b, a] }
+  }
+
+  const design = normalized.map(({ u, v }) => terms(type, u, v))
+  const x = solveLeastSquares(
+    design,
+    normalized.map((p) => p.target[0]),
+  )
+  const y = solveLeastSquares(
+    design,
+    normalized.map((p) => p.target[1]),
+  )
+  return x && y ? { type, origin, scale, x, y } : null
+}
+
+/**
+ * Apply a transform to an image point
+ * @param transform Fitted transform
+ * @param point Image point in pixels
+ * @returns Target coordinates
+ */
+export function applyTransform(transform: GeorefTransform, point: ImagePoint): [number, number] {
+  const u = (point.x - transform.origin[0]) / transform.scale
+  const v = -(point.y - transform.origin[1]) / transform.scale
+  const t = terms(transform.type, u, v)
+  return [
+    t.reduce((sum, term, i) => sum + term * transform.x[i], 0),
+    t.reduce((sum, term, i) => sum + term * transform.y[i], 0),
+  ]
+}
+
+const toWebMercator = (latlng: LatLng): [number, number] => {
+  const { x, y } = L.CRS.EPSG3857.project(L.latLng(latlng.lat, latlng.lng))
+  return [x, y]
+}
+
+/**
+ * Fit the transform placing an image on the map, in web mercator meters
+ * @param type Transform type
+ * @param controlPoints Control points
+ * @returns Transform, or null when the points don't fix one
+ */
+export function fitGeoreference(type: TransformType, controlPoints: ControlPoint[]): GeorefTransform | null {
+  return fitTransform(
+    type,
+    controlPoints.map((p) => ({ image: p.image, target: toWebMercator(p.map) })),
+  )
+}
+
+/**
+ * Map position of an image point
+ * @param transform Transform from fitGeoreference
+ * @param point Image point in pixels
+ * @returns WGS84 coordinate
+ */
+export function imageToLatLng(transform: GeorefTransform, point: ImagePoint): LatLng {
+  const [x, y] = applyTransform(transform, point)
+  const { lat, lng } = L.CRS.EPSG3857.unproject(L.point(x, y))
+  return { lat, lng }
+}
+
+/**
+ * How far each control point lands from where it was placed on the map
+ * @param transform Transform from fitGeoreference
+ * @param controlPoints Control points
+ * @returns Residuals east (dx) and north (dy), in meters on the ground
+ */
+export function georefResiduals(transform: GeorefTransform, controlPoints: ControlPoint[]): ControlPointResidual[] {
+  return controlPoints.map((p) => {
+    const [x, y] = applyTransform(transform, p.image)
+    const [targetX, targetY] = toWebMercator(p.map)
+    // Web mercator stretches distances by 1 / cos(latitude)
+    const groundScale = Math.cos((p.map.lat * Math.PI) / 180)
+    const dx = (x - targetX) * groundScale
+    const dy = (y - targetY) * groundScale
+    return { id: p.id, dx, dy, error: Math.hypot(dx, dy) }
+  })
+}
+
+/**
+ * Root mean square of control point errors
+ * @param residuals Residuals from georefResiduals
+ * @returns RMS error in meters, 0 without residuals
+ */
+export function rmsError(residuals: ControlPointResidual[]): number {
+  if (residuals.length === 0) return 0
+  return Math.sqrt(residuals.reduce((sum, r) => sum + r.error ** 2, 0) / residuals.length)
+}
+
+/**
+ * Six world file parameters (A, D, B, E, C, F) placing the image in a CRS. World files only hold an
+ * affine transform, so polynomial fits are approximated by the affine fit of the same points.
+ * @param type Transform type
+ * @param controlPoints Control points
+ * @param crs CRS of the world file
+ * @returns Parameters, or null when the points don't fix a transform
+ */
+export function worldFileParameters(type: TransformType, controlPoints: ControlPoint[], crs: CrsCode): number[] | null {
+  const transform = fitTransform(
+    type === "polynomial" ? "affine" : type,
+    controlPoints.map((p) => ({ image: p.image, target: projectCoordinate(p.map, crs) })),
+  )
+  if (!transform) return null
+
+  // Pixel (column, row) has its center at (column + 0.5, row + 0.5)
+  const [c, f] = applyTransform(transform, { x: 0.5, y: 0.5 })
+  const [x0, y0] = applyTransform(transform, { x: 0, y: 0 })
+  const [x1, y1] = applyTransform(transform, { x: 1, y: 0 })
+  const [x2, y2] = applyTransform(transform, { x: 0, y: 1 })
+  return [x1 - x0, y1 - y0, x2 - x0, y2 - y0, c, f]
+}
+
+/**
+ * Write world file contents
+ * @param parameters Parameters from worldFileParameters
+ * @returns One parameter per line
+ */
+export function toWorldFile(parameters: number[]): string {
+  return parameters.map((n) => n.toPrecision(15)).join("\n") + "\n"
+}
+
+/**
+ * World file extension for an image, e.g. ".pgw" for PNG
+ * @param filename Image file name
+ * @returns Extension including the dot
+ */
+export function worldFileExtension(filename: string): string {
+  const extension = filename.split(".").pop()?.toLowerCase() ?? ""
+  if (extension === "jpg" || extension === "jpeg") return ".jgw"
+  if (extension === "tif" || extension === "tiff") return ".tfw"
+  return ".pgw"
+}
+
+/**
+ * Describe a georeference as JSON: the image, control points with residuals, the fitted transform and the world file
+ * @param image Georeferenced image
+ * @param controlPoints Control points
+ * @param transform Transform from fitGeoreference
+ * @param crs CRS of the world file
+ * @returns Pretty-printed JSON
+ */
+export function toGeorefParameters(
+  image: GeorefImage,
+  controlPoints: ControlPoint[],
+  transform: GeorefTransform,
+  crs: CrsCode,
+): string {
+  const residuals = georefResiduals(transform, controlPoints)
+  return JSON.stringify(
+    {
+      image: { name: image.name, width: image.width, height: image.height, page: image.page },
+      transform: { ...transform, crs: "EPSG:3857" },
+      rmsError: rmsError(residuals),
+      controlPoints: controlPoints.map((p, i) => ({ ...p, residual: residuals[i] })),
+      worldFile: {
+        crs,
+        prj: CRS_DEFINITIONS[crs].prj,
+        parameters: worldFileParameters(transform.type, controlPoints, crs),
+      },
+    },
+    null,
+    2,
+  )
+}
+
+/**
+ * Load a scanned drawing: PNG and JPG files as they are, PDFs by rendering one page to a PNG
+ * @param file Image or PDF file
+ * @param page PDF page number, from 1 (default: 1)
+ * @returns Image with an object URL; revoke it with URL.revokeObjectURL when done
+ */
+export async function loadGeorefImage(file: File, page = 1): Promise<GeorefImage & { pageCount?: number }> {
+  if (file.type === "application/pdf" || file.name.toLowerCase().endsWith(".pdf")) {
+    const pdfjs = await import("pdfjs-dist")
+    pdfjs.GlobalWorkerOptions.workerSrc = new URL("pdfjs-dist/build/pdf.worker.min.mjs", import.meta.url).toString()
+
+    const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise
+    const pdfPage = await pdf.getPage(Math.min(Math.max(1, page), pdf.numPages))
+    const viewport = pdfPage.getViewport({ scale: PDF_RENDER_SCALE })
+    const canvas = document.createElement("canvas")
+    canvas.width = Math.round(viewport.width)
+    canvas.height = Math.round(viewport.height)
+    await pdfPage.render({ canvasContext: canvas.getContext("2d")!, viewport }).promise
+
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"))
+    if (!blob) throw new Error(`Could not render page ${pdfPage.pageNumber} of ${file.name}`)
+    return {
+      name: `${file.name.replace(/\.pdf$/i, "")}-page${pdfPage.pageNumber}.png`,
+      url: URL.createObjectURL(blob),
+      width: canvas.width,
+      height: canvas.height,
+      page: pdfPage.pageNumber,
+      pageCount: pdf.numPages,
+    }
+  }
+
+  const url = URL.createObjectURL(file)
+  const image = new Image()
+  image.src = url
+  try {
+    await image.decode()
+  } catch {
+    URL.revokeObjectURL(url)
+    throw new Error(`Could not read ${file.name}`)
+  }
+  return { name: file.name, url, width: image.naturalWidth, height: image.naturalHeight }
+}
+
+/**
+ * Set a canvas transform that maps three source points onto three destination points
+ */
+function setTriangleTransform(
+  ctx: CanvasRenderingContext2D,
+  [s0, s1, s2]: ImagePoint[],
+  [d0, d1, d2]: L.Point[],
+  pixelRatio: number,
+) {
+  const det = (s1.x - s0.x) * (s2.y - s0.y) - (s2.x - s0.x) * (s1.y - s0.y)
+  const a = ((d1.x - d0.x) * (s2.y - s0.y) - (d2.x - d0.x) * (s1.y - s0.y)) / det
+  const b = ((d1.y - d0.y) * (s2.y - s0.y) - (d2.y - d0.y) * (s1.y - s0.y)) / det
+  const c = ((d2.x - d0.x) * (s1.x - s0.x) - (d1.x - d0.x) * (s2.x - s0.x)) / det
+  const d = ((d2.y - d0.y) * (s1.x - s0.x) - (d1.y - d0.y) * (s2.x - s0.x)) / det
+  const e = d0.x - a * s0.x - c * s0.y
+  const f = d0.y - b * s0.x - d * s0.y
+  ctx.setTransform(a * pixelRatio, b * pixelRatio, c * pixelRatio, d * pixelRatio, e * pixelRatio, f * pixelRatio)
+}
+
+/**
+ * Image overlay drawn through a georeference transform
+ */
+class WarpedImage extends L.Layer {
+  private image: HTMLImageElement
+  private transform: GeorefTransform
+  private opacity = 1
+  private canvas: HTMLCanvasElement | null = null
+
+  constructor(image: HTMLImageElement, transform: GeorefTransform, options: L.LayerOptions) {
+    super()
+    L.Util.setOptions(this, options)
+    this.image = image
+    this.transform = transform
+  }
+
+  onAdd(map: L.Map) {
+    // Hidden while zooming; redrawn for the new view when the zoom ends
+    const canvas = L.DomUtil.create("canvas", "leaflet-zoom-hide")
+    canvas.style.opacity = String(this.opacity)
+    canvas.style.pointerEvents = "none"
+    this.getPane()?.appendChild(canvas)
+    this.canvas = canvas
+    map.on("moveend zoomend resize viewreset", this.draw, this)
+    this.draw()
+    return this
+  }
+
+  onRemove(map: L.Map) {
+    map.off("moveend zoomend resize viewreset", this.draw, this)
+    if (this.canvas) L.DomUtil.remove(this.canvas)
+    this.canvas = null
+    return this
+  }
+
+  setTransform(transform: GeorefTransform) {
+    this.transform = transform
+    if (this._map) this.draw()
+    return this
+  }
+
+  setOpacity(opacity: number) {
+    this.opacity = opacity
+    if (this.canvas) this.canvas.style.opacity = String(opacity)
+    return this
+  }
+
+  // Covers the visible map; affine fits draw the image in one step, polynomial fits as a mesh of triangles
+  private draw() {
+    const { _map: map, canvas, image, transform } = this
+    if (!canvas) return
+
+    const size = map.getSize()
+    const pixelRatio = window.devicePixelRatio || 1
+
+    L.DomUtil.setPosition(canvas, map.containerPointToLayerPoint([0, 0]))
+    canvas.width = size.x * pixelRatio
+    canvas.height = size.y * pixelRatio
+    canvas.style.width = `${size.x}px`
+    canvas.style.height = `${size.y}px`
+
+    const ctx = canvas.getContext("2d")!
+    const { naturalWidth: width, naturalHeight: height } = image
+    const toScreen = (point: ImagePoint) => {
+      const { lat, lng } = imageToLatLng(transform, point)
+      return map.latLngToContainerPoint([lat, lng])
+    }
+
+    if (transform.type !== "polynomial") {
+      const corners = [
+        { x: 0, y: 0 },
+        { x: width, y: 0 },
+        { x: 0, y: height },
+      ]
+      setTriangleTransform(ctx, corners, corners.map(toScreen), pixelRatio)
+      ctx.drawImage(image, 0, 0)
+      return
+    }
+
+    const grid: { source: ImagePoint; screen: L.Point }[][] = []
+    for (let row = 0; row <= MESH_STEPS; row++) {
+      grid.push([])
+      for (let col = 0; col <= MESH_STEPS; col++) {
+        const source = { x: (col / MESH_STEPS) * width, y: (row / MESH_STEPS) * height }
+        grid[row].push({ source, screen: toScreen(source) })
+      }
+    }
+
+    const drawTriangle = (vertices: { source: ImagePoint; screen: L.Point }[]) => {
+      // Clipped slightly outside the triangle so neighbouring triangles leave no hairline gaps
+      const cx = vertices.reduce((sum, v) => sum + v.screen.x, 0) / 3
+      const cy = vertices.reduce((sum, v) => sum + v.screen.y, 0) / 3
+      ctx.save()
+      ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0)
+      ctx.beginPath()
+      vertices.forEach(({ screen }, i) => {
+        const length = Math.hypot(screen.x - cx, screen.y - cy) || 1
+        const x = screen.x + ((screen.x - cx) / length) * 0.5
+        const y = screen.y + ((screen.y - cy) / length) * 0.5
+        if (i === 0) ctx.moveTo(x, y)
+        else ctx.lineTo(x, y)
+      })
+      ctx.closePath()
+      ctx.clip()
+      setTriangleTransform(
+        ctx,
+        vertices.map((v) => v.source),
+        vertices.map((v) => v.screen),
+        pixelRatio,
+      )
+      ctx.drawImage(image, 0, 0)
+      ctx.restore()
+    }
+
+    for (let row = 0; row < MESH_STEPS; row++) {
+      for (let col = 0; col < MESH_STEPS; col++) {
+        drawTriangle([grid[row][col], grid[row][col + 1], grid[row + 1][col]])
+        drawTriangle([grid[row][col + 1], grid[row + 1][col + 1], grid[row + 1][col]])
+      }
+    }
+  }
+}
+
+/**
+ * Layer returned by createWarpedImageLayer
+ */
+export type WarpedImageLayer = WarpedImage
+
+/**
+ * Create a layer drawing an image through a georeference transform
+ * @param image Loaded image
+ * @param transform Transform from fitGeoreference
+ * @param pane Map pane to draw into (default: overlayPane)
+ * @returns Layer with setTransform and setOpacity
+ */
+export function createWarpedImageLayer(
+  image: HTMLImageElement,
+  transform: GeorefTransform,
+  pane?: string,
+): WarpedImageLayer {
+  return new WarpedImage(image, transform, pane ? { pane } : {})
+}
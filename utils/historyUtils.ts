@@ -0,0 +1,67 @@
+import type { PersistedFeature } from "@/utils/storageUtils"
+
+/**
+ * A reversible change to the drawn features: the affected features before and after the operation
+ */
+export type HistoryEntry = {
+  type: "create" | "edit" | "remove" | "clear" | "union" | "difference" | "intersection" | "split"
+  before: PersistedFeature[]
+  after: PersistedFeature[]
+}
+
+export type HistoryState = {
+  undoStack: HistoryEntry[]
+  redoStack: HistoryEntry[]
+}
+
+export const EMPTY_HISTORY: HistoryState = { undoStack: [], redoStack: [] }
+
+/**
+ * Record a new operation; this discards anything that could be redone
+ * @param history Current history
+ * @param entry Operation to record
+ * @param limit Maximum number of undo steps kept (default: 100)
+ * @returns Updated history
+ */
+export function pushHistoryEntry(history: HistoryState, entry: HistoryEntry, limit = 100): HistoryState {
+  return {
+    undoStack: [...history.undoStack, entry].slice(-limit),
+    redoStack: [],
+  }
+}
+
+/**
+ * Take the most recent operation off the undo stack
+ * @param history Current history
+ * @returns Updated history and the entry to revert, or null if there is nothing to undo
+ */
+export function undoHistory(history: HistoryState): { history: HistoryState; entry: HistoryEntry } | null {
+  const entry = history.undoStack[history.undoStack.length - 1]
+  if (!entry) return null
+
+  return {
+    history: {
+      undoStack: history.undoStack.slice(0, -1),
+      redoStack: [...history.redoStack, entry],
+    },
+    entry,
+  }
+}
+
+/**
+ * Take the most recently undone operation off the redo stack
+ * @param history Current history
+ * @returns Updated history and the entry to re-apply, or null if there is nothing to redo
+ */
+export function redoHistory(history: HistoryState): { history: HistoryState; entry: HistoryEntry } | null {
+  const entry = history.redoStack[history.redoStack.length - 1]
+  if (!entry) return null
+
+  return {
+    history: {
+      undoStack: [...history.undoStack, entry],
+      redoStack: history.redoStack.slice(0, -1),
+    },
+    entry,
+  }
+}
@@ -0,0 +1,203 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { zip } from "@mapbox/shp-write"
+import type { Feature, FeatureCollection } from "geojson"
+import { explodeMultiGeometries, getSpatialFileFormat, parseSpatialData } from "@/utils/importUtils"
+
+const SQUARE = [
+  [
+    [0, 0],
+    [1, 0],
+    [1, 1],
+    [0, 1],
+    [0, 0],
+  ],
+]
+
+const KML = `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <Placemark>
+      <name>Site A</name>
+      <Polygon>
+        <outerBoundaryIs>
+          <LinearRing><coordinates>0,0 1,0 1,1 0,1 0,0</coordinates></LinearRing>
+        </outerBoundaryIs>
+      </Polygon>
+    </Placemark>
+    <Placemark>
+      <name>Well</name>
+      <Point><coordinates>0.5,0.5,12</coordinates></Point>
+    </Placemark>
+    <Placemark><name>No geometry</name></Placemark>
+  </Document>
+</kml>`
+
+const GPX = `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="test" xmlns="http://www.topografix.com/GPX/1/1">
+  <wpt lat="51.5" lon="-0.1"><name>Start</name></wpt>
+  <trk>
+    <name>Walk</name>
+    <trkseg>
+      <trkpt lat="51.5" lon="-0.1"></trkpt>
+      <trkpt lat="51.6" lon="-0.2"></trkpt>
+    </trkseg>
+  </trk>
+</gpx>`
+
+describe("getSpatialFileFormat", () => {
+  it("detects formats from the extension, ignoring case", () => {
+    expect(getSpatialFileFormat("areas.GeoJSON")).toBe("geojson")
+    expect(getSpatialFileFormat("areas.json")).toBe("geojson")
+    expect(getSpatialFileFormat("site.kml")).toBe("kml")
+    expect(getSpatialFileFormat("track.gpx")).toBe("gpx")
+    expect(getSpatialFileFormat("parcels.zip")).toBe("shapefile")
+    expect(getSpatialFileFormat("drawing.pdf")).toBeNull()
+  })
+})
+
+describe("parseSpatialData", () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe("GeoJSON", () => {
+    it("reads a FeatureCollection and drops features without geometry", async () => {
+      const collection: FeatureCollection = {
+        type: "FeatureCollection",
+        features: [
+          { type: "Feature", properties: { name: "a" }, geometry: { type: "Polygon", coordinates: SQUARE } },
+          { type: "Feature", properties: { name: "b" }, geometry: null as any },
+        ],
+      }
+      const features = await parseSpatialData("geojson", JSON.stringify(collection))
+      expect(features).toHaveLength(1)
+      expect(features[0].properties).toEqual({ name: "a" })
+    })
+
+    it("wraps a bare feature or geometry", async () => {
+      const feature = { type: "Feature", properties: {}, geometry: { type: "Point", coordinates: [1, 2] } }
+      expect(await parseSpatialData("geojson", JSON.stringify(feature))).toEqual([feature])
+
+      const [wrapped] = await parseSpatialData("geojson", JSON.stringify({ type: "Point", coordinates: [1, 2] }))
+      expect(wrapped.geometry).toEqual({ type: "Point", coordinates: [1, 2] })
+    })
+
+    it("decodes binary input", async () => {
+      const data = new TextEncoder().encode(JSON.stringify({ type: "Point", coordinates: [1, 2] })).buffer
+      expect(await parseSpatialData("geojson", data as ArrayBuffer)).toHaveLength(1)
+    })
+
+    it("rejects invalid JSON and non-GeoJSON objects", async () => {
+      await expect(parseSpatialData("geojson", "{ not json")).rejects.toThrow(SyntaxError)
+      await expect(parseSpatialData("geojson", JSON.stringify({ name: "x" }))).rejects.toThrow(
+        "File does not contain valid GeoJSON",
+      )
+    })
+  })
+
+  describe("KML", () => {
+    it("reads placemarks with their names", async () => {
+      const features = await parseSpatialData("kml", KML)
+      expect(features.map((f) => f.properties?.name)).toEqual(["Site A", "Well"])
+      expect(features[0].geometry).toEqual({ type: "Polygon", coordinates: SQUARE })
+      expect(features[1].geometry).toEqual({ type: "Point", coordinates: [0.5, 0.5, 12] })
+    })
+
+    it("rejects malformed XML", async () => {
+      vi.spyOn(console, "error").mockImplementation(() => {})
+      await expect(parseSpatialData("kml", "<kml><Document><Placemark>")).rejects.toThrow(/unclosed xml tag/)
+      await expect(parseSpatialData("kml", "<kml><a></b></kml>")).rejects.toThrow(/tag mismatch/)
+      await expect(parseSpatialData("kml", "not xml at all")).rejects.toThrow(/missing root element/)
+    })
+  })
+
+  describe("GPX", () => {
+    it("reads waypoints and tracks", async () => {
+      const features = await parseSpatialData("gpx", GPX)
+      const byName = Object.fromEntries(features.map((f) => [f.properties?.name, f.geometry]))
+      expect(byName.Start).toEqual({ type: "Point", coordinates: [-0.1, 51.5] })
+      expect(byName.Walk).toEqual({
+        type: "LineString",
+        coordinates: [
+          [-0.1, 51.5],
+          [-0.2, 51.6],
+        ],
+      })
+    })
+
+    it("rejects malformed XML", async () => {
+      vi.spyOn(console, "error").mockImplementation(() => {})
+      await expect(parseSpatialData("gpx", '<gpx><trk><trkseg><trkpt lat="1" lon="2">')).rejects.toThrow()
+    })
+  })
+
+  describe("Shapefile", () => {
+    it("reads a zipped shapefile with its attributes", async () => {
+      const collection: FeatureCollection = {
+        type: "FeatureCollection",
+        features: [
+          { type: "Feature", properties: { name: "Parcel 1" }, geometry: { type: "Polygon", coordinates: SQUARE } },
+        ],
+      }
+      const data = (await zip(collection as any, { outputType: "arraybuffer" } as any)) as ArrayBuffer
+
+      const features = await parseSpatialData("shapefile", data)
+      expect(features).toHaveLength(1)
+      expect(features[0].properties).toEqual({ name: "Parcel 1" })
+      expect(features[0].geometry.type).toBe("Polygon")
+    })
+
+    it("requires binary data", async () => {
+      await expect(parseSpatialData("shapefile", "PK")).rejects.toThrow("Shapefiles must be read as binary data")
+    })
+
+    it("rejects data that is not a zip", async () => {
+      await expect(parseSpatialData("shapefile", new Uint8Array([1, 2, 3]).buffer)).rejects.toThrow()
+    })
+  })
+})
+
+describe("explodeMultiGeometries", () => {
+  it("splits multi-points, multi-lines and collections but keeps multi-polygons whole", () => {
+    const feature = (geometry: any): Feature => ({ type: "Feature", properties: { id: 1 }, geometry })
+    const exploded = explodeMultiGeometries([
+      feature({
+        type: "MultiPoint",
+        coordinates: [
+          [0, 0],
+          [1, 1],
+        ],
+      }),
+      feature({ type: "MultiPolygon", coordinates: [SQUARE, SQUARE] }),
+      feature({
+        type: "GeometryCollection",
+        geometries: [
+          { type: "Point", coordinates: [2, 2] },
+          {
+            type: "MultiLineString",
+            coordinates: [
+              [
+                [0, 0],
+                [1, 1],
+              ],
+              [
+                [2, 2],
+                [3, 3],
+              ],
+            ],
+          },
+        ],
+      }),
+    ])
+
+    expect(exploded.map((f) => f.geometry.type)).toEqual([
+      "Point",
+      "Point",
+      "MultiPolygon",
+      "Point",
+      "LineString",
+      "LineString",
+    ])
+    expect(exploded.every((f) => f.properties?.id === 1)).toBe(true)
+  })
+})
@@ -0,0 +1,129 @@
+import { gpx, kml } from "@tmcw/togeojson"
+import { DOMParser } from "@xmldom/xmldom"
+import shp from "shpjs"
+import type { Feature, FeatureCollection, Geometry } from "geojson"
+
+/**
+ * Spatial file formats that can be parsed into GeoJSON
+ */
+export type SpatialFileFormat = "geojson" | "kml" | "gpx" | "shapefile"
+
+const SPATIAL_EXTENSIONS: Record<string, SpatialFileFormat> = {
+  geojson: "geojson",
+  json: "geojson",
+  kml: "kml",
+  gpx: "gpx",
+  zip: "shapefile",
+}
+
+/**
+ * File input `accept` value for every supported spatial format
+ */
+export const SPATIAL_FILE_ACCEPT = Object.keys(SPATIAL_EXTENSIONS)
+  .map((extension) => `.${extension}`)
+  .join(",")
+
+/**
+ * Detect the spatial format of a file from its name
+ * @param fileName File name including extension
+ * @returns Spatial format, or null for non-spatial files (PDFs, images, etc.)
+ */
+export function getSpatialFileFormat(fileName: string): SpatialFileFormat | null {
+  const extension = fileName.split(".").pop()?.toLowerCase() ?? ""
+  return SPATIAL_EXTENSIONS[extension] ?? null
+}
+
+/**
+ * Parse a spatial file (GeoJSON, KML, GPX or zipped Shapefile) into GeoJSON features
+ * @param file File dropped or selected by the user
+ * @returns Features with non-null geometry
+ */
+export async function parseSpatialFile(file: File): Promise<Feature[]> {
+  const format = getSpatialFileFormat(file.name)
+  if (!format) {
+    throw new Error(`Unsupported file type: ${file.name}`)
+  }
+
+  return parseSpatialData(format, format === "shapefile" ? await file.arrayBuffer() : await file.text())
+}
+
+/**
+ * Parse spatial file contents into GeoJSON features. Runs without a browser.
+ * @param format Spatial format of the data
+ * @param data File contents: text for GeoJSON, KML and GPX; binary for zipped Shapefiles
+ * @returns Features with non-null geometry
+ */
+export async function parseSpatialData(format: SpatialFileFormat, data: string | ArrayBuffer): Promise<Feature[]> {
+  let collection: FeatureCollection
+
+  if (format === "shapefile") {
+    if (typeof data === "string") {
+      throw new Error("Shapefiles must be read as binary data")
+    }
+    const result = await shp(data)
+    const collections = Array.isArray(result) ? result : [result]
+    collection = { type: "FeatureCollection", features: collections.flatMap((c) => c.features) }
+  } else {
+    const text = typeof data === "string" ? data : new TextDecoder().decode(data)
+
+    if (format === "geojson") {
+      collection = normalizeGeoJSON(JSON.parse(text))
+    } else {
+      const doc = parseXML(text)
+      collection = (format === "kml" ? kml(doc) : gpx(doc)) as FeatureCollection
+    }
+  }
+
+  return collection.features.filter((feature) => feature.geometry != null)
+}
+
+/**
+ * Parse an XML document; malformed input throws
+ * @param text XML source
+ * @returns Parsed document
+ */
+function parseXML(text: string): Document {
+  return new DOMParser().parseFromString(text, "text/xml") as unknown as Document
+}
+
+/**
+ * Wrap a bare GeoJSON geometry or feature in a FeatureCollection
+ * @param geojson Parsed GeoJSON object
+ * @returns GeoJSON FeatureCollection
+ */
+function normalizeGeoJSON(geojson: any): FeatureCollection {
+  if (geojson?.type === "FeatureCollection") {
+    return geojson
+  }
+  if (geojson?.type === "Feature") {
+    return { type: "FeatureCollection", features: [geojson] }
+  }
+  if (typeof geojson?.type === "string" && "coordinates" in geojson) {
+    return { type: "FeatureCollection", features: [{ type: "Feature", geometry: geojson, properties: {} }] }
+  }
+  throw new Error("File does not contain valid GeoJSON")
+}
+
+/**
+ * Split multi-part points and lines, and geometry collections, into one feature per part.
+ * MultiPolygons are kept whole since a work area can have several parts.
+ * @param features GeoJSON features
+ * @returns Features with Point, LineString, Polygon or MultiPolygon geometry only
+ */
+export function explodeMultiGeometries(features: Feature[]): Feature[] {
+  return features.flatMap((feature): Feature[] => {
+    const geometry = feature.geometry
+    const withGeometry = (g: Geometry): Feature => ({ ...feature, geometry: g })
+
+    switch (geometry.type) {
+      case "MultiPoint":
+        return geometry.coordinates.map((coordinates) => withGeometry({ type: "Point", coordinates }))
+      case "MultiLineString":
+        return geometry.coordinates.map((coordinates) => withGeometry({ type: "LineString", coordinates }))
+      case "GeometryCollection":
+        return explodeMultiGeometries(geometry.geometries.map(withGeometry))
+      default:
+        return [feature]
+    }
+  })
+}
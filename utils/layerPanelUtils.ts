@@ -0,0 +1,152 @@
+import L from "leaflet"
+
+/**
+ * Visibility and opacity of one overlay in the layer panel
+ */
+export type LayerPanelOverlay = {
+  id: string
+  visible: boolean
+  // 0 to 1
+  opacity: number
+}
+
+/**
+ * Layer panel state. Overlays are listed top to bottom: the first is drawn above all others.
+ */
+export type LayerPanelState = {
+  overlays: LayerPanelOverlay[]
+  basemap: string
+  basemapOpacity: number
+}
+
+/**
+ * An overlay the panel can list, with the visibility it starts with
+ */
+export type LayerPanelOverlayDefinition = {
+  id: string
+  name: string
+  visible?: boolean
+}
+
+// Overlays every map has, in their default order (top first)
+export const BUILT_IN_OVERLAYS: LayerPanelOverlayDefinition[] = [
+  { id: "workArea", name: "Work Areas" },
+  { id: "records", name: "Records" },
+  { id: "georef", name: "Georeference" },
+  { id: "bubbles", name: "Bubbles" },
+  { id: "shapes", name: "Shapes" },
+]
+
+// Leaflet's overlay pane; overlay panes stack directly above it
+const OVERLAY_Z_INDEX = 400
+
+/**
+ * Id of a vector tile overlay in the layer panel
+ * @param overlayId Vector tile overlay id
+ * @returns Panel id
+ */
+export const vectorTilePanelId = (overlayId: string) => `vectorTile:${overlayId}`
+
+/**
+ * Name of the map pane an overlay draws into
+ * @param id Panel id of the overlay
+ * @returns Pane name, safe to use in a class name
+ */
+export const overlayPaneName = (id: string) => `overlay-${id.replace(/[^a-zA-Z0-9_-]/g, "_")}`
+
+/**
+ * Get an overlay's pane, creating it if the map doesn't have it yet
+ * @param map Leaflet map
+ * @param id Panel id of the overlay
+ * @returns Pane element
+ */
+export function ensureOverlayPane(map: L.Map, id: string): HTMLElement {
+  const name = overlayPaneName(id)
+  return map.getPane(name) ?? map.createPane(name)
+}
+
+/**
+ * Complete a layer panel state: overlays it doesn't list yet are added below the others
+ * with their default visibility, and overlays that no longer exist are dropped
+ * @param state State from the host or from earlier changes, if any
+ * @param definitions Every overlay on the map
+ * @param basemap Active basemap
+ * @returns State listing exactly the defined overlays
+ */
+export function normalizeLayerPanel(
+  state: LayerPanelState | null | undefined,
+  definitions: LayerPanelOverlayDefinition[],
+  basemap: string,
+): LayerPanelState {
+  const known = new Set(definitions.map((d) => d.id))
+  const listed = (state?.overlays ?? []).filter((o) => known.has(o.id))
+  const listedIds = new Set(listed.map((o) => o.id))
+  const missing = definitions
+    .filter((d) => !listedIds.has(d.id))
+    .map((d) => ({ id: d.id, visible: d.visible !== false, opacity: 1 }))
+
+  return {
+    overlays: [...listed, ...missing],
+    basemap: state?.basemap ?? basemap,
+    basemapOpacity: state?.basemapOpacity ?? 1,
+  }
+}
+
+/**
+ * Move an overlay to another place in the stack
+ * @param state Layer panel state
+ * @param from Current index of the overlay
+ * @param to Index to move it to
+ * @returns New state
+ */
+export function moveOverlay(state: LayerPanelState, from: number, to: number): LayerPanelState {
+  const overlays = [...state.overlays]
+  const [moved] = overlays.splice(from, 1)
+  overlays.splice(to, 0, moved)
+  return { ...state, overlays }
+}
+
+/**
+ * Stack, show or hide and fade the overlay panes to match the panel
+ * @param map Leaflet map
+ * @param overlays Overlays, top first
+ */
+export function applyOverlayPanes(map: L.Map, overlays: LayerPanelOverlay[]): void {
+  overlays.forEach((overlay, i) => {
+    const pane = map.getPane(overlayPaneName(overlay.id))
+    if (!pane) return
+    pane.style.zIndex = String(OVERLAY_Z_INDEX + overlays.length - i)
+    pane.style.opacity = String(overlay.opacity)
+    pane.style.display = overlay.visible ? "" : "none"
+  })
+}
+
+/**
+ * Set the pane of a layer, and of every layer inside it for groups
+ */
+function setLayerPane(layer: L.Layer, pane: string) {
+  if (layer instanceof L.LayerGroup) {
+    layer.eachLayer((child) => setLayerPane(child, pane))
+    return
+  }
+  layer.options.pane = pane
+  if (layer instanceof L.Marker) layer.options.shadowPane = pane
+}
+
+/**
+ * Draw every layer added to a group into a pane, including layers Geoman and imports add later.
+ * Layers already on the map are taken off first, since Leaflet only reads the pane when a layer is added.
+ * @param group Layer group
+ * @param pane Pane name
+ * @returns The same group
+ */
+export function bindGroupToPane<T extends L.LayerGroup>(group: T, pane: string): T {
+  const addLayer = group.addLayer.bind(group)
+  group.addLayer = (layer: L.Layer) => {
+    const map = (layer as any)._map as L.Map | undefined
+    if (map) map.removeLayer(layer)
+    setLayerPane(layer, pane)
+    return addLayer(layer)
+  }
+  return group
+}
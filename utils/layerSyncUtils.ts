@@ -0,0 +1,94 @@
+import L from "leaflet"
+import "leaflet.markercluster"
+
+/**
+ * Layers built for keyed items on the previous sync, each with a signature of the data it was built from.
+ * `context` holds whatever every layer depends on (style sheet, renderer); when it changes all layers are rebuilt.
+ */
+export type KeyedLayerCache = {
+  layers: Map<string, { signature: string; layer: L.Layer }>
+  context: unknown[]
+}
+
+export type KeyedItem<T> = {
+  id: string
+  signature: string
+  item: T
+}
+
+/**
+ * Create an empty layer cache
+ * @returns Cache with no layers
+ */
+export function createKeyedLayerCache(): KeyedLayerCache {
+  return { layers: new Map(), context: [] }
+}
+
+/**
+ * Work out which layers to add and remove so a layer group matches a list of keyed items.
+ * Items with an unchanged signature keep their layer; changed and new items get a new one.
+ * @param cache Layers from the previous sync; updated in place
+ * @param items Current items; repeated ids are told apart by position
+ * @param createLayer Build the layer for an item, or null to leave it off the map
+ * @param context Values every layer depends on, compared by identity
+ * @returns Layers to add to and remove from the group
+ */
+export function diffKeyedLayers<T>(
+  cache: KeyedLayerCache,
+  items: KeyedItem<T>[],
+  createLayer: (item: T) => L.Layer | null,
+  context: unknown[] = [],
+): { added: L.Layer[]; removed: L.Layer[] } {
+  const added: L.Layer[] = []
+  const removed: L.Layer[] = []
+
+  const contextChanged = context.length !== cache.context.length || context.some((v, i) => v !== cache.context[i])
+  if (contextChanged) {
+    cache.layers.forEach((entry) => removed.push(entry.layer))
+    cache.layers.clear()
+    cache.context = context
+  }
+
+  const seen = new Set<string>()
+  items.forEach(({ id, signature, item }) => {
+    let key = id
+    for (let n = 1; seen.has(key); n++) key = `${id}#${n}`
+    seen.add(key)
+
+    const cached = cache.layers.get(key)
+    if (cached?.signature === signature) return
+    if (cached) removed.push(cached.layer)
+
+    const layer = createLayer(item)
+    if (layer) {
+      cache.layers.set(key, { signature, layer })
+      added.push(layer)
+    } else {
+      cache.layers.delete(key)
+    }
+  })
+
+  cache.layers.forEach((entry, key) => {
+    if (seen.has(key)) return
+    removed.push(entry.layer)
+    cache.layers.delete(key)
+  })
+
+  return { added, removed }
+}
+
+/**
+ * Apply a layer diff to a group, in bulk for marker cluster groups
+ * @param group Layer group or marker cluster group
+ * @param diff Layers to add and remove
+ */
+export function applyLayerDiff(group: L.LayerGroup, { added, removed }: { added: L.Layer[]; removed: L.Layer[] }) {
+  if (group instanceof L.MarkerClusterGroup) {
+    if (removed.length > 0) group.removeLayers(removed)
+    if (added.length > 0) group.addLayers(added)
+    return
+  }
+
+  removed.forEach((layer) => group.removeLayer(layer))
+  added.forEach((layer) => group.addLayer(layer))
+}
@@ -1,33 +1,148 @@
 import L from "leaflet"
+import type { MultiPolygon, Polygon } from "geojson"
+
+export type LatLng = { lat: number; lng: number }
+
+/**
+ * A work area: one or more polygons, each an outer ring followed by any holes
+ * (same nesting as GeoJSON MultiPolygon coordinates)
+ */
+export type WorkArea = {
+  id: string
+  name: string
+  coordinates: LatLng[][][]
+  area: number
+}
+
+/**
+ * Normalize the nested LatLngs of a Leaflet polygon into polygon parts
+ * @param latlngs Result of L.Polygon#getLatLngs (flat ring, rings, or multi-polygon)
+ * @returns Polygon parts, each an outer ring followed by holes
+ */
+export function toPolygonParts(latlngs: any[]): LatLng[][][] {
+  const toCoords = (ring: L.LatLng[]) => ring.map((ll) => ({ lat: ll.lat, lng: ll.lng }))
+
+  if (latlngs.length === 0) return []
+  if (L.LineUtil.isFlat(latlngs)) {
+    return [[toCoords(latlngs as L.LatLng[])]]
+  }
+  if (L.LineUtil.isFlat(latlngs[0])) {
+    return [(latlngs as L.LatLng[][]).map(toCoords)]
+  }
+  return (latlngs as L.LatLng[][][]).map((part) => part.map(toCoords))
+}
 
 /**
- * Calculate polygon area in square meters using spherical excess formula
- * @param latlngs Array of Leaflet LatLng points
- * @returns Area in square meters
+ * Convert a GeoJSON Polygon or MultiPolygon into polygon parts with open rings
+ * @param geometry GeoJSON polygon geometry
+ * @returns Polygon parts, each an outer ring followed by holes
  */
-export function calculateArea(latlngs: L.LatLng[]): number {
-  if (latlngs.length < 3) return 0
+export function geoJSONToPolygonParts(geometry: Polygon | MultiPolygon): LatLng[][][] {
+  const polygons = geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates
+  return polygons.map((rings) => rings.map((ring) => ring.slice(0, -1).map(([lng, lat]) => ({ lat, lng }))))
+}
 
-  const EARTH_RADIUS = 6378137 // Earth's radius in meters
+/**
+ * Combine work areas into a single GeoJSON MultiPolygon
+ * @param workAreas Work areas to combine
+ * @returns GeoJSON MultiPolygon geometry, with rings closed
+ */
+export function workAreasToMultiPolygon(workAreas: WorkArea[]): MultiPolygon {
+  return {
+    type: "MultiPolygon",
+    coordinates: workAreas.flatMap((workArea) =>
+      workArea.coordinates.map((rings) =>
+        rings.map((ring) => {
+          const positions = ring.map((c) => [c.lng, c.lat])
+          return positions.length > 0 ? [...positions, positions[0]] : positions
+        }),
+      ),
+    ),
+  }
+}
+
+/**
+ * Layers that new and edited geometry can snap to
+ */
+export type SnapTarget = "workArea" | "record" | "records" | "shapes"
+
+/**
+ * Snapping behaviour while drawing and editing
+ */
+export type SnappingOptions = {
+  enabled?: boolean
+  toleranceMeters?: number
+  targets?: Partial<Record<SnapTarget, boolean>>
+}
+
+/**
+ * Marker clustering for bubbles and point records, applied when the map is created
+ */
+export type ClusteringOptions = {
+  // Pixel radius points are grouped within (default: 60)
+  maxClusterRadius?: number
+  // Zoom level from which every point is shown on its own
+  disableClusteringAtZoom?: number
+}
+
+/**
+ * Convert a ground distance to screen pixels at a latitude and Web Mercator zoom level
+ * @param meters Ground distance in meters
+ * @param lat Latitude the distance is measured at
+ * @param zoom Map zoom level
+ * @returns Distance in pixels
+ */
+export function metersToPixels(meters: number, lat: number, zoom: number): number {
+  const metersPerPixel = (40075016.686 * Math.cos((lat * Math.PI) / 180)) / Math.pow(2, zoom + 8)
+  return meters / metersPerPixel
+}
 
-  // Convert to radians
-  const toRad = (deg: number) => (deg * Math.PI) / 180
+/**
+ * Find the point a click should snap to: the nearest vertex within the tolerance, otherwise the nearest
+ * point on an edge. Layers marked `snapIgnore` are skipped, as Geoman skips them.
+ * @param map Leaflet map
+ * @param latlng Clicked position
+ * @param layers Layers and layer groups to snap to
+ * @param tolerance Snap distance in pixels
+ * @returns Snapped position, or null when nothing is within the tolerance
+ */
+export function findSnapPoint(map: L.Map, latlng: L.LatLng, layers: L.Layer[], tolerance: number): L.LatLng | null {
+  const origin = map.latLngToLayerPoint(latlng)
+  const nearest: Record<"vertex" | "edge", { point: L.Point; distance: number } | null> = { vertex: null, edge: null }
+  const consider = (kind: "vertex" | "edge", point: L.Point) => {
+    const distance = point.distanceTo(origin)
+    const current = nearest[kind]
+    if (distance <= tolerance && (!current || distance < current.distance)) {
+      nearest[kind] = { point, distance }
+    }
+  }
+  const rings = (latlngs: any[]): L.LatLng[][] => (L.LineUtil.isFlat(latlngs) ? [latlngs] : latlngs.flatMap(rings))
 
-  let area = 0
-  const points = latlngs.map((ll) => ({
-    lat: toRad(ll.lat),
-    lng: toRad(ll.lng),
-  }))
+  const visit = (layer: L.Layer) => {
+    if (layer instanceof L.LayerGroup) {
+      layer.eachLayer(visit)
+      return
+    }
+    if (layer.options.snapIgnore) return
 
-  // Calculate area using spherical excess
-  for (let i = 0; i < points.length; i++) {
-    const p1 = points[i]
-    const p2 = points[(i + 1) % points.length]
-    area += (p2.lng - p1.lng) * (2 + Math.sin(p1.lat) + Math.sin(p2.lat))
+    if (layer instanceof L.Marker || layer instanceof L.CircleMarker) {
+      consider("vertex", map.latLngToLayerPoint(layer.getLatLng()))
+    } else if (layer instanceof L.Polyline) {
+      const closed = layer instanceof L.Polygon
+      rings(layer.getLatLngs()).forEach((ring) => {
+        const points = ring.map((ll) => map.latLngToLayerPoint(ll))
+        points.forEach((point, i) => {
+          consider("vertex", point)
+          const next = points[i + 1] ?? (closed ? points[0] : null)
+          if (next) consider("edge", L.LineUtil.closestPointOnSegment(origin, point, next))
+        })
+      })
+    }
   }
+  layers.forEach(visit)
 
-  area = Math.abs((area * EARTH_RADIUS * EARTH_RADIUS) / 2)
-  return area
+  const snapped = nearest.vertex ?? nearest.edge
+  return snapped ? map.layerPointToLatLng(snapped.point) : null
 }
 
 /**
@@ -70,11 +185,7 @@ export function formatArea(sqMeters: number): string {
  * @param tolerance Tolerance for floating point comparison (default: 0.000001)
  * @returns True if coordinates match within tolerance
  */
-export function areCoordinatesEqual(
-  coords1: { lat: number; lng: number }[],
-  coords2: { lat: number; lng: number }[],
-  tolerance = 0.000001,
-): boolean {
+export function areCoordinatesEqual(coords1: LatLng[], coords2: LatLng[], tolerance = 0.000001): boolean {
   if (coords1.length !== coords2.length) return false
 
   return coords1.every((coord, index) => {
@@ -136,34 +247,124 @@ export function downloadGeoJSON(geojson: any, filename?: string): void {
   URL.revokeObjectURL(url)
 }
 
+/**
+ * A basemap tile source: XYZ tiles, a WMS service, or a WMTS layer.
+ * WMTS `url` is either the KVP endpoint or a RESTful template with {TileMatrix}, {TileRow} and {TileCol};
+ * the tile matrix set must be web mercator with one matrix per zoom level, named by `tileMatrix` (default "{z}").
+ */
+export type BasemapSource = {
+  name: string
+  url: string
+  attribution?: string
+  minZoom?: number
+  maxZoom?: number
+  subdomains?: string | string[]
+} & (
+  | { type: "xyz"; tms?: boolean }
+  | { type: "wms"; layers: string; styles?: string; format?: string; transparent?: boolean; version?: string }
+  | { type: "wmts"; layer: string; tileMatrixSet: string; tileMatrix?: string; style?: string; format?: string }
+)
+
+/**
+ * Basemaps by key, in switcher order
+ */
+export type BasemapRegistry = Record<string, BasemapSource>
+
 /**
  * ESRI basemap configurations
  */
 export const ESRI_BASEMAPS = {
   streets: {
+    type: "xyz",
     name: "Streets",
     url: "https://server.arcgisonline.com/ArcGIS/rest/services/World_Street_Map/MapServer/tile/{z}/{y}/{x}",
     attribution: "Tiles &copy; Esri",
     maxZoom: 18,
   },
   lightGray: {
+    type: "xyz",
     name: "Light Gray",
     url: "https://server.arcgisonline.com/ArcGIS/rest/services/Canvas/World_Light_Gray_Base/MapServer/tile/{z}/{y}/{x}",
     attribution: "Tiles &copy; Esri",
     maxZoom: 16,
   },
   darkGray: {
+    type: "xyz",
     name: "Dark Gray",
     url: "https://server.arcgisonline.com/ArcGIS/rest/services/Canvas/World_Dark_Gray_Base/MapServer/tile/{z}/{y}/{x}",
     attribution: "Tiles &copy; Esri",
     maxZoom: 16,
   },
   imagery: {
+    type: "xyz",
     name: "Imagery",
     url: "https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}",
     attribution: "Tiles &copy; Esri",
     maxZoom: 18,
   },
-} as const
+} as const satisfies BasemapRegistry
 
-export type BasemapType = keyof typeof ESRI_BASEMAPS
+// Key of a basemap in the registry; the ESRI keys are kept for editor suggestions
+export type BasemapType = keyof typeof ESRI_BASEMAPS | (string & {})
+
+/**
+ * Create the tile layer for a basemap
+ * @param source Basemap source
+ * @returns Tile layer, not yet added to a map
+ */
+export function createBasemapLayer(source: BasemapSource): L.TileLayer {
+  // Leaflet copies undefined options over its defaults, so leave unset ones out
+  const options = Object.fromEntries(
+    Object.entries({
+      attribution: source.attribution,
+      minZoom: source.minZoom,
+      maxZoom: source.maxZoom,
+      subdomains: source.subdomains,
+    }).filter(([, value]) => value !== undefined),
+  )
+
+  if (source.type === "wms") {
+    return L.tileLayer.wms(source.url, {
+      ...options,
+      layers: source.layers,
+      styles: source.styles ?? "",
+      format: source.format ?? "image/png",
+      transparent: source.transparent ?? false,
+      version: source.version ?? "1.1.1",
+    })
+  }
+
+  if (source.type === "wmts") {
+    return L.tileLayer(getWmtsTemplate(source), options)
+  }
+
+  return L.tileLayer(source.url, { ...options, tms: source.tms ?? false })
+}
+
+/**
+ * The tile URL template of a WMTS source, as given to L.tileLayer
+ * @param source WMTS basemap source
+ * @returns URL template with {x}, {y} and {z}
+ */
+export function getWmtsTemplate(source: Extract<BasemapSource, { type: "wmts" }>): string {
+  const tileMatrix = source.tileMatrix ?? "{z}"
+  const values: Record<string, string> = {
+    Layer: source.layer,
+    Style: source.style ?? "default",
+    TileMatrixSet: source.tileMatrixSet,
+    TileMatrix: tileMatrix,
+    TileRow: "{y}",
+    TileCol: "{x}",
+  }
+
+  if (source.url.includes("{TileMatrix}")) {
+    return source.url.replace(/\{(Layer|Style|TileMatrixSet|TileMatrix|TileRow|TileCol)\}/g, (_, key) => values[key])
+  }
+
+  return (
+    `${source.url}${source.url.includes("?") ? "&" : "?"}SERVICE=WMTS&REQUEST=GetTile&VERSION=1.0.0` +
+    `&LAYER=${encodeURIComponent(values.Layer)}&STYLE=${encodeURIComponent(values.Style)}` +
+    `&TILEMATRIXSET=${encodeURIComponent(values.TileMatrixSet)}&TILEMATRIX=${tileMatrix}` +
+    `&TILEROW={y}&TILECOL={x}&FORMAT=${encodeURIComponent(source.format ?? "image/png")}`
+  )
+}
@@ -0,0 +1,178 @@
+import { describe, expect, it } from "vitest"
+import {
+  formatBearing,
+  formatLength,
+  geodesicArea,
+  geodesicBearing,
+  geodesicDistance,
+  geodesicInverse,
+  geodesicLength,
+  geodesicPolygonArea,
+  geodesicPolygonPerimeter,
+  measurePath,
+} from "@/utils/measurementUtils"
+
+const ll = (lat: number, lng: number) => ({ lat, lng })
+
+// Reference values from the GeographicLib documentation (Karney, "Algorithms for geodesics", 2013)
+const WELLINGTON = ll(-41.32, 174.81)
+const SALAMANCA = ll(40.96, -5.5)
+
+// Antarctica outline from the GeographicLib polygon area example: crosses the antimeridian and encloses the pole
+const ANTARCTICA = [
+  [-63.1, -58],
+  [-72.9, -74],
+  [-71.9, -102],
+  [-74.9, -102],
+  [-74.3, -131],
+  [-77.5, -163],
+  [-77.4, 163],
+  [-71.7, 172],
+  [-65.9, 140],
+  [-65.7, 113],
+  [-66.6, 88],
+  [-66.9, 59],
+  [-69.8, 25],
+  [-70.0, -4],
+  [-71.0, -14],
+  [-77.3, -33],
+  [-77.9, -46],
+  [-74.7, -61],
+].map(([lat, lng]) => ll(lat, lng))
+
+// WGS84 quarter meridian and one degree of the equator
+const QUARTER_MERIDIAN = 10001965.729313
+const EQUATOR_DEGREE = 111319.490793
+
+describe("geodesicInverse", () => {
+  it("matches the Wellington to Salamanca reference solution", () => {
+    const result = geodesicInverse(WELLINGTON, SALAMANCA)
+    expect(result.distance).toBeCloseTo(19959679.267354, 5)
+    expect(result.initialBearing).toBeCloseTo(161.06766998616, 9)
+    expect(result.finalBearing).toBeCloseTo(18.825195123247, 9)
+  })
+
+  it("normalizes bearings to [0, 360)", () => {
+    // Reversing the geodesic turns the reference azimuths around: -161.07° and -18.83° from geographiclib
+    const result = geodesicInverse(SALAMANCA, WELLINGTON)
+    expect(result.initialBearing).toBeCloseTo(198.825195123247, 9)
+    expect(result.finalBearing).toBeCloseTo(341.06766998616, 9)
+  })
+})
+
+describe("geodesicDistance", () => {
+  it("measures a quarter meridian from the pole to the equator", () => {
+    expect(geodesicDistance(ll(90, 0), ll(0, 0))).toBeCloseTo(QUARTER_MERIDIAN, 5)
+    expect(geodesicDistance(ll(-90, 45), ll(0, 45))).toBeCloseTo(QUARTER_MERIDIAN, 5)
+  })
+
+  it("takes the short way across the antimeridian", () => {
+    expect(geodesicDistance(ll(0, 179.5), ll(0, -179.5))).toBeCloseTo(EQUATOR_DEGREE, 5)
+  })
+
+  it("is zero between identical points", () => {
+    expect(geodesicDistance(WELLINGTON, WELLINGTON)).toBe(0)
+  })
+})
+
+describe("geodesicBearing", () => {
+  it("points east along the equator, including across the antimeridian", () => {
+    expect(geodesicBearing(ll(0, 0), ll(0, 1))).toBeCloseTo(90, 9)
+    expect(geodesicBearing(ll(0, 179.5), ll(0, -179.5))).toBeCloseTo(90, 9)
+    expect(geodesicBearing(ll(0, -179.5), ll(0, 179.5))).toBeCloseTo(270, 9)
+  })
+
+  it("points north and south along meridians", () => {
+    expect(geodesicBearing(ll(0, 10), ll(89, 10))).toBeCloseTo(0, 9)
+    expect(geodesicBearing(ll(0, 10), ll(-89, 10))).toBeCloseTo(180, 9)
+  })
+})
+
+describe("geodesicLength", () => {
+  it("sums segment lengths", () => {
+    const path = [ll(0, 179), ll(0, 179.5), ll(0, -179.5)]
+    expect(geodesicLength(path)).toBeCloseTo(EQUATOR_DEGREE * 1.5, 4)
+  })
+
+  it("is zero for fewer than two points", () => {
+    expect(geodesicLength([])).toBe(0)
+    expect(geodesicLength([WELLINGTON])).toBe(0)
+  })
+})
+
+describe("geodesicArea", () => {
+  it("matches the GeographicLib Antarctica reference area", () => {
+    expect(geodesicArea(ANTARCTICA)).toBeCloseTo(13662703680020.1, 0)
+  })
+
+  it("ignores winding direction and a repeated closing vertex", () => {
+    const reversed = [...ANTARCTICA].reverse()
+    const closed = [...ANTARCTICA, ANTARCTICA[0]]
+    expect(geodesicArea(reversed)).toBeCloseTo(13662703680020.1, 0)
+    expect(geodesicArea(closed)).toBeCloseTo(13662703680020.1, 0)
+  })
+
+  it("is zero for degenerate rings", () => {
+    expect(geodesicArea([ll(0, 0), ll(0, 1)])).toBe(0)
+  })
+})
+
+describe("geodesicPolygonArea", () => {
+  const outer = [ll(0, 0), ll(0, 2), ll(2, 2), ll(2, 0)]
+  const hole = [ll(0.5, 0.5), ll(1.5, 0.5), ll(1.5, 1.5), ll(0.5, 1.5)]
+
+  it("subtracts holes", () => {
+    expect(geodesicPolygonArea([[outer, hole]])).toBeCloseTo(geodesicArea(outer) - geodesicArea(hole), 3)
+  })
+
+  it("adds up parts", () => {
+    expect(geodesicPolygonArea([[outer], [ANTARCTICA]])).toBeCloseTo(geodesicArea(outer) + 13662703680020.1, 0)
+  })
+})
+
+describe("geodesicPolygonPerimeter", () => {
+  it("matches the GeographicLib Antarctica reference perimeter", () => {
+    expect(geodesicPolygonPerimeter([[ANTARCTICA]])).toBeCloseTo(16831067.893, 3)
+  })
+
+  it("includes hole boundaries", () => {
+    const outer = [ll(0, 0), ll(0, 2), ll(2, 2), ll(2, 0)]
+    const hole = [ll(0.5, 0.5), ll(1.5, 0.5), ll(1.5, 1.5), ll(0.5, 1.5)]
+    expect(geodesicPolygonPerimeter([[outer, hole]])).toBeCloseTo(
+      geodesicPolygonPerimeter([[outer]]) + geodesicPolygonPerimeter([[hole]]),
+      6,
+    )
+  })
+})
+
+describe("measurePath", () => {
+  it("measures an open path without an area", () => {
+    const result = measurePath([ll(0, 179.5), ll(0, -179.5)])
+    expect(result.segments).toHaveLength(1)
+    expect(result.segments[0].bearing).toBeCloseTo(90, 9)
+    expect(result.length).toBeCloseTo(EQUATOR_DEGREE, 5)
+    expect(result.area).toBeNull()
+  })
+
+  it("closes polygons and reports their area", () => {
+    const result = measurePath(ANTARCTICA, true)
+    expect(result.segments).toHaveLength(ANTARCTICA.length)
+    expect(result.length).toBeCloseTo(16831067.893, 3)
+    expect(result.area).toBeCloseTo(13662703680020.1, 0)
+  })
+
+  it("has no area for closed paths with fewer than three points", () => {
+    expect(measurePath([ll(0, 0), ll(0, 1)], true).area).toBeNull()
+  })
+})
+
+describe("formatting", () => {
+  it("formats lengths in meters and kilometers", () => {
+    expect(formatLength(12.345)).toBe("12.35 m")
+    expect(formatLength(QUARTER_MERIDIAN)).toBe("10001.966 km")
+  })
+
+  it("formats bearings with one decimal", () => {
+    expect(formatBearing(161.06766998616)).toBe("161.1°")
+  })
+})
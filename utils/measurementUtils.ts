@@ -0,0 +1,163 @@
+import { Geodesic } from "geographiclib-geodesic"
+import type { LatLng } from "@/utils/mapUtils"
+
+// Karney's algorithms on the WGS84 ellipsoid, accurate to a few nanometers for distances
+// and independent of polygon size, unlike spherical or planar approximations
+const geod = Geodesic.WGS84
+
+/**
+ * Geodesic distance and bearings between two points
+ */
+export type GeodesicInverse = {
+  distance: number
+  initialBearing: number
+  finalBearing: number
+}
+
+/**
+ * Normalize an azimuth in degrees to the range [0, 360)
+ * @param azimuth Azimuth in degrees, as returned by geographiclib (-180, 180]
+ * @returns Bearing clockwise from true north
+ */
+function toBearing(azimuth: number): number {
+  return (azimuth + 360) % 360
+}
+
+/**
+ * Solve the inverse geodesic problem between two points
+ * @param from Start point
+ * @param to End point
+ * @returns Distance in meters and initial/final bearings in degrees clockwise from true north
+ */
+export function geodesicInverse(from: LatLng, to: LatLng): GeodesicInverse {
+  const result = geod.Inverse(from.lat, from.lng, to.lat, to.lng)
+  return {
+    distance: result.s12 ?? 0,
+    initialBearing: toBearing(result.azi1 ?? 0),
+    finalBearing: toBearing(result.azi2 ?? 0),
+  }
+}
+
+/**
+ * Calculate the geodesic distance between two points
+ * @param from Start point
+ * @param to End point
+ * @returns Distance in meters
+ */
+export function geodesicDistance(from: LatLng, to: LatLng): number {
+  return geodesicInverse(from, to).distance
+}
+
+/**
+ * Calculate the initial bearing (forward azimuth) from one point to another
+ * @param from Start point
+ * @param to End point
+ * @returns Bearing in degrees clockwise from true north, in [0, 360)
+ */
+export function geodesicBearing(from: LatLng, to: LatLng): number {
+  return geodesicInverse(from, to).initialBearing
+}
+
+/**
+ * Calculate the length of a polyline along geodesics
+ * @param latlngs Polyline vertices
+ * @returns Length in meters
+ */
+export function geodesicLength(latlngs: LatLng[]): number {
+  return latlngs.slice(1).reduce((total, point, i) => total + geodesicDistance(latlngs[i], point), 0)
+}
+
+/**
+ * Calculate the ellipsoidal area and perimeter of a single ring.
+ * The ring may be open or closed and wound in either direction.
+ * @param ring Ring vertices
+ * @returns Area in square meters and perimeter in meters
+ */
+function measureRing(ring: LatLng[]): { area: number; perimeter: number } {
+  if (ring.length < 3) return { area: 0, perimeter: 0 }
+
+  const polygon = geod.Polygon(false)
+  ring.forEach((ll) => polygon.AddPoint(ll.lat, ll.lng))
+  const result = polygon.Compute(false, true)
+  return { area: Math.abs(result.area ?? 0), perimeter: result.perimeter }
+}
+
+/**
+ * Calculate the ellipsoidal area of a single ring
+ * @param ring Ring vertices (open or closed, either winding)
+ * @returns Area in square meters
+ */
+export function geodesicArea(ring: LatLng[]): number {
+  return measureRing(ring).area
+}
+
+/**
+ * Calculate the area of a multi-part polygon, subtracting holes
+ * @param parts Polygon parts, each an outer ring followed by holes
+ * @returns Area in square meters
+ */
+export function geodesicPolygonArea(parts: LatLng[][][]): number {
+  return parts.reduce((total, [outer, ...holes]) => {
+    const holeArea = holes.reduce((sum, hole) => sum + geodesicArea(hole), 0)
+    return total + Math.max(0, geodesicArea(outer ?? []) - holeArea)
+  }, 0)
+}
+
+/**
+ * Calculate the perimeter of a multi-part polygon, including the boundaries of holes
+ * @param parts Polygon parts, each an outer ring followed by holes
+ * @returns Perimeter in meters
+ */
+export function geodesicPolygonPerimeter(parts: LatLng[][][]): number {
+  return parts.flat().reduce((total, ring) => total + measureRing(ring).perimeter, 0)
+}
+
+/**
+ * A measured path: each segment's length and bearing, plus totals
+ */
+export type PathMeasurement = {
+  segments: { from: LatLng; to: LatLng; length: number; bearing: number }[]
+  length: number
+  area: number | null
+}
+
+/**
+ * Measure a path as a line, or as a polygon including its closing segment
+ * @param points Path vertices
+ * @param closed Whether the path is a polygon (needs at least 3 vertices to have an area)
+ * @returns Per-segment lengths and bearings, total length (perimeter when closed) and area when closed
+ */
+export function measurePath(points: LatLng[], closed = false): PathMeasurement {
+  const isPolygon = closed && points.length >= 3
+  const vertices = isPolygon ? [...points, points[0]] : points
+
+  const segments = vertices.slice(1).map((to, i) => {
+    const from = vertices[i]
+    const { distance, initialBearing } = geodesicInverse(from, to)
+    return { from, to, length: distance, bearing: initialBearing }
+  })
+
+  return {
+    segments,
+    length: segments.reduce((total, segment) => total + segment.length, 0),
+    area: isPolygon ? geodesicArea(points) : null,
+  }
+}
+
+/**
+ * Format a length for display with appropriate units
+ * @param meters Length in meters
+ * @returns Formatted string in meters or kilometers
+ */
+export function formatLength(meters: number): string {
+  return meters < 1000 ? `${meters.toFixed(2)} m` : `${(meters / 1000).toFixed(3)} km`
+}
+
+/**
+ * Format a bearing for display
+ * @param degrees Bearing in degrees clockwise from true north
+ * @returns Bearing with one decimal and a degree sign
+ */
+export function formatBearing(degrees: number): string {
+  return `${degrees.toFixed(1)}°`
+}
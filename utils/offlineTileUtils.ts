@@ -0,0 +1,279 @@
+import L from "leaflet"
+import { bboxPolygon, booleanIntersects, multiPolygon } from "@turf/turf"
+import { getWmtsTemplate, type BasemapSource, type LatLng } from "@/utils/mapUtils"
+import { tilesForBBox, tileToBBox, type BBox } from "@/utils/recordSourceUtils"
+
+/**
+ * An area whose basemap tiles are stored for offline use
+ */
+export type OfflineRegion = {
+  id: string
+  name: string
+  basemap: string
+  minZoom: number
+  maxZoom: number
+  bbox: BBox
+  // Work area outline; without it the whole bounding box is stored
+  parts?: LatLng[][][]
+  tileCount: number
+  bytes: number
+  createdAt: string
+}
+
+export type OfflineRegionArea = Pick<OfflineRegion, "bbox" | "parts" | "minZoom" | "maxZoom">
+
+export type OfflineDownloadProgress = {
+  done: number
+  total: number
+  failed: number
+  bytes: number
+}
+
+type Tile = { x: number; y: number; z: number }
+
+const CACHE_NAME = "map-with-drawing-tiles"
+const REGIONS_KEY = "map-with-drawing-offline-regions"
+
+// Tiles are stored under synthetic URLs so every subdomain and URL variant of a tile shares one entry
+const CACHE_ORIGIN = "https://offline-tiles.invalid"
+
+// Rough size of a 256px basemap tile, for estimates before anything is downloaded
+export const ESTIMATED_TILE_BYTES = 20 * 1024
+
+// Largest download allowed in one region
+export const MAX_OFFLINE_TILES = 20000
+
+const DOWNLOAD_CONCURRENCY = 6
+
+const cacheKey = (basemap: string, { x, y, z }: Tile) => `${CACHE_ORIGIN}/${encodeURIComponent(basemap)}/${z}/${x}/${y}`
+
+/**
+ * Whether the browser can store tiles offline
+ * @returns True when the Cache API is available (secure contexts only)
+ */
+export function isOfflineCacheSupported(): boolean {
+  return typeof window !== "undefined" && "caches" in window
+}
+
+/**
+ * Clamp a zoom range to the zoom levels a basemap serves
+ * @param source Basemap source
+ * @param minZoom Requested lowest zoom
+ * @param maxZoom Requested highest zoom
+ * @returns Zoom range within the basemap's minZoom and maxZoom
+ */
+export function clampZoomRange(source: BasemapSource, minZoom: number, maxZoom: number): [number, number] {
+  const lowest = source.minZoom ?? 0
+  const highest = source.maxZoom ?? 18
+  const min = Math.max(lowest, Math.min(highest, Math.round(minZoom)))
+  return [min, Math.max(min, Math.min(highest, Math.round(maxZoom)))]
+}
+
+/**
+ * List the tiles covering an area over a zoom range
+ * @param area Bounding box, optional outline and zoom range
+ * @param limit Stop counting after this many tiles (default: no limit)
+ * @returns Tiles from the lowest zoom up
+ */
+export function listRegionTiles(area: OfflineRegionArea, limit = Infinity): Tile[] {
+  const outline = area.parts?.length
+    ? multiPolygon(area.parts.map((polygon) => polygon.map((ring) => [...ring, ring[0]].map((c) => [c.lng, c.lat]))))
+    : null
+
+  const tiles: Tile[] = []
+  for (let z = area.minZoom; z <= area.maxZoom && tiles.length < limit; z++) {
+    tilesForBBox(area.bbox, z).forEach((tile) => {
+      if (tiles.length >= limit) return
+      if (outline && !booleanIntersects(bboxPolygon(tileToBBox(tile)), outline)) return
+      tiles.push(tile)
+    })
+  }
+  return tiles
+}
+
+/**
+ * Build the network URL of a basemap tile
+ * @param source Basemap source
+ * @param tile Tile coordinates
+ * @returns Tile URL
+ */
+export function getBasemapTileUrl(source: BasemapSource, { x, y, z }: Tile): string {
+  const subdomains = source.subdomains ?? "abc"
+  const s = subdomains[Math.abs(x + y) % subdomains.length]
+
+  if (source.type === "wms") {
+    const [west, south, east, north] = tileToBBox({ x, y, z })
+    const min = L.CRS.EPSG3857.project(L.latLng(south, west))
+    const max = L.CRS.EPSG3857.project(L.latLng(north, east))
+    const version = source.version ?? "1.1.1"
+    const params = {
+      service: "WMS",
+      request: "GetMap",
+      layers: source.layers,
+      styles: source.styles ?? "",
+      format: source.format ?? "image/png",
+      transparent: source.transparent ?? false,
+      version,
+      width: 256,
+      height: 256,
+      [parseFloat(version) >= 1.3 ? "crs" : "srs"]: "EPSG:3857",
+    }
+    const url = L.Util.template(source.url, { s })
+    return `${url}${L.Util.getParamString(params, url)}&bbox=${[min.x, min.y, max.x, max.y].join(",")}`
+  }
+
+  // Same template createBasemapLayer gives Leaflet, filled in for one tile
+  const template = source.type === "wmts" ? getWmtsTemplate(source) : source.url
+  const row = source.type === "xyz" && source.tms ? 2 ** z - 1 - y : y
+  return L.Util.template(template, { s, x, y: row, z, r: "" })
+}
+
+/**
+ * Download the tiles of an area into the offline cache. Tiles already cached are skipped.
+ * @param basemap Basemap key the tiles are stored under
+ * @param source Basemap source
+ * @param area Bounding box, optional outline and zoom range
+ * @param onProgress Called after each tile
+ * @param signal Cancels the download; tiles stored so far are kept
+ * @returns Final progress, with the bytes of every tile in the area
+ */
+export async function downloadRegionTiles(
+  basemap: string,
+  source: BasemapSource,
+  area: OfflineRegionArea,
+  onProgress: (progress: OfflineDownloadProgress) => void,
+  signal?: AbortSignal,
+): Promise<OfflineDownloadProgress> {
+  const cache = await caches.open(CACHE_NAME)
+  const tiles = listRegionTiles(area)
+  const progress: OfflineDownloadProgress = { done: 0, total: tiles.length, failed: 0, bytes: 0 }
+
+  let next = 0
+  const worker = async () => {
+    while (next < tiles.length && !signal?.aborted) {
+      const tile = tiles[next++]
+      const key = cacheKey(basemap, tile)
+
+      try {
+        const cached = await cache.match(key)
+        if (cached) {
+          progress.bytes += (await cached.blob()).size
+        } else {
+          const response = await fetch(getBasemapTileUrl(source, tile), { mode: "cors", signal })
+          if (!response.ok) throw new Error(`Tile request failed: ${response.status}`)
+          const blob = await response.blob()
+          await cache.put(key, new Response(blob, { headers: { "Content-Type": blob.type } }))
+          progress.bytes += blob.size
+        }
+      } catch {
+        if (signal?.aborted) return
+        progress.failed++
+      }
+
+      progress.done++
+      onProgress({ ...progress })
+    }
+  }
+
+  await Promise.all(Array.from({ length: DOWNLOAD_CONCURRENCY }, worker))
+  return progress
+}
+
+/**
+ * Read the offline regions saved in this browser
+ * @returns Regions, oldest first
+ */
+export function loadOfflineRegions(): OfflineRegion[] {
+  try {
+    const value = JSON.parse(window.localStorage.getItem(REGIONS_KEY) ?? "[]")
+    return Array.isArray(value) ? value : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Save the list of offline regions
+ * @param regions Regions to keep
+ */
+export function saveOfflineRegions(regions: OfflineRegion[]): void {
+  window.localStorage.setItem(REGIONS_KEY, JSON.stringify(regions))
+}
+
+/**
+ * Delete a region's tiles from the offline cache, keeping tiles another region still covers
+ * @param region Region to delete
+ * @param remaining Regions that stay
+ */
+export async function deleteRegionTiles(region: OfflineRegion, remaining: OfflineRegion[]): Promise<void> {
+  const cache = await caches.open(CACHE_NAME)
+  const kept = new Set(
+    remaining
+      .filter((other) => other.basemap === region.basemap)
+      .flatMap((other) => listRegionTiles(other).map((tile) => cacheKey(other.basemap, tile))),
+  )
+
+  await Promise.all(
+    listRegionTiles(region)
+      .map((tile) => cacheKey(region.basemap, tile))
+      .filter((key) => !kept.has(key))
+      .map((key) => cache.delete(key)),
+  )
+}
+
+/**
+ * Make a basemap layer read tiles from the offline cache first, falling back to the network
+ * @param layer Basemap tile layer
+ * @param basemap Basemap key the tiles are stored under
+ * @returns The same layer
+ */
+export function withOfflineTiles(layer: L.TileLayer, basemap: string): L.TileLayer {
+  if (!isOfflineCacheSupported()) return layer
+
+  // Same as L.TileLayer#createTile (protected, hence the assign), except the source is looked up in the cache first.
+  // Its load handlers are protected too, so they're read by index, which TypeScript allows.
+  return Object.assign(layer, {
+    createTile(this: L.TileLayer, coords: L.Coords, done: L.DoneCallback) {
+      const tile = document.createElement("img")
+      L.DomEvent.on(tile, "load", L.Util.bind(this["_tileOnLoad"], this, done, tile))
+      L.DomEvent.on(tile, "error", L.Util.bind(this["_tileOnError"], this, done, tile))
+      if (this.options.crossOrigin || this.options.crossOrigin === "") {
+        tile.crossOrigin = this.options.crossOrigin === true ? "" : this.options.crossOrigin
+      }
+      tile.alt = ""
+      tile.setAttribute("role", "presentation")
+
+      // Work out the URL now; it depends on the layer's current zoom
+      const url = this.getTileUrl(coords)
+      caches
+        .match(cacheKey(basemap, coords), { cacheName: CACHE_NAME })
+        .then((cached) => cached?.blob())
+        .then((blob) => {
+          if (!blob) {
+            tile.src = url
+            return
+          }
+          const objectUrl = URL.createObjectURL(blob)
+          tile.addEventListener("load", () => URL.revokeObjectURL(objectUrl), { once: true })
+          tile.src = objectUrl
+        })
+        .catch(() => {
+          tile.src = url
+        })
+
+      return tile
+    },
+  })
+}
+
+/**
+ * Format a byte count for display
+ * @param bytes Size in bytes
+ * @returns E.g. "12.4 MB"
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 ** 2) return `${(bytes / 1024).toFixed(1)} KB`
+  if (bytes < 1024 ** 3) return `${(bytes / 1024 ** 2).toFixed(1)} MB`
+  return `${(bytes / 1024 ** 3).toFixed(2)} GB`
+}
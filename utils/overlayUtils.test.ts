@@ -0,0 +1,114 @@
+import { describe, expect, it, vi } from "vitest"
+import { area } from "@turf/turf"
+import type { MultiPolygon } from "geojson"
+import type { LatLng } from "@/utils/mapUtils"
+import { overlayPolygons, splitPolygon } from "@/utils/overlayUtils"
+import type { PersistedFeature } from "@/utils/storageUtils"
+
+// Leaflet needs a browser to load; the geometry helpers under test don't use it
+vi.mock("leaflet", () => ({ default: {} }))
+
+const ll = (lat: number, lng: number): LatLng => ({ lat, lng })
+
+const rectangle = (south: number, west: number, north: number, east: number): LatLng[] => [
+  ll(south, west),
+  ll(south, east),
+  ll(north, east),
+  ll(north, west),
+]
+
+const polygon = (coordinates: LatLng[], parts?: LatLng[][][]): PersistedFeature => ({
+  id: "feature-1",
+  type: "polygon",
+  coordinates,
+  parts,
+  layerType: "workArea",
+})
+
+// Area in square meters of polygon parts
+const partsArea = (parts: LatLng[][][]) => {
+  const geometry: MultiPolygon = {
+    type: "MultiPolygon",
+    coordinates: parts.map((rings) => rings.map((ring) => [...ring, ring[0]].map(({ lat, lng }) => [lng, lat]))),
+  }
+  return area(geometry)
+}
+
+const vertices = (parts: LatLng[][][]) => parts.flat(2)
+
+// About 1.1 km across, near the equator
+const SQUARE = rectangle(0, 0, 0.01, 0.01)
+
+describe("overlayPolygons", () => {
+  const overlapping = polygon(rectangle(0.005, 0.005, 0.015, 0.015))
+
+  it("unions overlapping polygons", () => {
+    const parts = overlayPolygons(polygon(SQUARE), overlapping, "union")!
+    expect(parts).toHaveLength(1)
+    expect(partsArea(parts)).toBeCloseTo(partsArea([[SQUARE]]) * 1.75, 0)
+  })
+
+  it("subtracts the second polygon", () => {
+    const parts = overlayPolygons(polygon(SQUARE), overlapping, "difference")!
+    expect(partsArea(parts)).toBeCloseTo(partsArea([[SQUARE]]) * 0.75, 0)
+  })
+
+  it("intersects polygons", () => {
+    const parts = overlayPolygons(polygon(SQUARE), overlapping, "intersection")!
+    expect(partsArea(parts)).toBeCloseTo(partsArea([[rectangle(0.005, 0.005, 0.01, 0.01)]]), 0)
+  })
+
+  it("returns null when nothing is left", () => {
+    const apart = polygon(rectangle(1, 1, 1.01, 1.01))
+    expect(overlayPolygons(polygon(SQUARE), apart, "intersection")).toBeNull()
+    expect(overlayPolygons(polygon(SQUARE), polygon(SQUARE), "difference")).toBeNull()
+  })
+
+  it("keeps separate parts of a union", () => {
+    expect(overlayPolygons(polygon(SQUARE), polygon(rectangle(1, 1, 1.01, 1.01)), "union")).toHaveLength(2)
+  })
+})
+
+describe("splitPolygon", () => {
+  it("splits along a line into pieces sharing the cut edge", () => {
+    const pieces = splitPolygon(polygon(SQUARE), [ll(-0.001, 0.004), ll(0.011, 0.006)])
+    expect(pieces).toHaveLength(2)
+
+    // Both pieces end the cut at the same points on the square's edges
+    const bottom = ll(0, 0.004 + 0.002 / 12)
+    const top = ll(0.01, 0.004 + (0.002 * 11) / 12)
+    pieces.forEach((parts) => {
+      const points = vertices(parts)
+      ;[bottom, top].forEach((point) => {
+        expect(points.some((p) => Math.abs(p.lat - point.lat) < 1e-12 && Math.abs(p.lng - point.lng) < 1e-12)).toBe(
+          true,
+        )
+      })
+    })
+
+    // Nothing is lost to the cut
+    expect(partsArea(pieces.flat())).toBeCloseTo(partsArea([[SQUARE]]), 2)
+  })
+
+  it("follows bends in the line", () => {
+    const bend = ll(0.005, 0.007)
+    const pieces = splitPolygon(polygon(SQUARE), [ll(-0.001, 0.002), bend, ll(0.011, 0.002)])
+    expect(pieces).toHaveLength(2)
+    pieces.forEach((parts) => expect(vertices(parts)).toContainEqual(bend))
+    expect(partsArea(pieces.flat())).toBeCloseTo(partsArea([[SQUARE]]), 2)
+  })
+
+  it("splits a polygon with a hole through the hole", () => {
+    const hole = rectangle(0.004, 0.004, 0.006, 0.006)
+    const pieces = splitPolygon(polygon(SQUARE, [[SQUARE, hole]]), [ll(-0.001, 0.005), ll(0.011, 0.005)])
+    expect(pieces).toHaveLength(2)
+    pieces.forEach((parts) => expect(parts[0]).toHaveLength(1))
+    expect(partsArea(pieces.flat())).toBeCloseTo(partsArea([[SQUARE, hole]]), 2)
+  })
+
+  it("leaves a polygon whole when the line doesn't cross it", () => {
+    expect(splitPolygon(polygon(SQUARE), [ll(-0.001, 0.005), ll(0.005, 0.005)])).toHaveLength(1)
+    expect(splitPolygon(polygon(SQUARE), [ll(-0.001, 0.02), ll(0.011, 0.02)])).toHaveLength(1)
+    expect(splitPolygon(polygon(SQUARE), [ll(0, 0.005)])).toEqual([])
+  })
+})
@@ -0,0 +1,89 @@
+import { buffer, difference, featureCollection, intersect, lineIntersect, lineString, union } from "@turf/turf"
+import type { Feature, MultiPolygon, Polygon, Position } from "geojson"
+import { featuresToGeoJSON } from "@/utils/exportUtils"
+import { geoJSONToPolygonParts, type LatLng } from "@/utils/mapUtils"
+import type { PersistedFeature } from "@/utils/storageUtils"
+
+export type OverlayOperation = "union" | "difference" | "intersection"
+
+// Width of the sliver a split line cuts out before the pieces are closed up again, in meters
+const SPLIT_WIDTH = 0.002
+
+// Vertices of a split piece this close to one of the polygon's own, in degrees, are that vertex
+const VERTEX_TOLERANCE = 1e-10
+
+/**
+ * Whether a feature is a polygon that overlay operations can use
+ * @param feature Drawn feature
+ * @returns True for polygons and rectangles
+ */
+export function isOverlayPolygon(feature: PersistedFeature): boolean {
+  return feature.type === "polygon" || feature.type === "rectangle"
+}
+
+const toPolygonFeature = (feature: PersistedFeature) =>
+  featuresToGeoJSON([feature]).features[0] as Feature<Polygon | MultiPolygon>
+
+/**
+ * Combine two polygons
+ * @param a Polygon the result replaces
+ * @param b Second polygon
+ * @param operation Union (a or b), difference (a minus b) or intersection (a and b)
+ * @returns Polygon parts of the result, or null if nothing is left
+ */
+export function overlayPolygons(
+  a: PersistedFeature,
+  b: PersistedFeature,
+  operation: OverlayOperation,
+): LatLng[][][] | null {
+  const pair = featureCollection([toPolygonFeature(a), toPolygonFeature(b)])
+  const result = operation === "union" ? union(pair) : operation === "difference" ? difference(pair) : intersect(pair)
+  return result ? geoJSONToPolygonParts(result.geometry) : null
+}
+
+/**
+ * Split a polygon along a line. The line is widened to a sliver a few millimeters across and subtracted, then
+ * the vertices the sliver left along either side are moved back onto the line, so neighbouring pieces share
+ * the cut edge exactly.
+ * @param feature Polygon to split
+ * @param line Line that crosses the polygon from edge to edge
+ * @returns One polygon (as polygon parts) per piece; fewer than two if the line doesn't cut all the way across
+ */
+export function splitPolygon(feature: PersistedFeature, line: LatLng[]): LatLng[][][][] {
+  if (line.length < 2) return []
+
+  const polygon = toPolygonFeature(feature)
+  const cut = lineString(line.map((c) => [c.lng, c.lat]))
+  const blade = buffer(cut, SPLIT_WIDTH / 2, { units: "meters", steps: 1 })
+  if (!blade) return []
+
+  const result = difference(featureCollection([polygon, blade]))
+  if (!result) return []
+
+  // Every cut edge runs through the points where the line crosses the polygon's rings and the line's own vertices
+  const vertices =
+    polygon.geometry.type === "Polygon" ? polygon.geometry.coordinates.flat() : polygon.geometry.coordinates.flat(2)
+  const cutPoints = [
+    ...lineIntersect(cut, polygon).features.map((point) => point.geometry.coordinates),
+    ...cut.geometry.coordinates,
+  ]
+  const distanceSquared = (a: Position, b: Position) => (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2
+  const snap = (position: Position) =>
+    vertices.find((vertex) => distanceSquared(vertex, position) < VERTEX_TOLERANCE ** 2) ??
+    cutPoints.reduce((nearest, point) =>
+      distanceSquared(point, position) < distanceSquared(nearest, position) ? point : nearest,
+    )
+  const snapRing = (ring: Position[]) =>
+    ring.map(snap).filter((position, i, snapped) => i === 0 || distanceSquared(position, snapped[i - 1]) > 0)
+
+  const polygons = result.geometry.type === "Polygon" ? [result.geometry.coordinates] : result.geometry.coordinates
+  const snapped: MultiPolygon = {
+    type: "MultiPolygon",
+    coordinates: polygons
+      .map((rings) => rings.map(snapRing).filter((ring) => ring.length >= 4))
+      .filter((rings) => rings.length > 0),
+  }
+
+  // Each outer ring of the result, with its holes, is one piece
+  return geoJSONToPolygonParts(snapped).map((part) => [part])
+}
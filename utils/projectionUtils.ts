@@ -0,0 +1,157 @@
+import proj4 from "proj4"
+import type { FeatureCollection, Geometry, Position } from "geojson"
+import type { LatLng } from "@/utils/mapUtils"
+
+const GEOGCS_WGS84 =
+  'GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]]'
+const GEOGCS_NAD83 =
+  'GEOGCS["GCS_North_American_1983",DATUM["D_North_American_1983",SPHEROID["GRS_1980",6378137.0,298.257222101]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]]'
+const GEOGCS_NAD83_CSRS =
+  'GEOGCS["GCS_North_American_1983_CSRS",DATUM["D_North_American_1983_CSRS",SPHEROID["GRS_1980",6378137.0,298.257222101]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]]'
+
+/**
+ * Build an ESRI .prj string for a Transverse Mercator (UTM / MTM) system in meters
+ */
+function transverseMercatorPrj(
+  name: string,
+  geogcs: string,
+  centralMeridian: number,
+  scale: number,
+  falseEasting: number,
+) {
+  return `PROJCS["${name}",${geogcs},PROJECTION["Transverse_Mercator"],PARAMETER["False_Easting",${falseEasting}],PARAMETER["False_Northing",0.0],PARAMETER["Central_Meridian",${centralMeridian}],PARAMETER["Scale_Factor",${scale}],PARAMETER["Latitude_Of_Origin",0.0],UNIT["Meter",1.0]]`
+}
+
+/**
+ * Coordinate reference systems available for display and export.
+ * Definitions are bundled here so no projection lookups go over the network.
+ */
+export const CRS_DEFINITIONS = {
+  "EPSG:4326": {
+    name: "WGS84 (Lat/Lng)",
+    proj4: "+proj=longlat +datum=WGS84 +no_defs",
+    units: "degrees",
+    prj: GEOGCS_WGS84,
+  },
+  "EPSG:26917": {
+    name: "NAD83 / UTM zone 17N",
+    proj4: "+proj=utm +zone=17 +datum=NAD83 +units=m +no_defs",
+    units: "m",
+    prj: transverseMercatorPrj("NAD_1983_UTM_Zone_17N", GEOGCS_NAD83, -81.0, 0.9996, 500000.0),
+  },
+  "EPSG:2958": {
+    name: "NAD83(CSRS) / UTM zone 17N",
+    proj4: "+proj=utm +zone=17 +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs",
+    units: "m",
+    prj: transverseMercatorPrj("NAD_1983_CSRS_UTM_Zone_17N", GEOGCS_NAD83_CSRS, -81.0, 0.9996, 500000.0),
+  },
+  "EPSG:32190": {
+    name: "NAD83 / MTM zone 10",
+    proj4: "+proj=tmerc +lat_0=0 +lon_0=-79.5 +k=0.9999 +x_0=304800 +y_0=0 +datum=NAD83 +units=m +no_defs",
+    units: "m",
+    prj: transverseMercatorPrj("NAD_1983_MTM_10", GEOGCS_NAD83, -79.5, 0.9999, 304800.0),
+  },
+  "EPSG:2952": {
+    name: "NAD83(CSRS) / MTM zone 10",
+    proj4:
+      "+proj=tmerc +lat_0=0 +lon_0=-79.5 +k=0.9999 +x_0=304800 +y_0=0 +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs",
+    units: "m",
+    prj: transverseMercatorPrj("NAD_1983_CSRS_MTM_10", GEOGCS_NAD83_CSRS, -79.5, 0.9999, 304800.0),
+  },
+  "EPSG:2263": {
+    name: "NAD83 / New York Long Island (ftUS)",
+    proj4:
+      "+proj=lcc +lat_0=40.1666666666667 +lon_0=-74 +lat_1=41.0333333333333 +lat_2=40.6666666666667 +x_0=300000 +y_0=0 +datum=NAD83 +units=us-ft +no_defs",
+    units: "ftUS",
+    prj: `PROJCS["NAD_1983_StatePlane_New_York_Long_Island_FIPS_3104_Feet",${GEOGCS_NAD83},PROJECTION["Lambert_Conformal_Conic"],PARAMETER["False_Easting",984250.0],PARAMETER["False_Northing",0.0],PARAMETER["Central_Meridian",-74.0],PARAMETER["Standard_Parallel_1",40.66666666666666],PARAMETER["Standard_Parallel_2",41.03333333333333],PARAMETER["Latitude_Of_Origin",40.16666666666666],UNIT["Foot_US",0.3048006096012192]]`,
+  },
+} as const
+
+export type CrsCode = keyof typeof CRS_DEFINITIONS
+
+Object.entries(CRS_DEFINITIONS).forEach(([code, definition]) => {
+  proj4.defs(code, definition.proj4)
+})
+
+/**
+ * Check whether a CRS uses geographic (lat/lng) coordinates
+ * @param code CRS code
+ * @returns True for geographic systems
+ */
+export function isGeographicCrs(code: CrsCode): boolean {
+  return CRS_DEFINITIONS[code].units === "degrees"
+}
+
+/**
+ * Project a WGS84 coordinate into a CRS
+ * @param latlng WGS84 coordinate
+ * @param code Target CRS code
+ * @returns [x, y] in the target CRS ([lng, lat] for geographic systems)
+ */
+export function projectCoordinate(latlng: LatLng, code: CrsCode): [number, number] {
+  if (code === "EPSG:4326") {
+    return [latlng.lng, latlng.lat]
+  }
+  const [x, y] = proj4("EPSG:4326", code, [latlng.lng, latlng.lat])
+  return [x, y]
+}
+
+/**
+ * Axis labels in display order for a CRS
+ * @param code CRS code
+ * @param short Abbreviate the labels ("Lat"/"Lon", "E"/"N"), e.g. for a cursor readout
+ * @returns Labels for the two values shown per coordinate
+ */
+export function getAxisLabels(code: CrsCode, short = false): [string, string] {
+  if (isGeographicCrs(code)) return short ? ["Lat", "Lon"] : ["Latitude", "Longitude"]
+  return short ? ["E", "N"] : ["Easting", "Northing"]
+}
+
+/**
+ * Format a WGS84 coordinate for display in a CRS, in the order given by getAxisLabels
+ * @param latlng WGS84 coordinate
+ * @param code CRS code
+ * @returns Two formatted values
+ */
+export function formatCoordinatePair(latlng: LatLng, code: CrsCode): [string, string] {
+  if (isGeographicCrs(code)) {
+    return [latlng.lat.toFixed(6), latlng.lng.toFixed(6)]
+  }
+  const [x, y] = projectCoordinate(latlng, code)
+  return [x.toFixed(2), y.toFixed(2)]
+}
+
+/**
+ * Reproject a WGS84 GeoJSON FeatureCollection into a CRS
+ * @param collection WGS84 FeatureCollection
+ * @param code Target CRS code
+ * @returns FeatureCollection in the target CRS, named in a legacy `crs` member when not WGS84
+ */
+export function reprojectGeoJSON(collection: FeatureCollection, code: CrsCode): FeatureCollection {
+  if (code === "EPSG:4326") return collection
+
+  const project = (p: Position): Position => projectCoordinate({ lat: p[1], lng: p[0] }, code)
+
+  const reprojectGeometry = (geometry: Geometry): Geometry => {
+    switch (geometry.type) {
+      case "Point":
+        return { ...geometry, coordinates: project(geometry.coordinates) }
+      case "MultiPoint":
+      case "LineString":
+        return { ...geometry, coordinates: geometry.coordinates.map(project) }
+      case "MultiLineString":
+      case "Polygon":
+        return { ...geometry, coordinates: geometry.coordinates.map((ring) => ring.map(project)) }
+      case "MultiPolygon":
+        return { ...geometry, coordinates: geometry.coordinates.map((rings) => rings.map((ring) => ring.map(project))) }
+      case "GeometryCollection":
+        return { ...geometry, geometries: geometry.geometries.map(reprojectGeometry) }
+    }
+  }
+
+  return {
+    ...collection,
+    crs: { type: "name", properties: { name: `urn:ogc:def:crs:${code.replace(":", "::")}` } },
+    features: collection.features.map((feature) => ({ ...feature, geometry: reprojectGeometry(feature.geometry) })),
+  } as FeatureCollection
+}
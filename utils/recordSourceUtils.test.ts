@@ -0,0 +1,185 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import type { FeatureCollection } from "geojson"
+import {
+  createInMemoryRecordSource,
+  createRecordLoader,
+  getRecordId,
+  tilesForBBox,
+  tileToBBox,
+  type BBox,
+  type RecordSource,
+} from "@/utils/recordSourceUtils"
+
+const RECORDS: FeatureCollection = {
+  type: "FeatureCollection",
+  features: [
+    {
+      type: "Feature",
+      id: "line",
+      properties: {},
+      geometry: {
+        type: "LineString",
+        coordinates: [
+          [-10, -10],
+          [10, 10],
+        ],
+      },
+    },
+    { type: "Feature", properties: { id: "well" }, geometry: { type: "Point", coordinates: [5, 5] } },
+    { type: "Feature", properties: { id: "far" }, geometry: { type: "Point", coordinates: [100, 60] } },
+  ],
+}
+
+// Four zoom 2 tiles around the origin
+const VIEW: BBox = [-20, -20, 20, 20]
+
+// In-memory source with a spy on its requests
+const createSource = (delay = 100): RecordSource & { fetchRecords: ReturnType<typeof vi.fn> } => {
+  const source = createInMemoryRecordSource(RECORDS, delay)
+  return { ...source, fetchRecords: vi.fn(source.fetchRecords) }
+}
+
+const ids = (features: { id?: unknown; properties: any }[]) =>
+  features.map((f) => f.id ?? f.properties?.id).sort((a, b) => String(a).localeCompare(String(b)))
+
+describe("getRecordId", () => {
+  it("prefers the feature id, then the id property", () => {
+    expect(getRecordId(RECORDS.features[0])).toBe("line")
+    expect(getRecordId(RECORDS.features[1])).toBe("well")
+    expect(getRecordId({ ...RECORDS.features[1], id: 7 })).toBe("7")
+  })
+
+  it("falls back to the feature's content", () => {
+    const feature = { ...RECORDS.features[1], properties: { owner: "City" } }
+    expect(getRecordId(feature)).toBe(JSON.stringify(feature))
+  })
+})
+
+describe("tiles", () => {
+  it("lists the tiles covering a bounding box", () => {
+    expect(tilesForBBox(VIEW, 2)).toEqual([
+      { x: 1, y: 1, z: 2 },
+      { x: 2, y: 1, z: 2 },
+      { x: 1, y: 2, z: 2 },
+      { x: 2, y: 2, z: 2 },
+    ])
+    expect(tilesForBBox([-180, -90, 180, 90], 0)).toEqual([{ x: 0, y: 0, z: 0 }])
+  })
+
+  it("converts tiles back to bounding boxes", () => {
+    const [west, south, east, north] = tileToBBox({ x: 2, y: 1, z: 2 })
+    expect([west, south, east]).toEqual([0, 0, 90])
+    expect(north).toBeCloseTo(66.5132604, 6)
+  })
+})
+
+describe("createRecordLoader", () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("fetches each tile once and merges features spanning several tiles", async () => {
+    const source = createSource()
+    const loader = createRecordLoader(source)
+    const onTile = vi.fn()
+
+    const loading = loader.load(VIEW, 2, onTile)
+    await vi.advanceTimersByTimeAsync(100)
+    await loading
+
+    expect(source.fetchRecords).toHaveBeenCalledTimes(4)
+    expect(onTile).toHaveBeenCalledTimes(4)
+    expect(ids(loader.features())).toEqual(["line", "well"])
+  })
+
+  it("serves loaded tiles and their children from the cache", async () => {
+    const source = createSource()
+    const loader = createRecordLoader(source)
+
+    const first = loader.load(VIEW, 2, () => {})
+    await vi.advanceTimersByTimeAsync(100)
+    await first
+    source.fetchRecords.mockClear()
+
+    // Same view, and a zoom 4 view inside the loaded tiles
+    await loader.load(VIEW, 2, () => {})
+    await loader.load([1, 1, 10, 10], 4, () => {})
+    expect(source.fetchRecords).not.toHaveBeenCalled()
+
+    // Panning to new tiles only fetches those
+    const pan = loader.load([95, 55, 105, 65], 2, () => {})
+    await vi.advanceTimersByTimeAsync(100)
+    await pan
+    expect(source.fetchRecords).toHaveBeenCalledTimes(1)
+    expect(ids(loader.features())).toEqual(["far", "line", "well"])
+  })
+
+  it("debounces loads in quick succession, fetching only for the last", async () => {
+    const source = createSource()
+    const loader = createRecordLoader(source)
+    const onTile = vi.fn()
+
+    const first = loader.load([-180, -85, 180, 85], 2, onTile, 300)
+    await vi.advanceTimersByTimeAsync(200)
+    const second = loader.load([-180, -85, 180, 85], 2, onTile, 300)
+    await vi.advanceTimersByTimeAsync(200)
+    const last = loader.load([1, 1, 10, 10], 2, onTile, 300)
+
+    // Superseded loads settle without fetching
+    await expect(Promise.all([first, second])).resolves.toEqual([undefined, undefined])
+    expect(source.fetchRecords).not.toHaveBeenCalled()
+
+    await vi.advanceTimersByTimeAsync(300)
+    expect(source.fetchRecords).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(100)
+    await last
+    expect(onTile).toHaveBeenCalledTimes(1)
+  })
+
+  it("aborts requests from a superseded load without caching their tiles", async () => {
+    const source = createSource()
+    const loader = createRecordLoader(source)
+    const stale = vi.fn()
+
+    const first = loader.load(VIEW, 2, stale)
+    await vi.advanceTimersByTimeAsync(50)
+    const signals = source.fetchRecords.mock.calls.map(([, , signal]) => signal as AbortSignal)
+
+    const second = loader.load([95, 55, 105, 65], 2, () => {})
+    expect(signals.every((signal) => signal.aborted)).toBe(true)
+    await expect(first).resolves.toBeUndefined()
+
+    await vi.advanceTimersByTimeAsync(100)
+    await second
+    expect(stale).not.toHaveBeenCalled()
+    expect(ids(loader.features())).toEqual(["far"])
+  })
+
+  it("cancels the load in flight", async () => {
+    const source = createSource()
+    const loader = createRecordLoader(source)
+    const onTile = vi.fn()
+
+    const loading = loader.load(VIEW, 2, onTile)
+    loader.cancel()
+    await vi.advanceTimersByTimeAsync(100)
+    await expect(loading).resolves.toBeUndefined()
+    expect(onTile).not.toHaveBeenCalled()
+    expect(loader.features()).toEqual([])
+  })
+
+  it("skips zooms below the source's minZoom", async () => {
+    const source = { ...createSource(), minZoom: 10 }
+    await createRecordLoader(source).load(VIEW, 9, () => {})
+    expect(source.fetchRecords).not.toHaveBeenCalled()
+  })
+
+  it("rejects when the source fails", async () => {
+    const loader = createRecordLoader({ fetchRecords: () => Promise.reject(new Error("Server error")) })
+    await expect(loader.load(VIEW, 2, () => {})).rejects.toThrow("Server error")
+  })
+})
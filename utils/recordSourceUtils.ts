@@ -0,0 +1,214 @@
+import { bbox as turfBBox } from "@turf/turf"
+import type { Feature, FeatureCollection } from "geojson"
+
+/**
+ * Bounding box as [west, south, east, north] in degrees
+ */
+export type BBox = [number, number, number, number]
+
+/**
+ * Record data queried by bounding box as the map moves.
+ * The viewport is split into web mercator tiles and `fetchRecords` is called once per tile not already loaded.
+ */
+export type RecordSource = {
+  fetchRecords: (bbox: BBox, zoom: number, signal?: AbortSignal) => Promise<FeatureCollection>
+  // Below this zoom nothing is fetched (default: 0)
+  minZoom?: number
+  // Tiles are requested at the map zoom up to this level; zooming in further reuses them (default: 16)
+  maxZoom?: number
+}
+
+/**
+ * Tiled loader for a record source, with a cache of loaded tiles.
+ * `load` waits `delay` milliseconds before requesting anything, so of several loads in quick succession only the last
+ * one fetches.
+ */
+export type RecordLoader = {
+  load: (bbox: BBox, zoom: number, onTile: () => void, delay?: number) => Promise<void>
+  features: () => Feature[]
+  cancel: () => void
+}
+
+type Tile = { x: number; y: number; z: number }
+
+// Tiles kept in the cache; the least recently used are dropped first
+const MAX_CACHED_TILES = 256
+
+const MAX_LATITUDE = 85.0511287798
+
+const tileKey = ({ x, y, z }: Tile) => `${z}/${x}/${y}`
+
+/**
+ * Identify a record by its feature id or `id` property, or by its content when it has neither
+ * @param feature Record feature
+ * @returns Record id
+ */
+export function getRecordId(feature: Feature): string {
+  const id = feature.id ?? feature.properties?.id
+  return id != null ? String(id) : JSON.stringify(feature)
+}
+
+/**
+ * Tiles covering a bounding box
+ * @param bbox Bounding box in degrees
+ * @param zoom Tile zoom level
+ * @returns Tiles in row order
+ */
+export function tilesForBBox([west, south, east, north]: BBox, zoom: number): Tile[] {
+  const n = 2 ** zoom
+  const clampLat = (lat: number) => Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, lat))
+  const toX = (lng: number) => Math.min(n - 1, Math.max(0, Math.floor(((lng + 180) / 360) * n)))
+  const toY = (lat: number) => {
+    const rad = (clampLat(lat) * Math.PI) / 180
+    return Math.min(
+      n - 1,
+      Math.max(0, Math.floor(((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * n)),
+    )
+  }
+
+  const tiles: Tile[] = []
+  for (let y = toY(north); y <= toY(south); y++) {
+    for (let x = toX(west); x <= toX(east); x++) tiles.push({ x, y, z: zoom })
+  }
+  return tiles
+}
+
+/**
+ * Bounding box of a tile
+ * @param tile Tile coordinates
+ * @returns Bounding box in degrees
+ */
+export function tileToBBox({ x, y, z }: Tile): BBox {
+  const n = 2 ** z
+  const toLat = (ty: number) => (Math.atan(Math.sinh(Math.PI * (1 - (2 * ty) / n))) * 180) / Math.PI
+  return [(x / n) * 360 - 180, toLat(y + 1), ((x + 1) / n) * 360 - 180, toLat(y)]
+}
+
+const abortError = () => new DOMException("The request was aborted", "AbortError")
+
+const isAbortError = (error: unknown) => error instanceof DOMException && error.name === "AbortError"
+
+const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timeout = setTimeout(resolve, ms)
+    signal.addEventListener("abort", () => {
+      clearTimeout(timeout)
+      reject(abortError())
+    })
+  })
+
+/**
+ * Create a tiled loader for a record source. Each load cancels the one before it; tiles that finished
+ * loading stay cached, and a cached tile also covers its children at higher zooms.
+ * @param source Record source
+ * @returns Loader
+ */
+export function createRecordLoader(source: RecordSource): RecordLoader {
+  const { minZoom = 0, maxZoom = 16 } = source
+  const cache = new Map<string, Feature[]>()
+  let controller: AbortController | null = null
+
+  const isCached = (tile: Tile) => {
+    for (let z = tile.z; z >= 0; z--) {
+      const shift = tile.z - z
+      const key = tileKey({ x: tile.x >> shift, y: tile.y >> shift, z })
+      if (cache.has(key)) {
+        // Refresh its place in the cache
+        const features = cache.get(key)!
+        cache.delete(key)
+        cache.set(key, features)
+        return true
+      }
+    }
+    return false
+  }
+
+  return {
+    load: async (bbox, zoom, onTile, delay = 0) => {
+      controller?.abort()
+      if (zoom < minZoom) return
+
+      const current = new AbortController()
+      controller = current
+
+      try {
+        if (delay > 0) await wait(delay, current.signal)
+        const tiles = tilesForBBox(bbox, Math.min(Math.floor(zoom), maxZoom)).filter((tile) => !isCached(tile))
+        await Promise.all(
+          tiles.map(async (tile) => {
+            const collection = await source.fetchRecords(tileToBBox(tile), tile.z, current.signal)
+            cache.set(tileKey(tile), collection.features)
+            while (cache.size > MAX_CACHED_TILES) cache.delete(cache.keys().next().value!)
+            if (!current.signal.aborted) onTile()
+          }),
+        )
+      } catch (error) {
+        if (!isAbortError(error) && !current.signal.aborted) throw error
+      } finally {
+        if (controller === current) controller = null
+      }
+    },
+    // Features that span several tiles are returned once, matched by id or by content
+    features: () => {
+      const byId = new Map<string, Feature>()
+      cache.forEach((features) => features.forEach((feature) => byId.set(getRecordId(feature), feature)))
+      return [...byId.values()]
+    },
+    cancel: () => {
+      controller?.abort()
+      controller = null
+    },
+  }
+}
+
+/**
+ * Create a record source that serves features from memory, e.g. for tests and demos
+ * @param records Features to serve
+ * @param delay Simulated response time in milliseconds (default: 0)
+ * @returns Record source returning features whose bounding box overlaps the request
+ */
+export function createInMemoryRecordSource(records: FeatureCollection, delay = 0): RecordSource {
+  const indexed = records.features.map((feature) => ({ feature, bbox: turfBBox(feature) }))
+
+  return {
+    fetchRecords: (bbox, _zoom, signal) =>
+      new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(abortError())
+
+        const timeout = setTimeout(() => {
+          const [west, south, east, north] = bbox
+          resolve({
+            type: "FeatureCollection",
+            features: indexed
+              .filter(({ bbox: b }) => b[0] <= east && b[2] >= west && b[1] <= north && b[3] >= south)
+              .map(({ feature }) => feature),
+          })
+        }, delay)
+
+        signal?.addEventListener("abort", () => {
+          clearTimeout(timeout)
+          reject(abortError())
+        })
+      }),
+  }
+}
+
+/**
+ * Create a record source backed by a REST endpoint.
+ * Records are read with GET `${url}?bbox=west,south,east,north&zoom=z`, which should answer with a FeatureCollection.
+ * @param url Endpoint URL, e.g. a local mock server
+ * @param init Extra fetch options such as auth headers
+ * @returns Record source
+ */
+export function createRestRecordSource(url: string, init: RequestInit = {}): RecordSource {
+  return {
+    fetchRecords: async (bbox, zoom, signal) => {
+      const query = new URLSearchParams({ bbox: bbox.join(","), zoom: String(Math.floor(zoom)) })
+      const response = await fetch(`${url}${url.includes("?") ? "&" : "?"}${query}`, { ...init, signal })
+      if (!response.ok) {
+        throw new Error(`Failed to load records: ${response.status}`)
+      }
+      return response.json()
+    },
+  }
+}
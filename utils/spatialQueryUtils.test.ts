@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest"
+import type { Geometry, Position } from "geojson"
+import { createSpatialIndex, geometryDistance, type SpatialItem } from "@/utils/spatialQueryUtils"
+
+const square = (west: number, south: number, east: number, north: number): Position[][] => [
+  [
+    [west, south],
+    [east, south],
+    [east, north],
+    [west, north],
+    [west, south],
+  ],
+]
+
+const item = (id: string, geometry: Geometry): SpatialItem => ({
+  id,
+  source: "records",
+  feature: { type: "Feature", geometry, properties: {} },
+})
+
+// Near the equator, where 0.001° is about 111 m
+const ITEMS = [
+  item("well", { type: "Point", coordinates: [0, 0] }),
+  item("main", {
+    type: "LineString",
+    coordinates: [
+      [0.01, -0.01],
+      [0.01, 0.01],
+    ],
+  }),
+  item("vault", { type: "Polygon", coordinates: square(0.02, 0, 0.03, 0.01) }),
+  item("far", { type: "Point", coordinates: [1, 1] }),
+]
+
+const ids = (items: SpatialItem[]) => items.map((i) => i.id).sort()
+
+describe("createSpatialIndex", () => {
+  const index = createSpatialIndex(ITEMS)
+
+  it("indexes every item with geometry", () => {
+    expect(index.size).toBe(4)
+  })
+
+  it("finds items intersecting a polygon", () => {
+    expect(ids(index.intersects({ type: "Polygon", coordinates: square(-0.005, -0.005, 0.015, 0.005) }))).toEqual([
+      "main",
+      "well",
+    ])
+  })
+
+  it("finds items contained by any part of a multi-polygon", () => {
+    const parts = {
+      type: "MultiPolygon" as const,
+      coordinates: [square(-0.001, -0.001, 0.001, 0.001), square(0.015, -0.005, 0.035, 0.015)],
+    }
+    expect(ids(index.contains(parts))).toEqual(["vault", "well"])
+  })
+
+  it("finds items within a distance", () => {
+    const point: Geometry = { type: "Point", coordinates: [0.004, 0] }
+    expect(ids(index.withinDistance(point, 500))).toEqual(["well"])
+    expect(ids(index.withinDistance(point, 700))).toEqual(["main", "well"])
+  })
+
+  it("ranks the nearest items by distance", () => {
+    const nearest = index.nearest({ lat: 0.005, lng: 0.016 }, 2)
+    expect(nearest.map((result) => result.item.id)).toEqual(["vault", "main"])
+    expect(nearest[0].distance).toBeCloseTo(444.78, 1)
+    expect(nearest[1].distance).toBeCloseTo(667.17, 1)
+  })
+
+  it("finds distant items and respects the maximum distance", () => {
+    expect(index.nearest({ lat: 2, lng: 2 })[0].item.id).toBe("far")
+    expect(index.nearest({ lat: 0.005, lng: 0.016 }, 5, 500).map((result) => result.item.id)).toEqual(["vault"])
+    expect(index.nearest({ lat: 0.005, lng: 0.016 }, 0)).toEqual([])
+  })
+})
+
+describe("geometryDistance", () => {
+  it("is zero for intersecting geometries", () => {
+    expect(geometryDistance(ITEMS[1].feature.geometry, { type: "Point", coordinates: [0.01, 0] })).toBe(0)
+  })
+
+  it("measures between the closest vertex and line", () => {
+    expect(geometryDistance(ITEMS[1].feature.geometry, ITEMS[2].feature.geometry)).toBeCloseTo(1111.95, 1)
+  })
+})
@@ -0,0 +1,177 @@
+import RBush from "rbush"
+import {
+  bbox as turfBBox,
+  booleanContains,
+  booleanIntersects,
+  distance,
+  flatten,
+  lineString,
+  pointToLineDistance,
+} from "@turf/turf"
+import type { Feature, Geometry, MultiPolygon, Polygon, Position } from "geojson"
+import type { LatLng } from "@/utils/mapUtils"
+
+export type SpatialSource = "records" | "shapes" | "bubbles" | "drawn"
+
+/**
+ * A feature from one of the map's layers, in WGS84 GeoJSON
+ */
+export type SpatialItem = {
+  id: string
+  source: SpatialSource
+  feature: Feature
+}
+
+type IndexEntry = { minX: number; minY: number; maxX: number; maxY: number; item: SpatialItem }
+
+/**
+ * R-tree backed spatial queries over a fixed set of features
+ */
+export type SpatialIndex = {
+  size: number
+  intersects: (geometry: Geometry) => SpatialItem[]
+  contains: (geometry: Geometry) => SpatialItem[]
+  withinDistance: (geometry: Geometry, meters: number) => SpatialItem[]
+  nearest: (point: LatLng, count?: number, maxMeters?: number) => { item: SpatialItem; distance: number }[]
+}
+
+const METERS_PER_DEGREE = 111320
+
+/**
+ * Every boundary line of a geometry: line strings as-is, polygon rings as closed lines
+ * @param geometry GeoJSON geometry
+ * @returns Vertex lists of each line
+ */
+function boundaryLines(geometry: Geometry): Position[][] {
+  return flatten({ type: "Feature", geometry, properties: {} }).features.flatMap((part): Position[][] => {
+    switch (part.geometry.type) {
+      case "LineString":
+        return [part.geometry.coordinates]
+      case "Polygon":
+        return part.geometry.coordinates
+      default:
+        return []
+    }
+  })
+}
+
+/**
+ * Every vertex of a geometry
+ * @param geometry GeoJSON geometry
+ * @returns Vertex positions
+ */
+function vertices(geometry: Geometry): Position[] {
+  if (geometry.type === "Point") return [geometry.coordinates]
+  if (geometry.type === "MultiPoint") return geometry.coordinates
+  return boundaryLines(geometry).flat()
+}
+
+/**
+ * Shortest distance between a point and the boundary lines of a geometry
+ * @param position Point position
+ * @param geometry GeoJSON geometry
+ * @returns Distance in meters, or Infinity for point geometries with no lines
+ */
+function distanceToLines(position: Position, geometry: Geometry): number {
+  return boundaryLines(geometry).reduce((min, line) => {
+    const d =
+      line.length > 1
+        ? pointToLineDistance(position, lineString(line), { units: "meters" })
+        : distance(position, line[0], { units: "meters" })
+    return Math.min(min, d)
+  }, Infinity)
+}
+
+/**
+ * Shortest distance between two geometries; zero when they intersect.
+ * Non-intersecting segments are closest at a vertex of one of them, so checking vertices against lines is enough.
+ * @param a First geometry
+ * @param b Second geometry
+ * @returns Distance in meters
+ */
+export function geometryDistance(a: Geometry, b: Geometry): number {
+  if (booleanIntersects(a, b)) return 0
+
+  const pointDistance = (from: Geometry, to: Geometry) =>
+    vertices(from).reduce((min, position) => {
+      const toPoints = to.type === "Point" || to.type === "MultiPoint"
+      const d = toPoints
+        ? Math.min(...vertices(to).map((p) => distance(position, p, { units: "meters" })))
+        : distanceToLines(position, to)
+      return Math.min(min, d)
+    }, Infinity)
+
+  return Math.min(pointDistance(a, b), pointDistance(b, a))
+}
+
+/**
+ * Bounding box of a geometry as an R-tree entry
+ * @param geometry GeoJSON geometry
+ * @param bufferMeters Distance to grow the box by on every side (default: 0)
+ * @returns Box in degrees
+ */
+function toBox(geometry: Geometry, bufferMeters = 0): Omit<IndexEntry, "item"> {
+  const [minX, minY, maxX, maxY] = turfBBox(geometry)
+  const dLat = bufferMeters / METERS_PER_DEGREE
+  const maxLat = Math.min(89, Math.max(Math.abs(minY), Math.abs(maxY)))
+  const dLng = bufferMeters / (METERS_PER_DEGREE * Math.cos((maxLat * Math.PI) / 180))
+  return { minX: minX - dLng, minY: minY - dLat, maxX: maxX + dLng, maxY: maxY + dLat }
+}
+
+/**
+ * Build an R-tree index over features for spatial queries
+ * @param items Features to index; items without geometry are skipped
+ * @returns Query functions; each narrows candidates by bounding box before running exact tests
+ */
+export function createSpatialIndex(items: SpatialItem[]): SpatialIndex {
+  const entries = items
+    .filter((item) => item.feature.geometry)
+    .map((item) => ({ ...toBox(item.feature.geometry), item }))
+  const tree = new RBush<IndexEntry>().load(entries)
+
+  const candidates = (geometry: Geometry, bufferMeters = 0) =>
+    tree.search(toBox(geometry, bufferMeters)).map((entry) => entry.item)
+
+  return {
+    size: entries.length,
+
+    intersects: (geometry) => candidates(geometry).filter((item) => booleanIntersects(geometry, item.feature.geometry)),
+
+    contains: (geometry) => {
+      // booleanContains takes single polygons, so test each part of a multi-polygon
+      const containers =
+        geometry.type === "MultiPolygon"
+          ? (flatten({ type: "Feature", geometry, properties: {} }).features.map((f) => f.geometry) as Polygon[])
+          : [geometry as Exclude<Geometry, MultiPolygon>]
+      return candidates(geometry).filter((item) =>
+        containers.some((container) => booleanContains(container, item.feature.geometry)),
+      )
+    },
+
+    withinDistance: (geometry, meters) =>
+      candidates(geometry, meters).filter((item) => geometryDistance(geometry, item.feature.geometry) <= meters),
+
+    nearest: (point, count = 1, maxMeters = Infinity) => {
+      const geometry: Geometry = { type: "Point", coordinates: [point.lng, point.lat] }
+      if (entries.length === 0 || count < 1) return []
+
+      const rank = (radius: number) =>
+        candidates(geometry, radius)
+          .map((item) => ({ item, distance: geometryDistance(geometry, item.feature.geometry) }))
+          .filter((result) => result.distance <= maxMeters)
+          .sort((a, b) => a.distance - b.distance)
+
+      // Grow the search box until it holds enough candidates
+      let radius = Math.min(50, maxMeters)
+      let ranked = rank(radius)
+      while (ranked.length < Math.min(count, entries.length) && radius < Math.min(maxMeters, 2e7)) {
+        radius = Math.min(radius * 4, maxMeters)
+        ranked = rank(radius)
+      }
+
+      // The box's corners reach past its radius, so closer items may lie just outside it; search out to the furthest result
+      const furthest = ranked[Math.min(count, ranked.length) - 1]?.distance ?? 0
+      return (furthest > radius ? rank(furthest) : ranked).slice(0, count)
+    },
+  }
+}
@@ -0,0 +1,61 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { createRestStorageAdapter, type PersistedMapState } from "@/utils/storageUtils"
+
+const STATE: PersistedMapState = {
+  version: 1,
+  features: [],
+  basemap: "streets",
+  view: { center: { lat: 1, lng: 2 }, zoom: 12 },
+}
+
+const respond = (status: number, body?: unknown) =>
+  vi.fn(async () => new Response(body === undefined ? null : JSON.stringify(body), { status }))
+
+describe("createRestStorageAdapter", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it("reads, writes and deletes state under an encoded key", async () => {
+    const fetch = respond(200, STATE)
+    vi.stubGlobal("fetch", fetch)
+    const storage = createRestStorageAdapter("http://localhost:4000/map-state/", {
+      headers: { Authorization: "Bearer token" },
+    })
+
+    expect(await storage.load("job 1")).toEqual(STATE)
+    await storage.save("job 1", STATE)
+    await storage.clear("job 1")
+
+    const calls = fetch.mock.calls as unknown as [string, RequestInit][]
+    expect(calls.map(([url, init]) => [url, init.method ?? "GET"])).toEqual([
+      ["http://localhost:4000/map-state/job%201", "GET"],
+      ["http://localhost:4000/map-state/job%201", "PUT"],
+      ["http://localhost:4000/map-state/job%201", "DELETE"],
+    ])
+    expect(calls[1][1].headers).toEqual({ "Content-Type": "application/json", Authorization: "Bearer token" })
+    expect(JSON.parse(calls[1][1].body as string)).toEqual(STATE)
+  })
+
+  it("treats missing and unrecognized state as nothing stored", async () => {
+    vi.stubGlobal("fetch", respond(404))
+    expect(await createRestStorageAdapter("/state").load("key")).toBeNull()
+
+    vi.stubGlobal("fetch", respond(200, { version: 2 }))
+    expect(await createRestStorageAdapter("/state").load("key")).toBeNull()
+  })
+
+  it("throws when the server rejects a request", async () => {
+    vi.stubGlobal("fetch", respond(500))
+    const storage = createRestStorageAdapter("/state")
+
+    await expect(storage.load("key")).rejects.toThrow("Failed to load map state: 500")
+    await expect(storage.save("key", STATE)).rejects.toThrow("Failed to save map state: 500")
+    await expect(storage.clear("key")).rejects.toThrow("Failed to clear map state: 500")
+  })
+
+  it("clears state that is already gone without an error", async () => {
+    vi.stubGlobal("fetch", respond(404))
+    await expect(createRestStorageAdapter("/state").clear("key")).resolves.toBeUndefined()
+  })
+})
@@ -0,0 +1,118 @@
+import type { FeatureAttributes } from "@/utils/attributeUtils"
+import type { BufferSource } from "@/utils/bufferUtils"
+import type { LatLng } from "@/utils/mapUtils"
+
+/**
+ * A drawn feature in serializable form (no Leaflet layer)
+ */
+export type PersistedFeature = {
+  id: string
+  type: "polygon" | "polyline" | "marker" | "rectangle"
+  name?: string
+  area?: number
+  // Geodesic length of polylines, and perimeter of polygons including holes, in meters
+  length?: number
+  perimeter?: number
+  coordinates: LatLng[]
+  parts?: LatLng[][][]
+  layerType: "workArea" | "record"
+  attributes?: FeatureAttributes
+  // Set on work areas generated by buffering another feature; they follow edits to that feature
+  buffer?: BufferSource
+}
+
+/**
+ * Everything MapWithDrawing restores on mount
+ */
+export type PersistedMapState = {
+  version: 1
+  features: PersistedFeature[]
+  basemap: string
+  view: { center: LatLng; zoom: number }
+}
+
+/**
+ * Storage backend for persisted map state
+ */
+export type MapStorageAdapter = {
+  load: (key: string) => Promise<PersistedMapState | null>
+  save: (key: string, state: PersistedMapState) => Promise<void>
+  clear: (key: string) => Promise<void>
+}
+
+/**
+ * Check that a loaded value looks like persisted map state
+ * @param value Parsed value from storage
+ * @returns True if the value can be restored
+ */
+function isPersistedMapState(value: any): value is PersistedMapState {
+  return value?.version === 1 && Array.isArray(value.features) && typeof value.basemap === "string" && !!value.view
+}
+
+/**
+ * Create a storage adapter backed by window.localStorage
+ * @returns Storage adapter
+ */
+export function createLocalStorageAdapter(): MapStorageAdapter {
+  return {
+    load: async (key) => {
+      const raw = window.localStorage.getItem(key)
+      if (!raw) return null
+
+      try {
+        const value = JSON.parse(raw)
+        return isPersistedMapState(value) ? value : null
+      } catch {
+        return null
+      }
+    },
+    save: async (key, state) => {
+      window.localStorage.setItem(key, JSON.stringify(state))
+    },
+    clear: async (key) => {
+      window.localStorage.removeItem(key)
+    },
+  }
+}
+
+/**
+ * Create a storage adapter backed by a REST endpoint.
+ * State is read with GET, written with PUT and removed with DELETE at `${baseUrl}/${key}`.
+ * @param baseUrl Endpoint URL, e.g. a local mock server
+ * @param init Extra fetch options such as auth headers
+ * @returns Storage adapter
+ */
+export function createRestStorageAdapter(baseUrl: string, init: RequestInit = {}): MapStorageAdapter {
+  const urlFor = (key: string) => `${baseUrl.replace(/\/$/, "")}/${encodeURIComponent(key)}`
+
+  return {
+    load: async (key) => {
+      const response = await fetch(urlFor(key), init)
+      if (response.status === 404) return null
+      if (!response.ok) {
+        throw new Error(`Failed to load map state: ${response.status}`)
+      }
+
+      const value = await response.json()
+      return isPersistedMapState(value) ? value : null
+    },
+    save: async (key, state) => {
+      const response = await fetch(urlFor(key), {
+        ...init,
+        method: "PUT",
+        headers: { "Content-Type": "application/json", ...init.headers },
+        body: JSON.stringify(state),
+      })
+      if (!response.ok) {
+        throw new Error(`Failed to save map state: ${response.status}`)
+      }
+    },
+    clear: async (key) => {
+      const response = await fetch(urlFor(key), { ...init, method: "DELETE" })
+      // Nothing stored under the key is as good as cleared
+      if (!response.ok && response.status !== 404) {
+        throw new Error(`Failed to clear map state: ${response.status}`)
+      }
+    },
+  }
+}
@@ -0,0 +1,218 @@
+import L from "leaflet"
+
+export type MarkerSymbol = "circle" | "square" | "triangle" | "diamond"
+
+/**
+ * Resolved style of a feature: path options for lines and areas, plus the symbol used for points
+ */
+export type FeatureStyle = {
+  color: string
+  fillColor: string
+  fillOpacity: number
+  weight: number
+  dashArray?: string
+  symbol: MarkerSymbol
+}
+
+/**
+ * A styling rule: when a property (the first one present, if several are listed) equals one of `values`,
+ * case-insensitively, `style` is merged over the base style. Later matching rules override earlier ones.
+ */
+export type StyleRule = {
+  label: string
+  group: string
+  property: string | string[]
+  values: string[]
+  style: Partial<FeatureStyle>
+}
+
+export type StyleSheet = {
+  rules: StyleRule[]
+}
+
+export type LegendEntry = {
+  label: string
+  style: FeatureStyle
+}
+
+/**
+ * Style of features no rule applies to; each layer passes its own base to resolveFeatureStyle
+ */
+export const BASE_STYLES = {
+  record: { color: "#6b21a8", fillColor: "#6b21a8", fillOpacity: 0.4, weight: 2, symbol: "circle" },
+  shape: { color: "#ef4444", fillColor: "#ef4444", fillOpacity: 0.2, weight: 2, symbol: "circle" },
+  bubble: { color: "#ffffff", fillColor: "#3b82f6", fillOpacity: 0.8, weight: 2, symbol: "circle" },
+  // Leaflet's default path style, which Geoman uses for drawn work areas
+  workArea: { color: "#3388ff", fillColor: "#3388ff", fillOpacity: 0.2, weight: 3, symbol: "circle" },
+} satisfies Record<string, FeatureStyle>
+
+const UTILITY_PROPERTY = ["utilityType", "utility_type", "utility"]
+
+const apwaRule = (label: string, color: string, values: string[], symbol: MarkerSymbol = "circle"): StyleRule => ({
+  label,
+  group: "Utility type (APWA)",
+  property: UTILITY_PROPERTY,
+  values,
+  style: { color, fillColor: color, symbol },
+})
+
+const confidenceRule = (level: string, label: string, dashArray?: string): StyleRule => ({
+  label,
+  group: "Confidence (quality level)",
+  property: "confidence",
+  values: [level],
+  style: { dashArray },
+})
+
+/**
+ * APWA uniform color code for utility locates, with dash patterns for ASCE 38 quality levels
+ */
+export const APWA_STYLE_SHEET: StyleSheet = {
+  rules: [
+    apwaRule("Electric", "#ff0000", ["electric", "electrical", "power"], "triangle"),
+    apwaRule("Communications", "#ff8c00", ["telecom", "communications", "cable", "fiber", "catv"], "square"),
+    apwaRule("Gas / Oil / Steam", "#ffd700", ["gas", "oil", "steam", "petroleum"], "diamond"),
+    apwaRule("Potable Water", "#0000ff", ["water"]),
+    apwaRule("Reclaimed Water / Irrigation", "#800080", ["reclaimed", "irrigation", "slurry"]),
+    apwaRule("Sewer / Storm Drain", "#008000", ["sewer", "storm", "drain"]),
+    apwaRule("Temporary Survey", "#ff69b4", ["survey"]),
+    apwaRule("Proposed Excavation", "#ffffff", ["proposed", "excavation"]),
+    confidenceRule("A", "QL-A: exposed"),
+    confidenceRule("B", "QL-B: designated", "8 4"),
+    confidenceRule("C", "QL-C: surface features", "4 6"),
+    confidenceRule("D", "QL-D: records only", "1 6"),
+  ],
+}
+
+/**
+ * Check whether a rule applies to a feature's properties
+ * @param rule Style rule
+ * @param properties Feature properties or attributes
+ * @returns True when the rule's property matches one of its values
+ */
+function ruleMatches(rule: StyleRule, properties: Record<string, unknown>): boolean {
+  const keys = Array.isArray(rule.property) ? rule.property : [rule.property]
+  const key = keys.find((k) => properties[k] != null && properties[k] !== "")
+  if (!key) return false
+
+  const value = String(properties[key]).trim().toLowerCase()
+  return rule.values.some((v) => v.toLowerCase() === value)
+}
+
+/**
+ * Resolve the style of a feature from its properties
+ * @param sheet Style sheet
+ * @param properties Feature properties or attributes
+ * @param base Style used where no rule applies
+ * @returns Base style with every matching rule merged over it in order
+ */
+export function resolveFeatureStyle(
+  sheet: StyleSheet,
+  properties: Record<string, unknown> | null | undefined,
+  base: FeatureStyle,
+): FeatureStyle {
+  return sheet.rules
+    .filter((rule) => ruleMatches(rule, properties ?? {}))
+    .reduce<FeatureStyle>((style, rule) => ({ ...style, ...rule.style }), base)
+}
+
+/**
+ * Convert a feature style to Leaflet path options
+ * @param style Feature style
+ * @returns Path options for L.Path#setStyle
+ */
+export function toPathOptions(style: FeatureStyle): L.PathOptions {
+  const { symbol, ...pathOptions } = style
+  return pathOptions
+}
+
+/**
+ * Draw a marker symbol as SVG
+ * @param style Feature style
+ * @param size Width and height in pixels (default: 16)
+ * @returns SVG markup
+ */
+export function getSymbolSVG(style: FeatureStyle, size = 16): string {
+  const shapes: Record<MarkerSymbol, string> = {
+    circle: `<circle cx="8" cy="8" r="6" />`,
+    square: `<rect x="2.5" y="2.5" width="11" height="11" />`,
+    triangle: `<polygon points="8,1.5 14.5,14 1.5,14" />`,
+    diamond: `<polygon points="8,1 15,8 8,15 1,8" />`,
+  }
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 16 16" fill="${style.fillColor}" stroke="#1f2937" stroke-width="1.5">${shapes[style.symbol]}</svg>`
+}
+
+/**
+ * Draw a legend swatch (a filled box with the style's outline and dash pattern) as SVG
+ * @param style Feature style
+ * @returns SVG markup
+ */
+export function getSwatchSVG(style: FeatureStyle): string {
+  const dash = style.dashArray ? ` stroke-dasharray="${style.dashArray}"` : ""
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="24" height="16" viewBox="0 0 24 16"><rect x="1.5" y="1.5" width="21" height="13" fill="${style.fillColor}" fill-opacity="${style.fillOpacity}" stroke="${style.color}" stroke-width="${Math.min(style.weight, 3)}"${dash} /></svg>`
+}
+
+/**
+ * Create a Leaflet marker icon showing a feature's symbol
+ * @param style Feature style
+ * @returns Div icon anchored at its center
+ */
+export function createSymbolIcon(style: FeatureStyle): L.DivIcon {
+  return L.divIcon({ html: getSymbolSVG(style), className: "", iconSize: [16, 16], iconAnchor: [8, 8] })
+}
+
+// Last style applied to each layer, so unchanged styles don't recreate marker icons mid-edit
+const appliedStyles = new WeakMap<L.Layer, string>()
+
+/**
+ * Apply a feature style to a Leaflet layer: path options for lines and areas, a symbol icon for markers
+ * @param layer Leaflet layer
+ * @param style Feature style
+ */
+export function applyFeatureStyle(layer: L.Layer, style: FeatureStyle): void {
+  const key = JSON.stringify(style)
+  if (appliedStyles.get(layer) === key) return
+  appliedStyles.set(layer, key)
+
+  if (layer instanceof L.Marker) {
+    layer.setIcon(createSymbolIcon(style))
+  } else if (layer instanceof L.Path) {
+    layer.setStyle(toPathOptions(style))
+  }
+}
+
+/**
+ * Return a styled layer to Leaflet's default look: the default marker icon, or the default path style
+ * @param layer Leaflet layer
+ */
+export function resetFeatureStyle(layer: L.Layer): void {
+  if (!appliedStyles.has(layer)) return
+  appliedStyles.delete(layer)
+
+  if (layer instanceof L.Marker) {
+    layer.setIcon(new L.Icon.Default())
+  } else if (layer instanceof L.Path) {
+    layer.setStyle(toPathOptions(BASE_STYLES.workArea))
+  }
+}
+
+/**
+ * Build legend entries, grouped in rule order, for a style sheet
+ * @param sheet Style sheet
+ * @param base Style the rules are merged over
+ * @returns Legend groups, each with one entry per rule
+ */
+export function getLegendGroups(sheet: StyleSheet, base: FeatureStyle): { title: string; entries: LegendEntry[] }[] {
+  const groups: { title: string; entries: LegendEntry[] }[] = []
+
+  sheet.rules.forEach((rule) => {
+    let group = groups.find((g) => g.title === rule.group)
+    if (!group) {
+      group = { title: rule.group, entries: [] }
+      groups.push(group)
+    }
+    group.entries.push({ label: rule.label, style: { ...base, ...rule.style } })
+  })
+
+  return groups
+}
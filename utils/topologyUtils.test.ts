@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest"
+import type { LatLng } from "@/utils/mapUtils"
+import type { PersistedFeature } from "@/utils/storageUtils"
+import {
+  findDanglingEnds,
+  findOverlappingWorkAreas,
+  findSelfIntersections,
+  validateTopology,
+} from "@/utils/topologyUtils"
+
+const ll = (lat: number, lng: number): LatLng => ({ lat, lng })
+
+const rectangle = (id: string, south: number, west: number, north: number, east: number): PersistedFeature => ({
+  id,
+  type: "polygon",
+  name: id,
+  coordinates: [ll(south, west), ll(south, east), ll(north, east), ll(north, west)],
+  layerType: "workArea",
+})
+
+const line = (id: string, ...coordinates: LatLng[]): PersistedFeature => ({
+  id,
+  type: "polyline",
+  coordinates,
+  layerType: "record",
+})
+
+// East along the equator, then back down across the first segment at 0.005° east
+const ZIGZAG = line("zigzag", ll(0, 0), ll(0, 0.01), ll(0.01, 0.005), ll(-0.01, 0.005))
+const BOW_TIE: PersistedFeature = {
+  ...rectangle("bow-tie", 0, 0, 0.01, 0.01),
+  coordinates: [ll(0, 0), ll(0, 0.01), ll(0.01, 0), ll(0.01, 0.01)],
+}
+
+// A main and a service joined end to start, about 1.1 km each
+const MAIN = line("main", ll(0, 0), ll(0, 0.01))
+const SERVICE = line("service", ll(0, 0.01), ll(0.01, 0.01))
+
+describe("findSelfIntersections", () => {
+  it("finds where lines and boundaries cross themselves", () => {
+    const issues = findSelfIntersections([ZIGZAG, BOW_TIE, MAIN])
+    expect(issues.map(({ featureId, message }) => [featureId, message])).toEqual([
+      ["zigzag", "Line crosses itself"],
+      ["bow-tie", "Boundary crosses itself"],
+    ])
+    expect(issues[0].location.lat).toBeCloseTo(0, 12)
+    expect(issues[0].location.lng).toBeCloseTo(0.005, 12)
+    expect(issues[1].location.lat).toBeCloseTo(0.005, 12)
+    expect(issues[1].location.lng).toBeCloseTo(0.005, 12)
+  })
+
+  it("skips points", () => {
+    expect(findSelfIntersections([{ ...line("well", ll(0, 0)), type: "marker" }])).toEqual([])
+  })
+})
+
+describe("findOverlappingWorkAreas", () => {
+  it("reports an overlap on both work areas", () => {
+    const issues = findOverlappingWorkAreas([
+      rectangle("a", 0, 0, 0.01, 0.01),
+      rectangle("b", 0.005, 0.005, 0.015, 0.015),
+    ])
+    expect(issues.map(({ featureId, otherFeatureId }) => [featureId, otherFeatureId])).toEqual([
+      ["a", "b"],
+      ["b", "a"],
+    ])
+    expect(issues[0].type).toBe("overlap")
+    expect(issues[0].message).toMatch(/^Overlaps b by \d+\.\d m²$/)
+  })
+
+  it("ignores shared edges, records and overlaps below the minimum area", () => {
+    const a = rectangle("a", 0, 0, 0.01, 0.01)
+    expect(findOverlappingWorkAreas([a, rectangle("b", 0, 0.01, 0.01, 0.02)])).toEqual([])
+    expect(findOverlappingWorkAreas([a, { ...rectangle("b", 0, 0.005, 0.01, 0.015), layerType: "record" }])).toEqual([])
+
+    // A 0.2 mm wide overlap along the edge, about 0.25 m²
+    const sliver = rectangle("b", 0, 0.009999998, 0.01, 0.02)
+    expect(findOverlappingWorkAreas([a, sliver])).toEqual([])
+    expect(findOverlappingWorkAreas([a, sliver], 0)).toHaveLength(2)
+  })
+})
+
+describe("findDanglingEnds", () => {
+  it("reports line ends that connect to nothing", () => {
+    const issues = findDanglingEnds([MAIN, SERVICE])
+    expect(issues.map(({ featureId, location }) => [featureId, location])).toEqual([
+      ["main", ll(0, 0)],
+      ["service", ll(0.01, 0.01)],
+    ])
+    expect(issues[0]).toMatchObject({ type: "danglingEnd", message: "Line end is not connected" })
+  })
+
+  it("connects ends to reference lines within the tolerance", () => {
+    // A crossing main about 0.3 m west of the start
+    const reference = [ll(-0.001, -0.0000027), ll(0.001, -0.0000027)]
+    expect(findDanglingEnds([MAIN, SERVICE], [reference]).map((issue) => issue.featureId)).toEqual(["service"])
+    expect(findDanglingEnds([MAIN, SERVICE], [reference], 0.1).map((issue) => issue.featureId)).toEqual([
+      "main",
+      "service",
+    ])
+  })
+
+  it("only checks record lines", () => {
+    expect(findDanglingEnds([{ ...MAIN, layerType: "workArea" }])).toEqual([])
+  })
+})
+
+describe("validateTopology", () => {
+  it("finds nothing in clean features", () => {
+    const features = [rectangle("a", 0, 0, 0.01, 0.01), rectangle("b", 0, 0.01, 0.01, 0.02), MAIN, SERVICE]
+    const references = [
+      [ll(-0.001, 0), ll(0.001, 0)],
+      [ll(0.01, 0.009), ll(0.01, 0.011)],
+    ]
+    expect(validateTopology(features, {}, references)).toEqual([])
+  })
+
+  it("runs only the enabled checks", () => {
+    const features = [ZIGZAG, BOW_TIE, rectangle("a", 0.005, 0.005, 0.015, 0.015), MAIN]
+    const types = (options: Parameters<typeof validateTopology>[1]) =>
+      Array.from(new Set(validateTopology(features, options).map((issue) => issue.type)))
+
+    expect(types({})).toEqual(["selfIntersection", "overlap", "danglingEnd"])
+    expect(types({ selfIntersection: false, danglingEnds: false })).toEqual(["overlap"])
+    expect(types({ overlappingWorkAreas: false })).toEqual(["selfIntersection", "danglingEnd"])
+  })
+})
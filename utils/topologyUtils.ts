@@ -0,0 +1,170 @@
+import { area, featureCollection, intersect, kinks, lineString, pointToLineDistance } from "@turf/turf"
+import type { Feature, LineString, MultiPolygon, Polygon, Position } from "geojson"
+import { featuresToGeoJSON } from "@/utils/exportUtils"
+import type { LatLng } from "@/utils/mapUtils"
+import type { PersistedFeature } from "@/utils/storageUtils"
+
+export type TopologyIssueType = "selfIntersection" | "overlap" | "danglingEnd"
+
+/**
+ * A topology problem found on a drawn feature
+ */
+export type TopologyIssue = {
+  featureId: string
+  type: TopologyIssueType
+  message: string
+  location: LatLng
+  otherFeatureId?: string
+}
+
+/**
+ * Which topology checks to run and how strict they are
+ */
+export type TopologyOptions = {
+  selfIntersection?: boolean
+  overlappingWorkAreas?: boolean
+  danglingEnds?: boolean
+  // Line ends closer than this to another line count as connected (default: 0.5 m)
+  toleranceMeters?: number
+  // Overlaps smaller than this are ignored as rounding along shared edges (default: 0.5 m²)
+  minOverlapSqMeters?: number
+}
+
+const toLatLng = (position: Position): LatLng => ({ lat: position[1], lng: position[0] })
+
+/**
+ * Find self-intersections in drawn lines and polygons
+ * @param features Drawn features
+ * @returns One issue per crossing point
+ */
+export function findSelfIntersections(features: PersistedFeature[]): TopologyIssue[] {
+  const collection = featuresToGeoJSON(features)
+
+  return collection.features.flatMap((feature, i) => {
+    if (feature.geometry.type === "Point") return []
+
+    return kinks(feature as Feature<LineString | Polygon | MultiPolygon>).features.map((kink): TopologyIssue => ({
+      featureId: features[i].id,
+      type: "selfIntersection",
+      message: features[i].type === "polyline" ? "Line crosses itself" : "Boundary crosses itself",
+      location: toLatLng(kink.geometry.coordinates),
+    }))
+  })
+}
+
+/**
+ * Find work areas that overlap each other; shared edges are not overlaps
+ * @param features Drawn features (only work area polygons are checked)
+ * @param minOverlapSqMeters Overlaps smaller than this are ignored
+ * @returns One issue per overlapping pair, reported on both work areas
+ */
+export function findOverlappingWorkAreas(features: PersistedFeature[], minOverlapSqMeters = 0.5): TopologyIssue[] {
+  const workAreas = features.filter((f) => f.layerType === "workArea" && f.type !== "polyline" && f.type !== "marker")
+  const polygons = featuresToGeoJSON(workAreas).features as Feature<Polygon | MultiPolygon>[]
+  const issues: TopologyIssue[] = []
+
+  polygons.forEach((a, i) => {
+    polygons.slice(i + 1).forEach((b, offset) => {
+      const j = i + 1 + offset
+      // Self-intersecting rings make the overlay throw; those are reported separately
+      let overlap: Feature<Polygon | MultiPolygon> | null = null
+      try {
+        overlap = intersect(featureCollection([a, b]))
+      } catch {
+        return
+      }
+      if (!overlap) return
+
+      const overlapArea = area(overlap)
+      if (overlapArea < minOverlapSqMeters) return
+
+      const ring =
+        overlap.geometry.type === "Polygon" ? overlap.geometry.coordinates[0] : overlap.geometry.coordinates[0][0]
+      const location = toLatLng(ring[0])
+      const message = (other: PersistedFeature) =>
+        `Overlaps ${other.name ?? "another work area"} by ${overlapArea.toFixed(1)} m²`
+
+      issues.push(
+        {
+          featureId: workAreas[i].id,
+          type: "overlap",
+          message: message(workAreas[j]),
+          location,
+          otherFeatureId: workAreas[j].id,
+        },
+        {
+          featureId: workAreas[j].id,
+          type: "overlap",
+          message: message(workAreas[i]),
+          location,
+          otherFeatureId: workAreas[i].id,
+        },
+      )
+    })
+  })
+
+  return issues
+}
+
+/**
+ * Find record line ends that don't connect to any other line
+ * @param features Drawn features (only record polylines are checked)
+ * @param referenceLines Other lines ends may connect to, e.g. existing mains from `records` and `shapes`
+ * @param toleranceMeters Ends closer than this to another line are connected
+ * @returns One issue per dangling end
+ */
+export function findDanglingEnds(
+  features: PersistedFeature[],
+  referenceLines: LatLng[][] = [],
+  toleranceMeters = 0.5,
+): TopologyIssue[] {
+  const recordLines = features.filter(
+    (f) => f.layerType === "record" && f.type === "polyline" && f.coordinates.length > 1,
+  )
+  const toLine = (coords: LatLng[]) => lineString(coords.map((c) => [c.lng, c.lat]))
+  const references = referenceLines.filter((line) => line.length > 1).map(toLine)
+
+  return recordLines.flatMap((feature) => {
+    const others = [...recordLines.filter((f) => f.id !== feature.id).map((f) => toLine(f.coordinates)), ...references]
+    const ends = [feature.coordinates[0], feature.coordinates[feature.coordinates.length - 1]]
+
+    return ends
+      .filter(
+        (end) =>
+          !others.some((line) => pointToLineDistance([end.lng, end.lat], line, { units: "meters" }) <= toleranceMeters),
+      )
+      .map((end): TopologyIssue => ({
+        featureId: feature.id,
+        type: "danglingEnd",
+        message: "Line end is not connected",
+        location: end,
+      }))
+  })
+}
+
+/**
+ * Run the enabled topology checks over the drawn features
+ * @param features Drawn features
+ * @param options Checks to run (all on by default) and tolerances
+ * @param referenceLines Existing lines that record line ends may connect to
+ * @returns Every issue found, grouped by check
+ */
+export function validateTopology(
+  features: PersistedFeature[],
+  options: TopologyOptions = {},
+  referenceLines: LatLng[][] = [],
+): TopologyIssue[] {
+  const {
+    selfIntersection = true,
+    overlappingWorkAreas = true,
+    danglingEnds = true,
+    toleranceMeters = 0.5,
+    minOverlapSqMeters = 0.5,
+  } = options
+
+  return [
+    ...(selfIntersection ? findSelfIntersections(features) : []),
+    ...(overlappingWorkAreas ? findOverlappingWorkAreas(features, minOverlapSqMeters) : []),
+    ...(danglingEnds ? findDanglingEnds(features, referenceLines, toleranceMeters) : []),
+  ]
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest"
+import type { LatLng } from "@/utils/mapUtils"
+import type { PersistedFeature } from "@/utils/storageUtils"
+import {
+  fixOrientation,
+  isGeometryInvalid,
+  makeValid,
+  removeDuplicateVertices,
+  repairGeometry,
+  validateGeometry,
+} from "@/utils/validationUtils"
+
+const ll = (lat: number, lng: number): LatLng => ({ lat, lng })
+
+const polygon = (...rings: LatLng[][]): PersistedFeature => ({
+  id: "feature-1",
+  type: "polygon",
+  coordinates: rings[0],
+  parts: [rings],
+  layerType: "workArea",
+})
+
+const line = (...coordinates: LatLng[]): PersistedFeature => ({
+  id: "feature-2",
+  type: "polyline",
+  coordinates,
+  layerType: "record",
+})
+
+// Counter-clockwise in lng/lat, as RFC 7946 wants outer rings
+const SQUARE = [ll(0, 0), ll(0, 0.01), ll(0.01, 0.01), ll(0.01, 0)]
+// Clockwise, as RFC 7946 wants holes
+const HOLE = [ll(0.004, 0.004), ll(0.006, 0.004), ll(0.006, 0.006), ll(0.004, 0.006)]
+
+const problemTypes = (feature: PersistedFeature) => validateGeometry(feature).map((problem) => problem.type)
+
+describe("validateGeometry", () => {
+  it("accepts valid geometry", () => {
+    expect(validateGeometry(polygon(SQUARE, HOLE))).toEqual([])
+    expect(validateGeometry(line(ll(0, 0), ll(1, 1)))).toEqual([])
+    expect(validateGeometry({ ...line(ll(10, 20)), type: "marker" })).toEqual([])
+  })
+
+  it("finds self-intersections", () => {
+    const bowTie = polygon([ll(0, 0), ll(0, 0.01), ll(0.01, 0), ll(0.01, 0.01)])
+    expect(problemTypes(bowTie)).toContain("selfIntersection")
+    expect(isGeometryInvalid(bowTie)).toBe(true)
+  })
+
+  it("warns about duplicate vertices and winding order without invalidating the geometry", () => {
+    const feature = polygon([SQUARE[0], SQUARE[1], SQUARE[1], ...SQUARE.slice(2)].reverse())
+    expect(problemTypes(feature)).toEqual(["duplicateVertices", "windingOrder"])
+    expect(isGeometryInvalid(feature)).toBe(false)
+  })
+
+  it("finds coordinates out of range", () => {
+    expect(problemTypes({ ...line(ll(91, 0)), type: "marker" })).toEqual(["outOfRange"])
+    expect(problemTypes(line(ll(0, 179), ll(0, 181)))).toEqual(["outOfRange"])
+  })
+
+  it("finds rings without area and lines without length", () => {
+    expect(problemTypes(polygon([ll(0, 0), ll(0, 0.01), ll(0, 0.02)]))).toContain("zeroArea")
+    expect(problemTypes(polygon(SQUARE, [ll(0.005, 0.005), ll(0.005, 0.006)]))).toContain("zeroArea")
+    expect(problemTypes(line(ll(0, 0), ll(0, 0)))).toEqual(["duplicateVertices", "tooFewVertices"])
+  })
+})
+
+describe("repairs", () => {
+  it("splits a bow-tie into two valid parts", () => {
+    const repaired = makeValid(polygon([ll(0, 0), ll(0, 0.01), ll(0.01, 0), ll(0.01, 0.01)]))
+    expect(repaired.parts).toHaveLength(2)
+    repaired.parts!.forEach((rings) => expect(rings[0]).toHaveLength(3))
+    expect(validateGeometry(repaired)).toEqual([])
+    expect(repaired.coordinates).toEqual(repaired.parts![0][0])
+  })
+
+  it("removes duplicate vertices, including a repeated closing vertex", () => {
+    const repaired = removeDuplicateVertices(polygon([SQUARE[0], SQUARE[0], ...SQUARE.slice(1), SQUARE[0]], HOLE))
+    expect(repaired.parts).toEqual([[SQUARE, HOLE]])
+    expect(removeDuplicateVertices(line(ll(0, 0), ll(0, 0), ll(1, 1))).coordinates).toEqual([ll(0, 0), ll(1, 1)])
+  })
+
+  it("rewinds a clockwise outer ring and a counter-clockwise hole", () => {
+    const reversed = [...SQUARE].reverse()
+    const reversedHole = [...HOLE].reverse()
+    const repaired = fixOrientation(polygon(reversed, reversedHole))
+    expect(repaired.parts).toEqual([[SQUARE, HOLE]])
+    expect(validateGeometry(repaired)).toEqual([])
+  })
+
+  it("wraps longitudes and clamps latitudes into range", () => {
+    const repaired = makeValid(line(ll(95, 181), ll(0, -190), ll(-10, 540)))
+    expect(repaired.coordinates).toEqual([ll(90, -179), ll(0, 170), ll(-10, -180)])
+    expect(validateGeometry(repaired)).toEqual([])
+  })
+
+  it("drops rings without area", () => {
+    const sliver = [ll(0.005, 0.005), ll(0.005, 0.006), ll(0.005, 0.007)]
+    expect(makeValid(polygon(SQUARE, sliver)).parts).toEqual([[SQUARE]])
+
+    // Unchanged when nothing valid would remain
+    const flat = polygon(sliver)
+    expect(makeValid(flat)).toBe(flat)
+  })
+
+  it("applies the repair each problem names", () => {
+    const feature = polygon([...SQUARE].reverse())
+    const [problem] = validateGeometry(feature)
+    expect(repairGeometry(feature, problem.repair).parts).toEqual([[SQUARE]])
+  })
+})
@@ -0,0 +1,278 @@
+import { kinks, polygon, unkinkPolygon } from "@turf/turf"
+import type { Position } from "geojson"
+import type { LatLng } from "@/utils/mapUtils"
+import { geodesicArea } from "@/utils/measurementUtils"
+import type { PersistedFeature } from "@/utils/storageUtils"
+
+export type GeometryProblemType =
+  "selfIntersection" | "duplicateVertices" | "zeroArea" | "windingOrder" | "outOfRange" | "tooFewVertices"
+
+export type GeometryRepair = "makeValid" | "removeDuplicates" | "fixOrientation"
+
+/**
+ * A problem with a feature's geometry. Errors make the geometry invalid; warnings are fixable quirks
+ * (duplicate vertices, winding order) that don't change its shape.
+ */
+export type GeometryProblem = {
+  type: GeometryProblemType
+  severity: "error" | "warning"
+  message: string
+  repair: GeometryRepair
+}
+
+// Vertices closer than this, in degrees (about 0.1 mm), are duplicates
+const DUPLICATE_TOLERANCE = 1e-9
+
+// Rings smaller than this, in square meters, have no area
+const MIN_RING_AREA = 0.01
+
+const isSameVertex = (a: LatLng, b: LatLng) =>
+  Math.abs(a.lat - b.lat) < DUPLICATE_TOLERANCE && Math.abs(a.lng - b.lng) < DUPLICATE_TOLERANCE
+
+/**
+ * Remove consecutive duplicate vertices, including a repeated closing vertex on rings
+ * @param coords Vertices
+ * @param closed Whether the vertices form a ring
+ * @returns Vertices without consecutive duplicates
+ */
+function dedupeVertices(coords: LatLng[], closed: boolean): LatLng[] {
+  const deduped = coords.filter((c, i) => i === 0 || !isSameVertex(c, coords[i - 1]))
+  if (closed && deduped.length > 1 && isSameVertex(deduped[0], deduped[deduped.length - 1])) {
+    deduped.pop()
+  }
+  return deduped
+}
+
+/**
+ * Signed planar area of a ring in lng/lat space
+ * @param ring Ring vertices (open)
+ * @returns Positive for counter-clockwise rings, negative for clockwise
+ */
+function signedRingArea(ring: LatLng[]): number {
+  return (
+    ring.reduce((sum, c, i) => {
+      const next = ring[(i + 1) % ring.length]
+      return sum + (c.lng * next.lat - next.lng * c.lat)
+    }, 0) / 2
+  )
+}
+
+const toClosedPositions = (ring: LatLng[]): Position[] => [...ring, ring[0]].map((c) => [c.lng, c.lat])
+
+const toOpenRing = (positions: Position[]): LatLng[] =>
+  dedupeVertices(
+    positions.map((p) => ({ lat: p[1], lng: p[0] })),
+    true,
+  )
+
+/**
+ * Every coordinate of a feature, across all rings and parts
+ * @param feature Drawn feature
+ * @returns Flat list of vertices
+ */
+function allCoordinates(feature: PersistedFeature): LatLng[] {
+  return feature.parts ? feature.parts.flat(2) : feature.coordinates
+}
+
+/**
+ * Polygon parts of a feature, or null for points and lines
+ * @param feature Drawn feature
+ * @returns Parts, each an outer ring followed by holes
+ */
+function polygonParts(feature: PersistedFeature): LatLng[][][] | null {
+  if (feature.type === "marker" || feature.type === "polyline") return null
+  return feature.parts ?? [[feature.coordinates]]
+}
+
+/**
+ * Check a feature's geometry for problems
+ * @param feature Drawn or imported feature
+ * @returns Problems found; an empty list means the geometry is valid
+ */
+export function validateGeometry(feature: PersistedFeature): GeometryProblem[] {
+  const problems: GeometryProblem[] = []
+  const parts = polygonParts(feature)
+  const rings = parts ? parts.flat() : [feature.coordinates]
+
+  if (allCoordinates(feature).some((c) => Math.abs(c.lat) > 90 || Math.abs(c.lng) > 180)) {
+    problems.push({
+      type: "outOfRange",
+      severity: "error",
+      message: "Coordinates outside ±90° latitude / ±180° longitude",
+      repair: "makeValid",
+    })
+  }
+
+  if (feature.type === "marker") return problems
+
+  if (rings.some((ring) => dedupeVertices(ring, !!parts).length !== ring.length)) {
+    problems.push({
+      type: "duplicateVertices",
+      severity: "warning",
+      message: "Repeated consecutive vertices",
+      repair: "removeDuplicates",
+    })
+  }
+
+  if (!parts) {
+    if (dedupeVertices(feature.coordinates, false).length < 2) {
+      problems.push({
+        type: "tooFewVertices",
+        severity: "error",
+        message: "Line needs at least two distinct vertices",
+        repair: "makeValid",
+      })
+    }
+    return problems
+  }
+
+  const dedupedRings = rings.map((ring) => dedupeVertices(ring, true))
+
+  if (dedupedRings.some((ring) => ring.length < 3 || geodesicArea(ring) < MIN_RING_AREA)) {
+    problems.push({ type: "zeroArea", severity: "error", message: "Ring with no area", repair: "makeValid" })
+  }
+
+  const hasKinks = parts.some((rings) => {
+    const closed = rings.map((ring) => dedupeVertices(ring, true)).filter((ring) => ring.length >= 3)
+    return closed.length > 0 && kinks(polygon(closed.map(toClosedPositions))).features.length > 0
+  })
+  if (hasKinks) {
+    problems.push({
+      type: "selfIntersection",
+      severity: "error",
+      message: "Boundary crosses itself",
+      repair: "makeValid",
+    })
+  }
+
+  // RFC 7946: outer rings counter-clockwise, holes clockwise
+  const wrongWinding = parts.some((rings) =>
+    rings.some((ring, i) => {
+      const signed = signedRingArea(dedupeVertices(ring, true))
+      return i === 0 ? signed < 0 : signed > 0
+    }),
+  )
+  if (wrongWinding) {
+    problems.push({
+      type: "windingOrder",
+      severity: "warning",
+      message: "Rings wound in the wrong direction",
+      repair: "fixOrientation",
+    })
+  }
+
+  return problems
+}
+
+/**
+ * Whether a feature has problems that make its geometry invalid
+ * @param feature Drawn or imported feature
+ * @returns True if any problem is an error
+ */
+export function isGeometryInvalid(feature: PersistedFeature): boolean {
+  return validateGeometry(feature).some((problem) => problem.severity === "error")
+}
+
+/**
+ * Replace a polygon feature's parts, keeping `coordinates` as the first outer ring
+ */
+const withParts = (feature: PersistedFeature, parts: LatLng[][][]): PersistedFeature => ({
+  ...feature,
+  parts,
+  coordinates: parts[0]?.[0] ?? [],
+})
+
+/**
+ * Remove repeated consecutive vertices
+ * @param feature Drawn feature
+ * @returns Feature with duplicates removed
+ */
+export function removeDuplicateVertices(feature: PersistedFeature): PersistedFeature {
+  const parts = polygonParts(feature)
+  if (!parts) {
+    return { ...feature, coordinates: dedupeVertices(feature.coordinates, false) }
+  }
+  return withParts(
+    feature,
+    parts.map((rings) => rings.map((ring) => dedupeVertices(ring, true))),
+  )
+}
+
+/**
+ * Rewind rings so outer rings run counter-clockwise and holes clockwise
+ * @param feature Drawn feature
+ * @returns Feature with corrected winding order
+ */
+export function fixOrientation(feature: PersistedFeature): PersistedFeature {
+  const parts = polygonParts(feature)
+  if (!parts) return feature
+
+  return withParts(
+    feature,
+    parts.map((rings) =>
+      rings.map((ring, i) => {
+        const signed = signedRingArea(ring)
+        const wrong = i === 0 ? signed < 0 : signed > 0
+        return wrong ? [...ring].reverse() : ring
+      }),
+    ),
+  )
+}
+
+/**
+ * Repair a feature's geometry: bring coordinates into range, remove duplicate vertices,
+ * drop rings without area, split self-intersecting polygons at their crossings and fix winding order
+ * @param feature Drawn feature
+ * @returns Repaired feature; polygons may gain parts where they were split. Unchanged if nothing valid remains.
+ */
+export function makeValid(feature: PersistedFeature): PersistedFeature {
+  // Longitudes already in range are kept as-is; wrapping them would add rounding error
+  const clamp = (c: LatLng): LatLng => ({
+    lat: Math.max(-90, Math.min(90, c.lat)),
+    lng: Math.abs(c.lng) <= 180 ? c.lng : ((((c.lng + 180) % 360) + 360) % 360) - 180,
+  })
+  const inRange = (coords: LatLng[]) => coords.map(clamp)
+
+  const parts = polygonParts(feature)
+  if (!parts) {
+    return removeDuplicateVertices({ ...feature, coordinates: inRange(feature.coordinates) })
+  }
+
+  const hasArea = (ring: LatLng[]) => ring.length >= 3 && geodesicArea(ring) >= MIN_RING_AREA
+
+  const repaired = parts.flatMap((rings): LatLng[][][] => {
+    const [outer, ...holes] = rings
+      .map((ring) => dedupeVertices(inRange(ring), true))
+      .filter((ring) => ring.length >= 3)
+    if (!outer) return []
+
+    // Split at crossings before checking the outer ring's area: the lobes of a bow-tie cancel out in it
+    const part = [outer, ...holes.filter(hasArea)]
+    const closed = polygon(part.map(toClosedPositions))
+    const pieces =
+      kinks(closed).features.length === 0
+        ? [part]
+        : unkinkPolygon(closed).features.map((split) => split.geometry.coordinates.map(toOpenRing))
+
+    return pieces.filter(([ring]) => hasArea(ring))
+  })
+
+  return repaired.length > 0 ? fixOrientation(withParts(feature, repaired)) : feature
+}
+
+/**
+ * Apply a one-click repair
+ * @param feature Drawn feature
+ * @param repair Repair to apply
+ * @returns Repaired feature
+ */
+export function repairGeometry(feature: PersistedFeature, repair: GeometryRepair): PersistedFeature {
+  switch (repair) {
+    case "makeValid":
+      return makeValid(feature)
+    case "removeDuplicates":
+      return removeDuplicateVertices(feature)
+    case "fixOrientation":
+      return fixOrientation(feature)
+  }
+}
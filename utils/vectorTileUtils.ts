@@ -0,0 +1,200 @@
+import type L from "leaflet"
+import { maplibreGLJSLayer } from "esri-leaflet-vector"
+import type {
+  ExpressionSpecification,
+  LayerSpecification,
+  Map as MaplibreMap,
+  StyleSpecification,
+  VectorSourceSpecification,
+} from "maplibre-gl"
+import { BASE_STYLES, type FeatureStyle, type StyleRule, type StyleSheet } from "@/utils/styleUtils"
+
+/**
+ * A layer inside a vector tile overlay, styled by its own style sheet or the map's
+ */
+export type VectorTileOverlayLayer = {
+  sourceLayer: string
+  styleSheet?: StyleSheet
+  base?: Partial<FeatureStyle>
+}
+
+/**
+ * Mapbox Vector Tile overlay, from tiles served with the app (e.g. under `public/`) or a tile server
+ */
+export type VectorTileOverlay = {
+  id: string
+  name: string
+  // Tile URL template with {z}, {x} and {y}, or the URL of a TileJSON file
+  url: string
+  layers: VectorTileOverlayLayer[]
+  minZoom?: number
+  maxZoom?: number
+  attribution?: string
+  // Whether the overlay starts switched on (default: true)
+  visible?: boolean
+}
+
+// Point features are drawn as circles of this radius, in pixels
+const POINT_RADIUS = 5
+
+const SYMBOL_STROKE = "#1f2937"
+
+const POLYGON_TYPES = ["Polygon", "MultiPolygon"]
+const LINE_TYPES = ["LineString", "MultiLineString", ...POLYGON_TYPES]
+const POINT_TYPES = ["Point", "MultiPoint"]
+
+const geometryFilter = (types: string[]) =>
+  ["in", ["geometry-type"], ["literal", types]] as unknown as ExpressionSpecification
+
+/**
+ * Same test as the style sheet applies in resolveFeatureStyle: the first listed property present,
+ * compared case-insensitively with the rule's values
+ */
+function ruleCondition(rule: StyleRule): unknown[] {
+  const keys = Array.isArray(rule.property) ? rule.property : [rule.property]
+  const value = ["downcase", ["to-string", ["coalesce", ...keys.map((key) => ["get", key]), ""]]]
+  return ["in", value, ["literal", rule.values.map((v) => v.toLowerCase())]]
+}
+
+/**
+ * Build an expression for one style property: the value from the last matching rule that sets it, or the base value
+ * @param rules Style sheet rules
+ * @param base Style used where no rule applies
+ * @param key Style property
+ * @returns Constant when no rule sets the property, otherwise a `case` expression
+ */
+function styleExpression<K extends keyof FeatureStyle>(rules: StyleRule[], base: FeatureStyle, key: K) {
+  // Rules set dashArray to undefined to mean solid, so presence of the key counts rather than its value
+  const setting = rules.filter((rule) => key in rule.style)
+  const fallback = base[key] ?? ""
+  if (setting.length === 0) return fallback
+
+  const cases = [...setting].reverse().flatMap((rule) => [ruleCondition(rule), rule.style[key] ?? ""])
+  return ["case", ...cases, fallback] as unknown as ExpressionSpecification
+}
+
+/**
+ * Convert a Leaflet dash array in pixels to MapLibre's, in line widths
+ * @param dashArray Dash pattern such as "8 4"
+ * @param weight Line width in pixels
+ * @returns Dash lengths in line widths
+ */
+function toLineDashArray(dashArray: string, weight: number): number[] {
+  return dashArray
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map((n) => Number(n) / weight)
+}
+
+/**
+ * Build the MapLibre layers for one source layer: fills, outlines (one layer per dash pattern, since
+ * MapLibre can't vary dashes per feature) and circles for points
+ */
+function createStyleLayers(layer: VectorTileOverlayLayer, sheet: StyleSheet, index: number): LayerSpecification[] {
+  const base: FeatureStyle = { ...BASE_STYLES.record, ...layer.base }
+  const rules = (layer.styleSheet ?? sheet).rules
+  const prefix = `${index}-${layer.sourceLayer}`
+  const common = { source: "overlay", "source-layer": layer.sourceLayer }
+
+  const dashes = new Set([
+    base.dashArray ?? "",
+    ...rules.filter((r) => "dashArray" in r.style).map((r) => r.style.dashArray ?? ""),
+  ])
+  const dashExpression = styleExpression(rules, base, "dashArray")
+
+  return [
+    {
+      ...common,
+      id: `${prefix}-fill`,
+      type: "fill",
+      filter: geometryFilter(POLYGON_TYPES),
+      paint: {
+        "fill-color": styleExpression(rules, base, "fillColor") as string,
+        "fill-opacity": styleExpression(rules, base, "fillOpacity") as number,
+      },
+    },
+    ...[...dashes].map((dash, i): LayerSpecification => ({
+      ...common,
+      id: `${prefix}-line-${i}`,
+      type: "line",
+      filter: ["all", geometryFilter(LINE_TYPES), ["==", dashExpression, dash]] as unknown as ExpressionSpecification,
+      paint: {
+        "line-color": styleExpression(rules, base, "color") as string,
+        "line-width": styleExpression(rules, base, "weight") as number,
+        ...(dash && { "line-dasharray": toLineDashArray(dash, base.weight) }),
+      },
+    })),
+    {
+      ...common,
+      id: `${prefix}-point`,
+      type: "circle",
+      filter: geometryFilter(POINT_TYPES),
+      paint: {
+        "circle-color": styleExpression(rules, base, "fillColor") as string,
+        "circle-radius": POINT_RADIUS,
+        "circle-stroke-color": SYMBOL_STROKE,
+        "circle-stroke-width": 1.5,
+      },
+    },
+  ]
+}
+
+/**
+ * Build a MapLibre style that draws a vector tile overlay with style sheet rules
+ * @param overlay Vector tile overlay
+ * @param sheet Style sheet for layers without their own
+ * @returns MapLibre style with a single vector source
+ */
+export function createVectorTileStyle(overlay: VectorTileOverlay, sheet: StyleSheet): StyleSpecification {
+  // Tiles are fetched from a web worker, which can't resolve URLs relative to the page
+  const absolute = (url: string) => new URL(url, window.location.href).href.replace(/%7B/g, "{").replace(/%7D/g, "}")
+
+  const source: VectorSourceSpecification = overlay.url.includes("{z}")
+    ? {
+        type: "vector",
+        tiles: [absolute(overlay.url)],
+        minzoom: overlay.minZoom ?? 0,
+        maxzoom: overlay.maxZoom ?? 14,
+      }
+    : { type: "vector", url: absolute(overlay.url) }
+
+  return {
+    version: 8,
+    sources: { overlay: source },
+    layers: overlay.layers.flatMap((layer, i) => createStyleLayers(layer, sheet, i)),
+  }
+}
+
+/**
+ * Create a Leaflet layer that renders a vector tile overlay with MapLibre
+ * @param overlay Vector tile overlay
+ * @param sheet Style sheet for layers without their own
+ * @param pane Map pane to draw into
+ * @returns Leaflet layer
+ */
+export function createVectorTileLayer(overlay: VectorTileOverlay, sheet: StyleSheet, pane: string): L.Layer {
+  return maplibreGLJSLayer({
+    style: createVectorTileStyle(overlay, sheet),
+    pane,
+    attribution: overlay.attribution,
+  })
+}
+
+/**
+ * Find the topmost overlay feature drawn at a point
+ * @param layer Layer from createVectorTileLayer
+ * @param latlng Clicked point
+ * @param tolerance Search distance around the point, in pixels (default: 4)
+ * @returns Properties of the feature, or null if there is none
+ */
+export function pickVectorTileFeature(layer: L.Layer, latlng: L.LatLng, tolerance = 4): Record<string, unknown> | null {
+  const glMap = (layer as L.Layer & { getMaplibreMap?: () => MaplibreMap | undefined }).getMaplibreMap?.()
+  if (!glMap) return null
+
+  const { x, y } = glMap.project([latlng.lng, latlng.lat])
+  const [feature] = glMap.queryRenderedFeatures([
+    [x - tolerance, y - tolerance],
+    [x + tolerance, y + tolerance],
+  ])
+  return feature ? feature.properties : null
+}